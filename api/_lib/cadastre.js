@@ -0,0 +1,135 @@
+// Cadastral parcel lookup behind a pluggable adapter, used by /api/cadastre.
+// An adapter is { name, lookup(lon, lat) } resolving to a parcel or null:
+// { parcelNumber, parcelId, cadastralArea, cadastralAreaCode, buildingNumber, landUse, viewerUrl }
+
+const VIEWER_PARCEL_URL = 'https://nahlizenidokn.cuzk.cz/ZobrazObjekt.aspx?typ=parcela&id=';
+
+// Druh pozemku (RÚIAN číselník)
+const LAND_USE_NAMES = {
+  2: 'orná půda',
+  3: 'chmelnice',
+  4: 'vinice',
+  5: 'zahrada',
+  6: 'ovocný sad',
+  7: 'trvalý travní porost',
+  10: 'lesní pozemek',
+  11: 'vodní plocha',
+  13: 'zastavěná plocha a nádvoří',
+  14: 'ostatní plocha'
+};
+
+const viewerUrl = (parcelId) => (parcelId ? `${VIEWER_PARCEL_URL}${encodeURIComponent(parcelId)}` : null);
+
+// --- RÚIAN (ČÚZK public ArcGIS service, no key) ---
+
+const RUIAN_SERVICE_URL = process.env.CADASTRE_RUIAN_URL ||
+  'https://ags.cuzk.cz/arcgis/rest/services/RUIAN/Prohlizeci_sluzba_nad_daty_RUIAN/MapServer';
+
+// Identify answers with field names or aliases depending on the service version -
+// compare them without case, diacritics and spaces
+const normalizeKey = (key) => key.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]/gi, '').toLowerCase();
+
+function attributeOf(attributes, ...names) {
+  const wanted = names.map(normalizeKey);
+  const entry = Object.entries(attributes).find(([key, value]) =>
+    wanted.includes(normalizeKey(key)) && value !== null && value !== '' && value !== 'Null'
+  );
+  return entry ? String(entry[1]) : null;
+}
+
+async function ruianIdentify(lon, lat) {
+  // Tiny map extent around the point - identify needs one, tolerance 0 keeps it exact
+  const d = 0.0001;
+  const params = new URLSearchParams({
+    geometry: `${lon},${lat}`,
+    geometryType: 'esriGeometryPoint',
+    sr: '4326',
+    layers: 'all',
+    tolerance: '0',
+    mapExtent: `${lon - d},${lat - d},${lon + d},${lat + d}`,
+    imageDisplay: '100,100,96',
+    returnGeometry: 'false',
+    f: 'json'
+  });
+  const response = await fetch(`${RUIAN_SERVICE_URL}/identify?${params.toString()}`);
+  if (!response.ok) {
+    const error = new Error(`RÚIAN identify failed (HTTP ${response.status})`);
+    error.status = response.status;
+    throw error;
+  }
+  const data = await response.json();
+  return Array.isArray(data.results) ? data.results : [];
+}
+
+const ruianAdapter = {
+  name: 'ruian',
+  async lookup(lon, lat) {
+    const results = await ruianIdentify(lon, lat);
+    const layer = (name) => results.find(result => normalizeKey(result.layerName || '') === normalizeKey(name))?.attributes;
+
+    const parcel = layer('Parcela');
+    if (!parcel) return null;
+    const building = layer('Stavební objekt');
+    const cadastralArea = layer('Katastrální území');
+
+    const stem = attributeOf(parcel, 'kmenovecislo', 'Kmenové číslo');
+    const subdivision = attributeOf(parcel, 'pododdelenicisla', 'Poddělení čísla');
+    const parcelId = attributeOf(parcel, 'id', 'Identifikátor', 'kod');
+    const landUseCode = attributeOf(parcel, 'druhpozemkukod', 'Druh pozemku');
+
+    return {
+      parcelNumber: [stem, subdivision].filter(Boolean).join('/') || attributeOf(parcel, 'cisloparcely', 'Parcelní číslo') || '?',
+      parcelId,
+      cadastralArea: cadastralArea ? attributeOf(cadastralArea, 'nazev', 'Název') : null,
+      cadastralAreaCode: attributeOf(parcel, 'katastralniuzemikod', 'Katastrální území') || (cadastralArea ? attributeOf(cadastralArea, 'kod', 'Kód') : null),
+      buildingNumber: building ? attributeOf(building, 'cislodomovni', 'Číslo domovní', 'Čísla domovní') : null,
+      landUse: (landUseCode && LAND_USE_NAMES[Number(landUseCode)]) || landUseCode,
+      viewerUrl: viewerUrl(parcelId)
+    };
+  }
+};
+
+// --- Fixture (offline stand-in for development and testing) ---
+
+// A few real Prague parcels; any other point gets a stable made-up parcel derived from
+// its coordinates, so the UI can be exercised anywhere without the network
+const FIXTURE_PARCELS = [
+  {
+    bbox: [14.4246, 50.0806, 14.4262, 50.0816], // Vodičkova / Václavské náměstí
+    parcel: { parcelNumber: '2067', parcelId: '611424101', cadastralArea: 'Nové Město', cadastralAreaCode: '727181', buildingNumber: '681', landUse: 'zastavěná plocha a nádvoří' }
+  },
+  {
+    bbox: [14.4203, 50.0862, 14.4218, 50.0871], // Staroměstské náměstí
+    parcel: { parcelNumber: '606', parcelId: '603553101', cadastralArea: 'Staré Město', cadastralAreaCode: '727024', buildingNumber: '1', landUse: 'zastavěná plocha a nádvoří' }
+  }
+];
+
+const fixtureAdapter = {
+  name: 'fixture',
+  async lookup(lon, lat) {
+    const match = FIXTURE_PARCELS.find(({ bbox }) => lon >= bbox[0] && lat >= bbox[1] && lon <= bbox[2] && lat <= bbox[3]);
+    const parcel = match ? match.parcel : {
+      parcelNumber: `${Math.round(lon * 1e4) % 3000}/${Math.round(lat * 1e5) % 40 + 1}`,
+      parcelId: null,
+      cadastralArea: 'Testovací území',
+      cadastralAreaCode: '999999',
+      buildingNumber: String(Math.round(lat * 1e5) % 2000 + 1),
+      landUse: 'zastavěná plocha a nádvoří'
+    };
+    return { ...parcel, viewerUrl: viewerUrl(parcel.parcelId) };
+  }
+};
+
+const ADAPTERS = {
+  [ruianAdapter.name]: ruianAdapter,
+  [fixtureAdapter.name]: fixtureAdapter
+};
+
+// Adapter selected by CADASTRE_ADAPTER, RÚIAN by default
+export function getCadastreAdapter(name = process.env.CADASTRE_ADAPTER || ruianAdapter.name) {
+  const adapter = ADAPTERS[name];
+  if (!adapter) {
+    throw new Error(`Unknown cadastre adapter "${name}" (available: ${Object.keys(ADAPTERS).join(', ')})`);
+  }
+  return adapter;
+}
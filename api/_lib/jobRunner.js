@@ -0,0 +1,205 @@
+// Processes batch analysis jobs: fetch the panorama image server side, run the
+// Claude analysis and persist every finished item. Serverless functions are frozen as
+// soon as they respond, so nothing runs in the background: work happens in steps inside
+// requests. Each poll of a job runs a step, and the cron function (api/analysis-jobs-cron.js)
+// steps every open job once a minute, so jobs finish after the tab is closed too.
+
+import { listJobs, readJob, updateJob } from './jobStore.js';
+import { analyzePropertyImages } from './propertyAnalyzer.js';
+import { buildStaticPanoramaUrl } from '../../src/shared/panoramaUrl.js';
+
+export const JOB_DEFAULTS = {
+  concurrency: 3,
+  maxConcurrency: 5,
+  maxItems: 500,
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  stepBudgetMs: 25000, // A step claims no new item after this, so it ends within maxDuration (vercel.json)
+  leaseMs: 120000 // An item whose step died is claimed again after this
+};
+
+export const DEFAULT_VIEW = { width: 1024, height: 800, yaw: 0, pitch: 0, fov: 90 };
+
+const isRetryableStatus = status => status === 429 || status >= 500;
+
+const isOpen = job => job.status === 'queued' || job.status === 'running';
+
+function backoffDelay(attempt, retryAfterSeconds) {
+  if (retryAfterSeconds > 0) {
+    return Math.min(JOB_DEFAULTS.maxDelayMs, retryAfterSeconds * 1000);
+  }
+  const backoff = Math.min(JOB_DEFAULTS.maxDelayMs, JOB_DEFAULTS.baseDelayMs * 2 ** attempt);
+  return backoff / 2 + Math.random() * backoff / 2;
+}
+
+export function computeProgress(items) {
+  const progress = { total: items.length, pending: 0, running: 0, completed: 0, failed: 0 };
+  items.forEach(item => {
+    progress[item.status]++;
+  });
+  return progress;
+}
+
+// Pending and past its retry time, or claimed by a step that did not finish
+function isDue(item, now) {
+  if (item.status === 'pending') return !item.retryAt || Date.parse(item.retryAt) <= now;
+  return item.status === 'running' && (!item.leaseUntil || Date.parse(item.leaseUntil) <= now);
+}
+
+// Fetch one view of the panorama as base64. Resolves { ok: true, image } or a failed outcome
+async function fetchViewImage(item, view, keys) {
+  const imageUrl = buildStaticPanoramaUrl(item.lon, item.lat, view, keys.mapy);
+  const imageResponse = await fetch(imageUrl);
+
+  if (!imageResponse.ok) {
+    return {
+      ok: false,
+      retryable: isRetryableStatus(imageResponse.status),
+      retryAfter: Number(imageResponse.headers.get('Retry-After')),
+      error: { error: `Nepodařilo se načíst panorama (HTTP ${imageResponse.status})` }
+    };
+  }
+
+  const mediaType = imageResponse.headers.get('Content-Type') || 'image/jpeg';
+  return {
+    ok: true,
+    image: {
+      data: Buffer.from(await imageResponse.arrayBuffer()).toString('base64'),
+      mediaType: mediaType.split(';')[0],
+      yaw: view.yaw,
+      pitch: view.pitch,
+      fov: view.fov
+    }
+  };
+}
+
+// Analyse one item, all its views in one request.
+// Resolves { ok: true, analysis } or { ok: false, error, retryable, retryAfter }
+async function analyzeItem(item, keys) {
+  const images = [];
+  for (const view of item.views) {
+    const fetched = await fetchViewImage(item, view, keys);
+    if (!fetched.ok) return fetched;
+    images.push(fetched.image);
+  }
+
+  const result = await analyzePropertyImages(keys.anthropic, images);
+
+  if (result.ok) {
+    return item.views.length > 1
+      ? { ok: true, analysis: { ...result.analysis, views: item.views.map(({ yaw, pitch, fov }) => ({ yaw, pitch, fov })) } }
+      : result;
+  }
+
+  const { ok, status, ...errorBody } = result;
+  return { ok: false, retryable: isRetryableStatus(status), error: errorBody };
+}
+
+// Claim the next due item. The job is re-read for every item, so a cancelled job stops
+// claiming right away. Resolves the claimed item or null when there is nothing to do.
+async function claimItem(jobId) {
+  let claimed = null;
+  await updateJob(jobId, current => {
+    claimed = null;
+    if (!current || !isOpen(current)) return null;
+
+    const now = Date.now();
+    const item = current.items.find(candidate => isDue(candidate, now));
+    if (!item) return null;
+
+    current.status = 'running';
+    item.status = 'running';
+    item.attempts++;
+    item.leaseUntil = new Date(now + JOB_DEFAULTS.leaseMs).toISOString();
+    delete item.retryAt;
+    current.progress = computeProgress(current.items);
+    claimed = { ...item };
+    return current;
+  });
+  return claimed;
+}
+
+async function processItem(jobId, item, keys) {
+  let outcome;
+  try {
+    outcome = await analyzeItem(item, keys);
+  } catch (error) {
+    // Network failure - worth another try
+    outcome = { ok: false, retryable: true, error: { error: error.message } };
+  }
+
+  await updateJob(jobId, current => {
+    const stored = current && current.items[item.index];
+    // Claimed again by another step after our lease ran out - its outcome counts
+    if (!stored || stored.status !== 'running' || stored.attempts !== item.attempts) return null;
+
+    delete stored.leaseUntil;
+    if (outcome.ok) {
+      stored.status = 'completed';
+      stored.result = {
+        coordinates: [stored.lon, stored.lat],
+        ...outcome.analysis,
+        timestamp: new Date().toISOString()
+      };
+      delete stored.error;
+    } else if (outcome.retryable && stored.attempts < JOB_DEFAULTS.maxAttempts) {
+      // Retried by a later step once the backoff has passed
+      const delay = backoffDelay(stored.attempts - 1, outcome.retryAfter);
+      console.warn(`[WARN] Job ${jobId} item ${item.index} failed (${outcome.error.error}), retry in ${Math.round(delay)}ms`);
+      stored.status = 'pending';
+      stored.retryAt = new Date(Date.now() + delay).toISOString();
+      stored.error = outcome.error;
+    } else {
+      stored.status = 'failed';
+      stored.error = outcome.error;
+    }
+    current.progress = computeProgress(current.items);
+    return current;
+  });
+}
+
+// Run one step of a job: up to `concurrency` workers claim and analyse due items until
+// none is left or the deadline passes, then the job is closed if nothing remains.
+// Resolves the job as stored afterwards.
+export async function stepJob(jobId, keys, deadline = Date.now() + JOB_DEFAULTS.stepBudgetMs) {
+  const job = await readJob(jobId);
+  if (!job || !isOpen(job)) return job;
+
+  const worker = async () => {
+    while (Date.now() < deadline) {
+      const item = await claimItem(jobId);
+      if (!item) return;
+      await processItem(jobId, item, keys);
+    }
+  };
+
+  const concurrency = Math.min(job.options.concurrency, JOB_DEFAULTS.maxConcurrency);
+  await Promise.all(Array.from({ length: concurrency }, worker));
+
+  return updateJob(jobId, current => {
+    if (!current || !isOpen(current)) return null;
+    current.progress = computeProgress(current.items);
+    if (current.progress.pending > 0 || current.progress.running > 0) return null;
+    current.status = 'completed';
+    current.completedAt = new Date().toISOString();
+    console.log(`[DEBUG] Job ${jobId} finished`);
+    return current;
+  });
+}
+
+// Step every open job, oldest first, within one step budget - what the cron runs.
+// Jobs left over when the budget is spent get their turn on the next run.
+// Resolves the ids of the jobs that were stepped.
+export async function stepOpenJobs(keys) {
+  const deadline = Date.now() + JOB_DEFAULTS.stepBudgetMs;
+  const open = (await listJobs()).filter(isOpen).reverse();
+
+  const stepped = [];
+  for (const job of open) {
+    if (Date.now() >= deadline) break;
+    await stepJob(job.id, keys, deadline);
+    stepped.push(job.id);
+  }
+  return stepped;
+}
@@ -0,0 +1,178 @@
+// Store for batch analysis jobs, one JSON document per job.
+// With KV_REST_API_URL and KV_REST_API_TOKEN set (Vercel KV / Upstash Redis) jobs live in
+// Redis and every function instance sees the same jobs - use this in production.
+// Otherwise they are JSON files in JOB_STORE_DIR, which only one process can share.
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+
+const JOB_ID_PATTERN = /^job_[a-z0-9_]+$/;
+
+// Concurrent writers of one job retry their read-modify-write this many times
+const MAX_UPDATE_ATTEMPTS = 10;
+
+export function createJobId() {
+  return `job_${Date.now().toString(36)}_${crypto.randomBytes(4).toString('hex')}`;
+}
+
+export function isValidJobId(id) {
+  return typeof id === 'string' && JOB_ID_PATTERN.test(id);
+}
+
+function assertJobId(id) {
+  if (!isValidJobId(id)) {
+    throw new Error(`Invalid job id: ${id}`);
+  }
+}
+
+// --- File backend (local runs) ---
+
+const STORE_DIR = process.env.JOB_STORE_DIR || path.join(os.tmpdir(), 'flipakt-analysis-jobs');
+
+function jobPath(id) {
+  assertJobId(id);
+  return path.join(STORE_DIR, `${id}.json`);
+}
+
+const fileBackend = {
+  async read(id) {
+    try {
+      return { job: JSON.parse(await fs.readFile(jobPath(id), 'utf8')), version: null };
+    } catch (error) {
+      if (error.code === 'ENOENT') return { job: null, version: null };
+      throw error;
+    }
+  },
+
+  // Writes are serialised by the in-process lock in updateJob, so they always win.
+  // Temp file and rename so readers never see a half-written job.
+  async write(job) {
+    await fs.mkdir(STORE_DIR, { recursive: true });
+    const target = jobPath(job.id);
+    const tmp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(job));
+    await fs.rename(tmp, target);
+    return true;
+  },
+
+  async list() {
+    await fs.mkdir(STORE_DIR, { recursive: true });
+    const files = (await fs.readdir(STORE_DIR)).filter(file => file.endsWith('.json'));
+    const reads = await Promise.all(files.map(file => this.read(file.replace(/\.json$/, '')).catch(() => null)));
+    return reads.map(read => read && read.job);
+  }
+};
+
+// --- Redis backend (Upstash REST API, no client library needed) ---
+
+const REDIS_PREFIX = 'flipakt:job:';
+const REDIS_INDEX = 'flipakt:jobs';
+const REDIS_TTL_SECONDS = 30 * 24 * 3600;
+const REDIS_LIST_LIMIT = 100;
+
+// Compare-and-set: the job is written only if nobody else wrote it since it was read.
+// KEYS: job, version, index; ARGV: expected version, job JSON, ttl, created ms, id
+const REDIS_CAS_SCRIPT = `
+local version = tonumber(redis.call('GET', KEYS[2]) or '0')
+if version ~= tonumber(ARGV[1]) then return 0 end
+redis.call('SET', KEYS[1], ARGV[2], 'EX', ARGV[3])
+redis.call('SET', KEYS[2], version + 1, 'EX', ARGV[3])
+if version == 0 then redis.call('ZADD', KEYS[3], ARGV[4], ARGV[5]) end
+return 1`;
+
+async function redisCommand(...command) {
+  const response = await fetch(process.env.KV_REST_API_URL, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${process.env.KV_REST_API_TOKEN}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(command)
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || data.error) {
+    throw new Error(`Job store request failed: ${data.error || `HTTP ${response.status}`}`);
+  }
+  return data.result;
+}
+
+const redisBackend = {
+  async read(id) {
+    assertJobId(id);
+    const [job, version] = await redisCommand('MGET', `${REDIS_PREFIX}${id}`, `${REDIS_PREFIX}${id}:v`);
+    return { job: job ? JSON.parse(job) : null, version: Number(version) || 0 };
+  },
+
+  async write(job, version) {
+    assertJobId(job.id);
+    const key = `${REDIS_PREFIX}${job.id}`;
+    const written = await redisCommand(
+      'EVAL', REDIS_CAS_SCRIPT, 3, key, `${key}:v`, REDIS_INDEX,
+      version, JSON.stringify(job), REDIS_TTL_SECONDS, Date.parse(job.createdAt) || Date.now(), job.id
+    );
+    return written === 1;
+  },
+
+  async list() {
+    const ids = await redisCommand('ZREVRANGE', REDIS_INDEX, 0, REDIS_LIST_LIMIT - 1);
+    if (!ids || ids.length === 0) return [];
+    const jobs = await redisCommand('MGET', ...ids.map(id => `${REDIS_PREFIX}${id}`));
+    return jobs.map(job => (job ? JSON.parse(job) : null));
+  }
+};
+
+const backend = process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN ? redisBackend : fileBackend;
+
+export const jobStoreName = backend === redisBackend ? 'redis' : 'file';
+
+// Vercel gives every function instance its own temp dir, so file jobs would be lost
+// between requests there - the job endpoints refuse to run without Redis on Vercel
+export const jobStoreMisconfigured = backend === fileBackend && !!process.env.VERCEL;
+
+// --- Public API ---
+
+// Serialise read-modify-write per job inside this process; across instances the
+// Redis compare-and-set makes a losing writer read again and retry
+const locks = new Map();
+
+export async function readJob(id) {
+  return (await backend.read(id)).job;
+}
+
+export async function saveJob(job) {
+  return updateJob(job.id, () => job);
+}
+
+// Apply `mutate` to the latest stored version of the job. `mutate` may run more than
+// once when another instance wrote the job meanwhile; returning null leaves it unchanged.
+export function updateJob(id, mutate) {
+  const previous = locks.get(id) || Promise.resolve();
+  const next = previous
+    .catch(() => {})
+    .then(async () => {
+      for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+        const { job: current, version } = await backend.read(id);
+        const updated = mutate(current && JSON.parse(JSON.stringify(current)));
+        if (!updated) return current;
+        updated.updatedAt = new Date().toISOString();
+        if (await backend.write(updated, version)) return updated;
+      }
+      throw new Error(`Job ${id} is being updated too often, giving up`);
+    });
+
+  locks.set(id, next);
+  next.finally(() => {
+    if (locks.get(id) === next) locks.delete(id);
+  }).catch(() => {});
+
+  return next;
+}
+
+export async function listJobs() {
+  const jobs = await backend.list();
+  return jobs
+    .filter(Boolean)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
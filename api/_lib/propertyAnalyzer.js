@@ -0,0 +1,175 @@
+// Claude property analysis shared by /api/analyze-property and the batch job runner
+
+import { validatePropertyAnalysis, PROPERTY_ANALYSIS_SCHEMA_VERSION } from '../../src/shared/propertyAnalysisSchema.js';
+
+const ANALYSIS_PROMPT = `Jsi expert na analýzu nemovitostí pro realitní investory. Analyzuj obrázek nemovitosti a posuď její potenciál pro akvizici. Zaměř se na známky zanedbání. Vrať odpověď POUZE ve formátu JSON, bez jakéhokoliv dalšího textu, s následující strukturou a hodnocením v ČEŠTINĚ.
+
+Checklist pro posouzení (hodnoť na stupnici 0-10, kde 10 je nejhorší stav):
+- stav_fasady (praskliny, opadávající omítka, špína, plíseň)
+- stav_oken_dveri (rozbitá okna, poškozené rámy, staré dveře)
+- stav_strechy (chybějící tašky, poškození, provizorní opravy)
+- okoli_nemovitosti (zanedbaný pozemek, nepořádek, poškozený plot)
+- celkovy_dojem (celková zanedbanost v porovnání s okolím)
+
+Výstupní JSON struktura:
+{
+  "checklist": {
+    "stav_fasady": number,
+    "stav_oken_dveri": number,
+    "stav_strechy": number,
+    "okoli_nemovitosti": number,
+    "celkovy_dojem": number
+  },
+  "souhrn": {
+    "pozitiva": string[],
+    "negativa": string[],
+    "doporuceni": string,
+    "potencial_prodeje_skore": number // 0-100
+  },
+  "stari_a_styl": string
+}`;
+
+// Appended when several views of the same place are sent together
+function buildMultiViewPrompt(images) {
+  const views = images
+    .map((image, index) => `- Pohled ${index + 1}: směr ${Math.round(image.yaw || 0)}°`)
+    .join('\n');
+
+  return `Dostáváš ${images.length} pohledů z jednoho místa, každý v jiném směru:
+${views}
+
+Posuzuj nemovitost, která je v pohledech zachycena nejlépe, a hodnocení z pohledů zkombinuj. Do výstupního JSON přidej objekt "checklist_pohled", kde pro každou položku checklistu uvedeš číslo pohledu (1-${images.length}), který dané hodnocení nejvíce podporuje, nebo null, pokud daná část nemovitosti není vidět:
+"checklist_pohled": {
+  "stav_fasady": number | null,
+  "stav_oken_dveri": number | null,
+  "stav_strechy": number | null,
+  "okoli_nemovitosti": number | null,
+  "celkovy_dojem": number | null
+}`;
+}
+
+// How many times we ask the model to fix a reply that fails schema validation
+const MAX_REPAIR_ATTEMPTS = 1;
+
+// Pull the JSON object out of the model's reply and validate it against the shared schema
+function parseAnalysisReply(textContent, viewCount) {
+  const jsonMatch = textContent.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    return { ok: false, issues: [{ path: '$', code: 'missing', message: 'odpověď neobsahuje JSON objekt' }] };
+  }
+
+  let parsed;
+  try {
+    parsed = JSON.parse(jsonMatch[0]);
+  } catch (e) {
+    return { ok: false, issues: [{ path: '$', code: 'type', message: `neplatný JSON: ${e.message}` }] };
+  }
+
+  return validatePropertyAnalysis(parsed, { viewCount });
+}
+
+function buildRepairPrompt(issues, viewCount) {
+  return `Tvoje odpověď neodpovídá požadovanému JSON schématu (verze ${PROPERTY_ANALYSIS_SCHEMA_VERSION}). Nalezené problémy:
+${issues.map(issue => `- ${issue.path}: ${issue.message}`).join('\n')}
+
+Vrať opravenou odpověď POUZE jako JSON se stejnou strukturou, bez dalšího textu. Hodnoty checklistu musí být čísla 0-10, potencial_prodeje_skore číslo 0-100${viewCount > 1 ? `, checklist_pohled čísla pohledů 1-${viewCount} nebo null` : ''}.`;
+}
+
+async function callClaude(apiKey, messages) {
+  return fetch('https://api.anthropic.com/v1/messages', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': apiKey,
+      'anthropic-version': '2023-06-01'
+    },
+    body: JSON.stringify({
+      model: 'claude-3-5-sonnet-20241022',
+      max_tokens: 1024,
+      messages
+    })
+  });
+}
+
+// Split a data URL into what the Anthropic image block needs
+export function parseImageDataUrl(dataUrl) {
+  const match = /^data:([^;,]+)?(?:;[^,]*)?,(.*)$/s.exec(dataUrl || '');
+  if (!match) return null;
+  return { mediaType: match[1] || 'image/jpeg', data: match[2] };
+}
+
+// Run the analysis for one or more base64 images of the same place ({ data, mediaType, yaw }),
+// including the schema repair retry. Several images are analysed together and the reply
+// records in checklist_pohled which view supported each score.
+// Resolves { ok: true, analysis } or { ok: false, status, error, ... } - never throws on API errors.
+export async function analyzePropertyImages(apiKey, images) {
+  const viewCount = images.length;
+  const content = [];
+
+  images.forEach((image, index) => {
+    if (viewCount > 1) {
+      content.push({ type: 'text', text: `Pohled ${index + 1}:` });
+    }
+    content.push({
+      type: 'image',
+      source: {
+        type: 'base64',
+        media_type: image.mediaType || 'image/jpeg',
+        data: image.data,
+      }
+    });
+  });
+
+  content.push({
+    type: 'text',
+    text: viewCount > 1 ? `${ANALYSIS_PROMPT}\n\n${buildMultiViewPrompt(images)}` : ANALYSIS_PROMPT
+  });
+
+  const messages = [{ role: 'user', content }];
+
+  let issues = [];
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    // Call Anthropic Claude API
+    const response = await callClaude(apiKey, messages);
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error('Anthropic API error:', error);
+      return {
+        ok: false,
+        status: response.status,
+        error: 'AI analysis failed',
+        details: error
+      };
+    }
+
+    const data = await response.json();
+
+    // Extract JSON from Claude's response
+    const textContent = data.content.find(c => c.type === 'text')?.text || '';
+    const result = parseAnalysisReply(textContent, viewCount);
+
+    if (result.ok) {
+      return { ok: true, analysis: result.value };
+    }
+
+    issues = result.issues;
+    console.warn(`[WARN] Analysis failed schema validation (attempt ${attempt + 1}):`, issues);
+
+    // Ask the model to repair its own reply
+    messages.push(
+      { role: 'assistant', content: textContent || '{}' },
+      { role: 'user', content: buildRepairPrompt(issues, viewCount) }
+    );
+  }
+
+  return {
+    ok: false,
+    status: 422,
+    error: 'AI analysis failed schema validation',
+    code: 'SCHEMA_VALIDATION_FAILED',
+    schemaVersion: PROPERTY_ANALYSIS_SCHEMA_VERSION,
+    issues
+  };
+}
@@ -0,0 +1,45 @@
+// Vercel Cron Function that keeps batch analysis jobs going without a client.
+// Scheduled every minute in vercel.json; each run steps the open jobs for one step budget,
+// so a job finishes even when nobody polls /api/analysis-jobs any more.
+
+import { jobStoreMisconfigured } from './_lib/jobStore.js';
+import { stepOpenJobs } from './_lib/jobRunner.js';
+
+export default async function handler(req, res) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Vercel sends the CRON_SECRET as a bearer token - anyone else is turned away
+  if (process.env.CRON_SECRET && req.headers.authorization !== `Bearer ${process.env.CRON_SECRET}`) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const keys = {
+    mapy: process.env.MAPY_API_KEY,
+    anthropic: process.env.ANTHROPIC_API_KEY
+  };
+  if (!keys.mapy || !keys.anthropic) {
+    console.error('[ERROR] MAPY_API_KEY or ANTHROPIC_API_KEY not configured');
+    return res.status(500).json({ error: 'API key not configured' });
+  }
+
+  if (jobStoreMisconfigured) {
+    console.error('[ERROR] KV_REST_API_URL / KV_REST_API_TOKEN not configured - jobs need Redis on Vercel');
+    return res.status(500).json({ error: 'Job store not configured' });
+  }
+
+  try {
+    const stepped = await stepOpenJobs(keys);
+    if (stepped.length > 0) {
+      console.log(`[DEBUG] Cron stepped ${stepped.length} job(s): ${stepped.join(', ')}`);
+    }
+    return res.status(200).json({ stepped });
+  } catch (error) {
+    console.error('Analysis job cron error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error.message
+    });
+  }
+}
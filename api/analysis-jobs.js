@@ -0,0 +1,166 @@
+// Vercel Serverless Function for server-side batch analysis jobs
+// POST submits a job, GET ?id= polls it, DELETE ?id= cancels it, GET without id lists jobs.
+// Every poll runs one processing step of the job before answering; without polls the cron
+// in ./analysis-jobs-cron.js keeps open jobs going. Jobs are persisted by ./_lib/jobStore.js,
+// so finished results are still there after the browser was closed.
+
+import { createJobId, isValidJobId, saveJob, updateJob, listJobs, jobStoreMisconfigured } from './_lib/jobStore.js';
+import { stepJob, computeProgress, JOB_DEFAULTS, DEFAULT_VIEW } from './_lib/jobRunner.js';
+import { MAX_ANALYSIS_VIEWS } from '../src/shared/propertyAnalysisSchema.js';
+
+const isFiniteNumber = value => typeof value === 'number' && Number.isFinite(value);
+
+function getApiKeys() {
+  return {
+    mapy: process.env.MAPY_API_KEY,
+    anthropic: process.env.ANTHROPIC_API_KEY
+  };
+}
+
+// Listing view without per-item results
+function summarizeJob(job) {
+  const { items, ...summary } = job;
+  return summary;
+}
+
+function validateItems(items, view) {
+  if (!Array.isArray(items) || items.length === 0) {
+    return { error: 'Missing required field: items (non-empty array)' };
+  }
+  if (items.length > JOB_DEFAULTS.maxItems) {
+    return { error: `Too many items: ${items.length} (max ${JOB_DEFAULTS.maxItems})` };
+  }
+
+  const invalid = items.findIndex(item => !item || !isFiniteNumber(item.lon) || !isFiniteNumber(item.lat));
+  if (invalid !== -1) {
+    return { error: `Invalid item at index ${invalid}: lon and lat must be numbers` };
+  }
+
+  const tooManyViews = items.findIndex(item => Array.isArray(item.views) &&
+    (item.views.length === 0 || item.views.length > MAX_ANALYSIS_VIEWS));
+  if (tooManyViews !== -1) {
+    return { error: `Invalid item at index ${tooManyViews}: views must contain 1-${MAX_ANALYSIS_VIEWS} entries` };
+  }
+
+  return {
+    items: items.map((item, index) => ({
+      index,
+      ref: item.ref !== undefined ? item.ref : index,
+      lon: item.lon,
+      lat: item.lat,
+      // Several views are analysed together; `view` is the single-image shorthand
+      views: (Array.isArray(item.views) ? item.views : [item.view])
+        .map(itemView => ({ ...DEFAULT_VIEW, ...view, ...itemView })),
+      status: 'pending',
+      attempts: 0
+    }))
+  };
+}
+
+async function handleSubmit(req, res, keys) {
+  const { items, view = {}, concurrency = JOB_DEFAULTS.concurrency } = req.body || {};
+  const validated = validateItems(items, view);
+
+  if (validated.error) {
+    return res.status(400).json({ error: validated.error });
+  }
+
+  const now = new Date().toISOString();
+  const job = {
+    id: createJobId(),
+    status: 'queued',
+    createdAt: now,
+    updatedAt: now,
+    options: {
+      concurrency: Math.max(1, Math.min(Number(concurrency) || JOB_DEFAULTS.concurrency, JOB_DEFAULTS.maxConcurrency))
+    },
+    items: validated.items,
+    progress: computeProgress(validated.items)
+  };
+
+  await saveJob(job);
+  console.log(`[DEBUG] Job ${job.id} submitted with ${job.items.length} items`);
+
+  // Processing starts with the first poll or cron run
+  return res.status(202).json(summarizeJob(job));
+}
+
+async function handleGet(req, res, keys) {
+  const { id } = req.query;
+
+  if (!id) {
+    const jobs = await listJobs();
+    return res.status(200).json({ jobs: jobs.map(summarizeJob) });
+  }
+
+  const job = await stepJob(id, keys);
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+
+  return res.status(200).json(job);
+}
+
+async function handleCancel(req, res) {
+  const { id } = req.query;
+
+  if (!id) {
+    return res.status(400).json({ error: 'Missing required query parameter: id' });
+  }
+
+  const job = await updateJob(id, current => {
+    if (!current || current.status === 'completed' || current.status === 'cancelled') return null;
+    current.status = 'cancelled';
+    current.cancelledAt = new Date().toISOString();
+    return current;
+  });
+
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+
+  console.log(`[DEBUG] Job ${id} ${job.status === 'cancelled' ? 'cancelled' : `already ${job.status}`}`);
+  return res.status(200).json(summarizeJob(job));
+}
+
+export default async function handler(req, res) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (!['GET', 'POST', 'DELETE'].includes(req.method)) {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (req.query.id !== undefined && !isValidJobId(req.query.id)) {
+    return res.status(400).json({ error: 'Invalid job id' });
+  }
+
+  const keys = getApiKeys();
+  if (!keys.mapy || !keys.anthropic) {
+    console.error('[ERROR] MAPY_API_KEY or ANTHROPIC_API_KEY not configured');
+    return res.status(500).json({ error: 'API key not configured' });
+  }
+
+  if (jobStoreMisconfigured) {
+    console.error('[ERROR] KV_REST_API_URL / KV_REST_API_TOKEN not configured - jobs need Redis on Vercel');
+    return res.status(500).json({ error: 'Job store not configured' });
+  }
+
+  try {
+    if (req.method === 'POST') return await handleSubmit(req, res, keys);
+    if (req.method === 'DELETE') return await handleCancel(req, res);
+    return await handleGet(req, res, keys);
+  } catch (error) {
+    console.error('Analysis job error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error.message
+    });
+  }
+}
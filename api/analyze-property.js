@@ -1,6 +1,23 @@
 // Vercel Serverless Function for Claude AI Analysis
 // This keeps your Anthropic API key secure on the server side
 
+import { analyzePropertyImages, parseImageDataUrl } from './_lib/propertyAnalyzer.js';
+import { MAX_ANALYSIS_VIEWS } from '../src/shared/propertyAnalysisSchema.js';
+
+// Accept either a single `imageUrl` or `images: [{ imageUrl, yaw, pitch, fov }]`
+function readImages(body) {
+  const entries = Array.isArray(body.images) ? body.images : body.imageUrl ? [{ imageUrl: body.imageUrl }] : [];
+  return entries.map(entry => {
+    const parsed = parseImageDataUrl(entry && entry.imageUrl);
+    return parsed && {
+      ...parsed,
+      yaw: Number(entry.yaw) || 0,
+      pitch: Number(entry.pitch) || 0,
+      fov: Number(entry.fov) || 90
+    };
+  });
+}
+
 export default async function handler(req, res) {
   // Only allow POST requests
   if (req.method !== 'POST') {
@@ -17,10 +34,17 @@ export default async function handler(req, res) {
   }
 
   const { imageUrl, coordinates } = req.body;
+  const images = readImages(req.body);
+
+  if (images.length === 0 || !coordinates) {
+    return res.status(400).json({
+      error: 'Missing required fields: imageUrl (or images) and coordinates'
+    });
+  }
 
-  if (!imageUrl || !coordinates) {
+  if (images.length > MAX_ANALYSIS_VIEWS || images.some(image => !image)) {
     return res.status(400).json({
-      error: 'Missing required fields: imageUrl and coordinates'
+      error: `images must contain 1-${MAX_ANALYSIS_VIEWS} data URLs`
     });
   }
 
@@ -43,98 +67,21 @@ export default async function handler(req, res) {
   }
 
   try {
-    // Call Anthropic Claude API
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': ANTHROPIC_API_KEY,
-        'anthropic-version': '2023-06-01'
-      },
-      body: JSON.stringify({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 1024,
-        messages: [{
-          role: 'user',
-          content: [
-            {
-              type: 'image',
-              source: {
-                type: 'base64',
-                media_type: 'image/jpeg',
-                data: imageUrl.split(',')[1],
-              }
-            },
-            {
-              type: 'text',
-              text: `Jsi expert na analýzu nemovitostí pro realitní investory. Analyzuj obrázek nemovitosti a posuď její potenciál pro akvizici. Zaměř se na známky zanedbání. Vrať odpověď POUZE ve formátu JSON, bez jakéhokoliv dalšího textu, s následující strukturou a hodnocením v ČEŠTINĚ.
-
-Checklist pro posouzení (hodnoť na stupnici 0-10, kde 10 je nejhorší stav):
-- stav_fasady (praskliny, opadávající omítka, špína, plíseň)
-- stav_oken_dveri (rozbitá okna, poškozené rámy, staré dveře)
-- stav_strechy (chybějící tašky, poškození, provizorní opravy)
-- okoli_nemovitosti (zanedbaný pozemek, nepořádek, poškozený plot)
-- celkovy_dojem (celková zanedbanost v porovnání s okolím)
-
-Výstupní JSON struktura:
-{
-  "checklist": {
-    "stav_fasady": number,
-    "stav_oken_dveri": number,
-    "stav_strechy": number,
-    "okoli_nemovitosti": number,
-    "celkovy_dojem": number
-  },
-  "souhrn": {
-    "pozitiva": string[],
-    "negativa": string[],
-    "doporuceni": string,
-    "potencial_prodeje_skore": number // 0-100
-  },
-  "stari_a_styl": string
-}`
-            }
-          ]
-        }]
-      })
-    });
+    const result = await analyzePropertyImages(ANTHROPIC_API_KEY, images);
 
-    if (!response.ok) {
-      const error = await response.text();
-      console.error('Anthropic API error:', error);
-      return res.status(response.status).json({
-        error: 'AI analysis failed',
-        details: error
-      });
+    if (!result.ok) {
+      const { ok, status, ...errorBody } = result;
+      return res.status(status).json(errorBody);
     }
 
-    const data = await response.json();
-
-    // Extract JSON from Claude's response
-    const textContent = data.content.find(c => c.type === 'text')?.text || '{}';
-
-    // Try to parse JSON from the response
-    let analysis;
-    try {
-      const jsonMatch = textContent.match(/\{[\s\S]*\}/);
-      analysis = jsonMatch ? JSON.parse(jsonMatch[0]) : {};
-    } catch (e) {
-      console.error('Failed to parse Claude response:', e);
-      analysis = {
-        condition: 'unknown',
-        confidence: 0.5,
-        issues: ['Analysis parsing failed'],
-        recommendation: textContent,
-        acquisitionScore: 50,
-        estimatedRenovationCost: 0
-      };
-    }
+    const { analysis } = result;
 
     // Return the analysis with coordinates
     return res.status(200).json({
       coordinates,
       ...analysis,
       imageUrl,
+      ...(images.length > 1 && { views: images.map(({ yaw, pitch, fov }) => ({ yaw, pitch, fov })) }),
       timestamp: new Date().toISOString()
     });
 
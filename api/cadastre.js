@@ -0,0 +1,51 @@
+// Vercel Serverless Function for cadastral parcel lookup
+// Maps coordinates to parcel number, cadastral area, building number and land use
+
+import { getCadastreAdapter } from './_lib/cadastre.js';
+
+const MAX_POINTS_PER_REQUEST = 20;
+
+export default async function handler(req, res) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  const { points } = req.body || {};
+
+  if (!Array.isArray(points) || points.length === 0) {
+    return res.status(400).json({
+      error: 'Missing required field: points'
+    });
+  }
+
+  if (points.length > MAX_POINTS_PER_REQUEST) {
+    return res.status(400).json({
+      error: `Too many points (max ${MAX_POINTS_PER_REQUEST})`
+    });
+  }
+
+  if (points.some(point => !Number.isFinite(point?.lon) || !Number.isFinite(point?.lat))) {
+    return res.status(400).json({
+      error: 'Every point needs numeric lon and lat'
+    });
+  }
+
+  try {
+    const adapter = getCadastreAdapter();
+    const parcels = await Promise.all(points.map(({ lon, lat }) => adapter.lookup(lon, lat)));
+    return res.status(200).json({ adapter: adapter.name, parcels });
+
+  } catch (error) {
+    console.error('Cadastre lookup error:', error);
+    return res.status(error.status === 429 ? 429 : 500).json({
+      error: 'Cadastre lookup failed',
+      message: error.message
+    });
+  }
+}
@@ -0,0 +1,140 @@
+// Vercel Serverless Function for Mapy.cz reverse geocoding
+// Turns coordinates into street addresses without exposing the Mapy.cz API key
+
+const MAX_POINTS_PER_REQUEST = 50;
+const UPSTREAM_CONCURRENCY = 5;
+const CACHE_MAX_ENTRIES = 20000;
+
+// Per-coordinate cache, kept for as long as the function instance stays warm.
+// Keys are rounded to ~1 m, the same rounding the client uses. Values are promises,
+// so concurrent requests for one coordinate share a single upstream call.
+const cache = new Map();
+
+const coordinateKey = (lon, lat) => `${Number(lat).toFixed(5)}_${Number(lon).toFixed(5)}`;
+
+function cachedLookup(lon, lat, apiKey) {
+  const key = coordinateKey(lon, lat);
+  if (!cache.has(key)) {
+    if (cache.size >= CACHE_MAX_ENTRIES) {
+      // Map keeps insertion order - drop the oldest entry
+      cache.delete(cache.keys().next().value);
+    }
+    // Failed lookups are forgotten so the next request tries again
+    cache.set(key, lookup(lon, lat, apiKey).catch(error => {
+      cache.delete(key);
+      throw error;
+    }));
+  }
+  return cache.get(key);
+}
+
+// Mapy.cz rgeocode item -> { label, street, houseNumber, municipality, district, zip, location }
+function normalizeItem(item) {
+  const structure = Array.isArray(item.regionalStructure) ? item.regionalStructure : [];
+  const partOf = (type) => structure.find(part => part.type === type)?.name || null;
+
+  const street = partOf('regional.street');
+  const addressName = item.type === 'regional.address' ? item.name : partOf('regional.address');
+  // Address names look like "Vodičkova 681/14" or "č.p. 12" - the number is the last token
+  const houseNumber = addressName ? addressName.split(' ').pop() : null;
+  const municipality = partOf('regional.municipality');
+  const municipalityPart = partOf('regional.municipality_part');
+
+  return {
+    label: item.name || addressName || municipality || '',
+    street,
+    houseNumber,
+    municipality,
+    district: municipalityPart && municipalityPart !== municipality ? municipalityPart : null,
+    zip: item.zip || null,
+    location: item.position ? [item.position.lon, item.position.lat] : null
+  };
+}
+
+async function lookup(lon, lat, apiKey) {
+  const url = `https://api.mapy.cz/v1/rgeocode?lon=${lon}&lat=${lat}&lang=cs`;
+  const response = await fetch(url, {
+    headers: {
+      'X-Api-Key': apiKey
+    }
+  });
+
+  if (!response.ok) {
+    const error = new Error(`Mapy.cz rgeocode failed (HTTP ${response.status})`);
+    error.status = response.status;
+    throw error;
+  }
+
+  const data = await response.json();
+  const items = Array.isArray(data.items) ? data.items : [];
+  // Prefer a real address point over a street or municipality match
+  const item = items.find(candidate => candidate.type === 'regional.address') || items[0];
+  return item ? normalizeItem(item) : null;
+}
+
+export default async function handler(req, res) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  const { points } = req.body || {};
+
+  if (!Array.isArray(points) || points.length === 0) {
+    return res.status(400).json({
+      error: 'Missing required field: points'
+    });
+  }
+
+  if (points.length > MAX_POINTS_PER_REQUEST) {
+    return res.status(400).json({
+      error: `Too many points (max ${MAX_POINTS_PER_REQUEST})`
+    });
+  }
+
+  if (points.some(point => !Number.isFinite(point?.lon) || !Number.isFinite(point?.lat))) {
+    return res.status(400).json({
+      error: 'Every point needs numeric lon and lat'
+    });
+  }
+
+  const MAPY_API_KEY = process.env.MAPY_API_KEY;
+
+  if (!MAPY_API_KEY) {
+    console.error('MAPY_API_KEY not configured');
+    return res.status(500).json({
+      error: 'API key not configured'
+    });
+  }
+
+  try {
+    const addresses = new Array(points.length);
+    let next = 0;
+
+    // A few upstream requests at a time; cached coordinates are answered directly
+    const worker = async () => {
+      while (next < points.length) {
+        const index = next++;
+        const { lon, lat } = points[index];
+        addresses[index] = await cachedLookup(lon, lat, MAPY_API_KEY);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(UPSTREAM_CONCURRENCY, points.length) }, worker));
+
+    return res.status(200).json({ addresses });
+
+  } catch (error) {
+    console.error('Reverse geocode error:', error);
+    // Pass Mapy.cz rate limiting through so the client scheduler backs off
+    const status = error.status === 429 ? 429 : 500;
+    return res.status(status).json({
+      error: status === 429 ? 'Rate limited' : 'Internal server error',
+      message: error.message
+    });
+  }
+}
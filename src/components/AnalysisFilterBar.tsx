@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { AnalysisFilter, AnalysisStatus, DEFAULT_ANALYSIS_FILTER } from '../types/analysis';
+import { CHECKLIST_KEYS } from '../shared/propertyAnalysisSchema';
+import { CHECKLIST_LABELS } from '../utils/tabularExport';
+import { countActiveFilters } from '../utils/analysisFilter';
+import { DealStage, DealStageId, NO_DEAL_STAGE } from '../types/dealPipeline';
+
+interface AnalysisFilterBarProps {
+  filter: AnalysisFilter;
+  onChange: (filter: AnalysisFilter) => void;
+  matchCount: number;
+  totalCount: number;
+  dealStages: DealStage[];
+}
+
+const STATUS_LABELS: Record<AnalysisStatus, string> = {
+  pending: 'Čeká',
+  analyzing: 'Analyzuje se',
+  completed: 'Hotovo',
+  failed: 'Chyba'
+};
+
+const AnalysisFilterBar: React.FC<AnalysisFilterBarProps> = ({ filter, onChange, matchCount, totalCount, dealStages }) => {
+  const [expanded, setExpanded] = useState(false);
+  const activeCount = countActiveFilters(filter);
+
+  const update = (changes: Partial<AnalysisFilter>) => onChange({ ...filter, ...changes });
+
+  const toggleStatus = (status: AnalysisStatus) => update({
+    statuses: filter.statuses.includes(status)
+      ? filter.statuses.filter(s => s !== status)
+      : [...filter.statuses, status]
+  });
+
+  const toggleDealStage = (stage: DealStageId) => update({
+    dealStages: filter.dealStages.includes(stage)
+      ? filter.dealStages.filter(s => s !== stage)
+      : [...filter.dealStages, stage]
+  });
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 p-3 mb-4 text-sm">
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={filter.text}
+          onChange={(e) => update({ text: e.target.value })}
+          placeholder="Hledat v doporučení…"
+          className="flex-1 min-w-0 bg-gray-800 border border-gray-700 px-2 py-1 text-white text-sm focus:border-electric-blue outline-none"
+        />
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className={`px-2 py-1 text-xs transition-colors ${activeCount > 0 ? 'bg-electric-blue text-white' : 'bg-gray-800 text-gray-200 hover:bg-gray-700'}`}
+        >
+          Filtry{activeCount > 0 ? ` (${activeCount})` : ''}
+        </button>
+      </div>
+      <div className="flex items-center justify-between text-xs text-gray-500 mt-2">
+        <span>Zobrazeno {matchCount} z {totalCount}</span>
+        {activeCount > 0 && (
+          <button
+            onClick={() => onChange({ ...DEFAULT_ANALYSIS_FILTER, mapMode: filter.mapMode })}
+            className="text-gray-400 hover:text-white"
+          >
+            Zrušit filtry
+          </button>
+        )}
+      </div>
+
+      {expanded && (
+        <div className="mt-3 space-y-3 text-xs">
+          <div>
+            <div className="flex justify-between text-gray-400 mb-1">
+              <span>Min. skóre potenciálu</span>
+              <span className="font-mono text-white">{filter.minScore > 0 ? filter.minScore : 'vypnuto'}</span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              step={5}
+              value={filter.minScore}
+              onChange={(e) => update({ minScore: Number(e.target.value) })}
+              className="w-full accent-electric-blue"
+            />
+          </div>
+
+          <div>
+            <div className="text-gray-400 mb-1">Min. zanedbání (0-10)</div>
+            {CHECKLIST_KEYS.map(key => (
+              <div key={key} className="flex items-center gap-2">
+                <span className="w-32 text-gray-300 truncate">{CHECKLIST_LABELS[key]}</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={10}
+                  value={filter.checklistMin[key] || 0}
+                  onChange={(e) => update({ checklistMin: { ...filter.checklistMin, [key]: Number(e.target.value) } })}
+                  className="flex-1 accent-electric-blue"
+                />
+                <span className="w-6 text-right font-mono text-white">{filter.checklistMin[key] || '–'}</span>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <div className="text-gray-400 mb-1">Stav analýzy</div>
+            <div className="flex flex-wrap gap-x-3 gap-y-1">
+              {DEFAULT_ANALYSIS_FILTER.statuses.map(status => (
+                <label key={status} className="flex items-center gap-1 text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={filter.statuses.includes(status)}
+                    onChange={() => toggleStatus(status)}
+                    className="accent-electric-blue"
+                  />
+                  {STATUS_LABELS[status]}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="text-gray-400 mb-1">Fáze obchodu (nic = vše)</div>
+            <div className="flex flex-wrap gap-x-3 gap-y-1">
+              {[...dealStages, { id: NO_DEAL_STAGE, label: 'Mimo pipeline' }].map(stage => (
+                <label key={stage.id} className="flex items-center gap-1 text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={filter.dealStages.includes(stage.id)}
+                    onChange={() => toggleDealStage(stage.id)}
+                    className="accent-electric-blue"
+                  />
+                  {stage.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="text-gray-400 mb-1">Datum pořízení panoramatu</div>
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                value={filter.dateFrom}
+                onChange={(e) => update({ dateFrom: e.target.value })}
+                className="flex-1 min-w-0 bg-gray-800 border border-gray-700 px-2 py-1 text-white focus:border-electric-blue outline-none"
+              />
+              <span className="text-gray-500">–</span>
+              <input
+                type="date"
+                value={filter.dateTo}
+                onChange={(e) => update({ dateTo: e.target.value })}
+                className="flex-1 min-w-0 bg-gray-800 border border-gray-700 px-2 py-1 text-white focus:border-electric-blue outline-none"
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="text-gray-400 mb-1">Nevyhovující body na mapě</div>
+            <select
+              value={filter.mapMode}
+              onChange={(e) => update({ mapMode: e.target.value as AnalysisFilter['mapMode'] })}
+              className="w-full bg-gray-800 border border-gray-700 px-2 py-1 text-white focus:border-electric-blue outline-none appearance-none"
+            >
+              <option value="dim">Ztlumit</option>
+              <option value="hide">Skrýt</option>
+            </select>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisFilterBar;
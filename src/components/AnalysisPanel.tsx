@@ -1,26 +1,116 @@
 import React, { useState } from 'react';
-
-interface AnalysisResult {
-  id: number;
-  name: string;
-  coordinates: [number, number];
-  condition: string;
-  confidence: number;
-  issues: string[];
-  recommendation: string;
-  estimatedValue: number;
-  aiAnalysis?: any; // To store AI analysis results or errors
-  analysisStatus: 'pending' | 'analyzing' | 'completed' | 'failed';
-}
+import { AnalysisExportFormat, AnalysisFilter, AnalysisResult, isAiAnalysisError, resultDisplayName } from '../types/analysis';
+import { ChecklistKey, PropertyAnalysisResponse } from '../shared/propertyAnalysisSchema';
+import { formatViewLabel } from '../utils/analysisViews';
+import { BuildingResult } from '../types/building';
+import BuildingResultsList from './BuildingResultsList';
+import TabularExportDialog from './TabularExportDialog';
+import { TabularExportOptions } from '../utils/tabularExport';
+import { summarizeResults } from '../utils/analysisSummary';
+import { filterResults } from '../utils/analysisFilter';
+import AnalysisFilterBar from './AnalysisFilterBar';
+import { DealRecord, DealStage } from '../types/dealPipeline';
+import { createDeal } from '../utils/dealPipeline';
 
 interface AnalysisPanelProps {
   results: AnalysisResult[];
-  onExport: (format: 'csv' | 'json') => void;
+  buildingResults?: BuildingResult[];
+  filter: AnalysisFilter; // Also applied to the map and to exports/report
+  onFilterChange: (filter: AnalysisFilter) => void;
+  onExport: (format: AnalysisExportFormat, tabularOptions?: TabularExportOptions) => void;
+  onGenerateReport: () => Promise<void>;
+  onLookupCadastre: (resultId: number) => Promise<void>;
+  dealStages: DealStage[];
+  onDealChange: (resultId: number, deal: DealRecord | undefined) => void;
+  onOpenPipeline: () => void;
 }
 
-const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ results, onExport }) => {
+// Checklist grid; multi-view analyses also show which view supported each score
+const ChecklistScores: React.FC<{ analysis: PropertyAnalysisResponse }> = ({ analysis }) => (
+  <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+    {Object.entries(analysis.checklist).map(([key, value]) => (
+      <div key={key} className="flex justify-between">
+        <span className="text-gray-400">{key.replace(/_/g, ' ')}:</span>
+        <span className="font-mono text-white">
+          {value}
+          {analysis.checklist_pohled && (
+            <span className="text-gray-500 ml-1" title="Pohled, který hodnocení podporuje">
+              · {formatViewLabel(analysis.checklist_pohled[key as ChecklistKey], analysis.views)}
+            </span>
+          )}
+        </span>
+      </div>
+    ))}
+  </div>
+);
+
+// Parcel details with a link to the cadastre viewer, or a button to look them up
+const CadastreDetails: React.FC<{ result: AnalysisResult; onLookup: () => Promise<void> }> = ({ result, onLookup }) => {
+  const [isLoading, setIsLoading] = useState(false);
+  const parcel = result.cadastre;
+
+  const handleLookup = async () => {
+    setIsLoading(true);
+    try {
+      await onLookup();
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (parcel === undefined) {
+    return (
+      <button
+        onClick={handleLookup}
+        disabled={isLoading}
+        className="text-xs px-2 py-1 bg-gray-800 hover:bg-gray-700 text-gray-300 disabled:opacity-50"
+        title="Parcela, katastrální území, číslo budovy a druh pozemku"
+      >
+        {isLoading ? 'Načítám katastr…' : '🗺️ Načíst z katastru'}
+      </button>
+    );
+  }
+
+  if (parcel === null) {
+    return <p className="text-xs text-gray-500">Katastr: parcela nenalezena</p>;
+  }
+
+  return (
+    <div className="text-xs">
+      <h5 className="font-semibold text-gray-300 mb-1">Katastr nemovitostí</h5>
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+        <span className="text-gray-400">Parcela:</span>
+        <span className="font-mono text-white">{parcel.parcelNumber}</span>
+        <span className="text-gray-400">Katastrální území:</span>
+        <span className="text-white">
+          {parcel.cadastralArea || '–'}
+          {parcel.cadastralAreaCode && <span className="text-gray-500 ml-1">({parcel.cadastralAreaCode})</span>}
+        </span>
+        <span className="text-gray-400">Číslo budovy:</span>
+        <span className="font-mono text-white">{parcel.buildingNumber || '–'}</span>
+        <span className="text-gray-400">Druh pozemku:</span>
+        <span className="text-white">{parcel.landUse || '–'}</span>
+      </div>
+      {parcel.viewerUrl && (
+        <a
+          href={parcel.viewerUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-block mt-1 text-electric-blue hover:underline"
+        >
+          Otevřít v Nahlížení do KN (LV) ↗
+        </a>
+      )}
+    </div>
+  );
+};
+
+const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ results, buildingResults = [], filter, onFilterChange, onExport, onGenerateReport, onLookupCadastre, dealStages, onDealChange, onOpenPipeline }) => {
   const [expandedResults, setExpandedResults] = useState<Set<number>>(new Set());
-  const [sortBy, setSortBy] = useState<'confidence' | 'value' | 'name'>('confidence');
+  const [groupBy, setGroupBy] = useState<'panorama' | 'building'>('building');
+  const [showTabularExport, setShowTabularExport] = useState(false);
+  const [isGeneratingReport, setIsGeneratingReport] = useState(false);
+  const [sortBy, setSortBy] = useState<'confidence' | 'value' | 'name' | 'route'>('confidence');
 
   const toggleExpanded = (id: number) => {
     const newExpanded = new Set(expandedResults);
@@ -32,21 +122,33 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ results, onExport }) => {
     setExpandedResults(newExpanded);
   };
 
-  const sortedResults = [...results].sort((a, b) => {
+  const filteredResults = filterResults(results, filter);
+
+  const sortedResults = [...filteredResults].sort((a, b) => {
     switch (sortBy) {
       case 'confidence':
         return b.confidence - a.confidence;
       case 'value':
         return b.estimatedValue - a.estimatedValue;
       case 'name':
-        return a.name.localeCompare(b.name);
+        return resultDisplayName(a).localeCompare(resultDisplayName(b), 'cs');
+      case 'route':
+        return (a.corridorDistance ?? Infinity) - (b.corridorDistance ?? Infinity);
       default:
         return 0;
     }
   });
 
-  const neglectedProperties = results.filter(r => r.condition === 'neglected');
-  const avgConfidence = results.reduce((acc, r) => acc + r.confidence, 0) / results.length;
+  const summary = summarizeResults(filteredResults);
+
+  const handleGenerateReport = async () => {
+    setIsGeneratingReport(true);
+    try {
+      await onGenerateReport();
+    } finally {
+      setIsGeneratingReport(false);
+    }
+  };
 
   return (
     <div className="absolute right-0 top-0 h-full w-96 bg-dark-card border-l border-gray-800 overflow-y-auto z-30">
@@ -56,10 +158,18 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ results, onExport }) => {
           <h2 className="text-xl font-bold text-white">Výsledky analýzy</h2>
           <div className="flex gap-2">
             <button
-              onClick={() => onExport('csv')}
+              onClick={onOpenPipeline}
               className="px-3 py-1 text-sm bg-gray-800 text-gray-200 hover:bg-gray-700 transition-colors"
+              title="Kanban nemovitostí podle fáze akvizice"
             >
-              CSV
+              📋 Pipeline
+            </button>
+            <button
+              onClick={() => setShowTabularExport(true)}
+              className="px-3 py-1 text-sm bg-gray-800 text-gray-200 hover:bg-gray-700 transition-colors"
+              title="CSV nebo XLSX s vybranými sloupci"
+            >
+              CSV / XLSX
             </button>
             <button
               onClick={() => onExport('json')}
@@ -67,152 +177,247 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ results, onExport }) => {
             >
               JSON
             </button>
+            <button
+              onClick={handleGenerateReport}
+              disabled={isGeneratingReport || filteredResults.length === 0}
+              className="px-3 py-1 text-sm bg-electric-blue text-white hover:bg-electric-blue/80 disabled:opacity-50 transition-colors"
+              title="PDF report s mapou, přehledem a stránkou pro každou nemovitost"
+            >
+              {isGeneratingReport ? 'Generuji…' : 'Report PDF'}
+            </button>
           </div>
         </div>
 
+        {showTabularExport && (
+          <TabularExportDialog onExport={onExport} onClose={() => setShowTabularExport(false)} />
+        )}
+
+        {/* Geo exports for QGIS, Google Earth and GPS apps */}
+        <div className="flex items-center gap-2 mb-4 text-sm">
+          <span className="text-gray-400">Mapové formáty:</span>
+          {(['geojson', 'kml', 'gpx'] as AnalysisExportFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => onExport(format)}
+              className="px-2 py-1 text-xs bg-gray-800 text-gray-200 hover:bg-gray-700 transition-colors uppercase"
+            >
+              {format === 'geojson' ? 'GeoJSON' : format}
+            </button>
+          ))}
+        </div>
+
+        {results.length > 0 && (
+          <AnalysisFilterBar
+            filter={filter}
+            onChange={onFilterChange}
+            matchCount={filteredResults.length}
+            totalCount={results.length}
+            dealStages={dealStages}
+          />
+        )}
+
         {/* Summary Stats */}
         <div className="bg-gray-900 border border-gray-800 p-3 mb-4">
           <h3 className="text-md font-semibold text-gray-300 mb-3">Přehled</h3>
           <div className="grid grid-cols-2 gap-3 text-sm">
             <div>
               <div className="text-gray-400">Celkem nemovitostí</div>
-              <div className="text-white font-mono">{results.length}</div>
+              <div className="text-white font-mono">{summary.total}</div>
             </div>
             <div>
               <div className="text-gray-400">Vhodné k akvizici</div>
-              <div className="text-green-400 font-mono">{neglectedProperties.length}</div>
+              <div className="text-green-400 font-mono">{summary.acquisitionCandidates}</div>
             </div>
             <div>
               <div className="text-gray-400">Prům. spolehlivost</div>
-              <div className="text-white font-mono">{(avgConfidence * 100).toFixed(1)}%</div>
+              <div className="text-white font-mono">{(summary.avgConfidence * 100).toFixed(1)}%</div>
             </div>
             <div>
               <div className="text-gray-400">Celková hodnota</div>
               <div className="text-white font-mono">
-                {(results.reduce((acc, r) => acc + r.estimatedValue, 0) / 1000).toFixed(0)}k CZK
+                {(summary.totalValue / 1000).toFixed(0)}k CZK
               </div>
             </div>
           </div>
         </div>
 
-        {/* Sort Options */}
-        <div className="mb-4">
-          <label className="text-sm text-gray-400 mb-1 block">Seřadit podle:</label>
-          <select
-            value={sortBy}
-            onChange={(e) => setSortBy(e.target.value as any)}
-            className="w-full bg-gray-800 border border-gray-700 px-3 py-2 text-white text-sm focus:border-electric-blue outline-none appearance-none"
-          >
-            <option value="confidence">Spolehlivosti</option>
-            <option value="value">Odhadované hodnoty</option>
-            <option value="name">Názvu</option>
-          </select>
-        </div>
+        {/* Group by panorama or by imported building */}
+        {buildingResults.length > 0 && (
+          <div className="flex mb-4 text-sm">
+            <button
+              onClick={() => setGroupBy('panorama')}
+              className={`flex-1 px-3 py-1 transition-colors ${groupBy === 'panorama' ? 'bg-electric-blue text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+            >
+              Panoramata ({filteredResults.length})
+            </button>
+            <button
+              onClick={() => setGroupBy('building')}
+              className={`flex-1 px-3 py-1 transition-colors ${groupBy === 'building' ? 'bg-electric-blue text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+            >
+              Budovy ({buildingResults.length})
+            </button>
+          </div>
+        )}
 
-        {/* Results List */}
-        <div className="space-y-2">
-          {sortedResults.map((result) => (
-            <div key={result.id} className="bg-gray-900 border border-gray-800 overflow-hidden">
-              <div
-                className="p-3 cursor-pointer hover:bg-gray-800 transition-colors"
-                onClick={() => toggleExpanded(result.id)}
+        {groupBy === 'building' && buildingResults.length > 0 ? (
+          <BuildingResultsList buildingResults={buildingResults} results={results} />
+        ) : (
+          <>
+            {/* Sort Options */}
+            <div className="mb-4">
+              <label className="text-sm text-gray-400 mb-1 block">Seřadit podle:</label>
+              <select
+                value={sortBy}
+                onChange={(e) => setSortBy(e.target.value as any)}
+                className="w-full bg-gray-800 border border-gray-700 px-3 py-2 text-white text-sm focus:border-electric-blue outline-none appearance-none"
               >
-                <div className="flex items-start justify-between">
-                    <div className="flex-1">
-                      <div className="flex items-center space-x-3">
-                        {result.analysisStatus === 'analyzing' && (
-                          <div className="w-4 h-4 border-2 border-blue-400/20 border-t-blue-400 rounded-full animate-spin"></div>
-                        )}
-                        {result.analysisStatus === 'completed' && (
-                          <div className="w-4 h-4 text-green-400">✓</div>
-                        )}
-                         {result.analysisStatus === 'failed' && (
-                          <div className="w-4 h-4 text-red-400">✗</div>
+                <option value="confidence">Spolehlivosti</option>
+                <option value="value">Odhadované hodnoty</option>
+                <option value="name">Názvu</option>
+                {results.some(result => result.corridorDistance !== undefined) && (
+                  <option value="route">Pořadí podél ulice</option>
+                )}
+              </select>
+            </div>
+
+            {/* Results List */}
+            <div className="space-y-2">
+              {sortedResults.map((result) => (
+                <div key={result.id} className="bg-gray-900 border border-gray-800 overflow-hidden">
+                  <div
+                    className="p-3 cursor-pointer hover:bg-gray-800 transition-colors"
+                    onClick={() => toggleExpanded(result.id)}
+                  >
+                    <div className="flex items-start justify-between">
+                        <div className="flex-1">
+                          <div className="flex items-center space-x-3">
+                            {result.analysisStatus === 'analyzing' && (
+                              <div className="w-4 h-4 border-2 border-blue-400/20 border-t-blue-400 rounded-full animate-spin"></div>
+                            )}
+                            {result.analysisStatus === 'completed' && (
+                              <div className="w-4 h-4 text-green-400">✓</div>
+                            )}
+                             {result.analysisStatus === 'failed' && (
+                              <div className="w-4 h-4 text-red-400">✗</div>
+                            )}
+                            <h4 className="font-semibold text-white mb-1" title={result.name}>{resultDisplayName(result)}</h4>
+                          </div>
+                          {result.deal && (
+                            <span
+                              className="ml-7 px-1 text-xs text-white"
+                              style={{ backgroundColor: dealStages.find(stage => stage.id === result.deal!.stage)?.color || '#4B5563' }}
+                            >
+                              {dealStages.find(stage => stage.id === result.deal!.stage)?.label || result.deal.stage}
+                            </span>
+                          )}
+                          <div className="text-xs text-gray-500 mt-1 mb-2 font-mono pl-7">
+                            [{result.coordinates[1].toFixed(4)}, {result.coordinates[0].toFixed(4)}]
+                            {result.target && (
+                              <span className="text-yellow-400 ml-2" title="Kamera míří na vybranou budovu">
+                                🎯 [{result.target[1].toFixed(4)}, {result.target[0].toFixed(4)}]
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                      <div className="text-right">
+                        {result.analysisStatus === 'completed' && result.aiAnalysis && !isAiAnalysisError(result.aiAnalysis) && (
+                           <div className="text-yellow-400 font-bold text-lg font-mono">
+                             {result.aiAnalysis.souhrn.potencial_prodeje_skore} / 100
+                           </div>
                         )}
-                        <h4 className="font-semibold text-white mb-1">{result.name}</h4>
-                      </div>
-                      <div className="text-xs text-gray-500 mt-1 mb-2 font-mono pl-7">
-                        [{result.coordinates[1].toFixed(4)}, {result.coordinates[0].toFixed(4)}]
+                        <svg
+                          className={`w-5 h-5 text-gray-400 mt-1 transition-transform ${
+                            expandedResults.has(result.id) ? 'rotate-180' : ''
+                          }`}
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                        </svg>
                       </div>
                     </div>
-                  <div className="text-right">
-                    {result.analysisStatus === 'completed' && result.aiAnalysis && (
-                       <div className="text-yellow-400 font-bold text-lg font-mono">
-                         {result.aiAnalysis.souhrn.potencial_prodeje_skore} / 100
-                       </div>
-                    )}
-                    <svg
-                      className={`w-5 h-5 text-gray-400 mt-1 transition-transform ${
-                        expandedResults.has(result.id) ? 'rotate-180' : ''
-                      }`}
-                      fill="none"
-                      stroke="currentColor"
-                      viewBox="0 0 24 24"
-                    >
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-                    </svg>
                   </div>
-                </div>
-              </div>
 
-              {expandedResults.has(result.id) && (
-                <div className="px-3 pb-3 border-t border-gray-800">
-                  {result.aiAnalysis ? (
-                    result.aiAnalysis.error ? (
-                        <div className="mt-3 bg-red-900/50 p-2">
-                            <h5 className="text-sm font-bold text-red-400">Chyba Analýzy</h5>
-                            <p className="text-xs text-red-300">{result.aiAnalysis.error}</p>
-                        </div>
-                    ) : (
-                        <div className="mt-3 space-y-3 text-xs">
-                            <div>
-                                <h5 className="font-semibold text-gray-300 mb-1">Stáří a styl</h5>
-                                <p className="text-gray-400">{result.aiAnalysis.stari_a_styl}</p>
+                  {expandedResults.has(result.id) && (
+                    <div className="px-3 pb-3 border-t border-gray-800">
+                      <div className="mt-3 flex items-start justify-between gap-2">
+                        <CadastreDetails result={result} onLookup={() => onLookupCadastre(result.id)} />
+                        {result.deal ? (
+                          <button onClick={onOpenPipeline} className="text-xs text-electric-blue hover:underline whitespace-nowrap">
+                            V pipeline ↗
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => onDealChange(result.id, createDeal(dealStages[0].id))}
+                            className="text-xs px-2 py-1 bg-gray-800 hover:bg-gray-700 text-gray-300 whitespace-nowrap"
+                          >
+                            ➕ Do pipeline
+                          </button>
+                        )}
+                      </div>
+                      {result.aiAnalysis ? (
+                        isAiAnalysisError(result.aiAnalysis) ? (
+                            <div className="mt-3 bg-red-900/50 p-2">
+                                <h5 className="text-sm font-bold text-red-400">Chyba Analýzy</h5>
+                                <p className="text-xs text-red-300">{result.aiAnalysis.error}</p>
+                                {result.aiAnalysis.issues && (
+                                    <ul className="text-xs text-red-300 mt-1 list-disc pl-4">
+                                        {result.aiAnalysis.issues.map(issue => (
+                                            <li key={issue.path}><span className="font-mono">{issue.path}</span>: {issue.message}</li>
+                                        ))}
+                                    </ul>
+                                )}
                             </div>
-                            <div>
-                                <h5 className="font-semibold text-gray-300 mb-1">Checklist Zanedbání (0-10)</h5>
-                                <div className="grid grid-cols-2 gap-x-4 gap-y-1">
-                                    {Object.entries(result.aiAnalysis.checklist).map(([key, value]) => (
-                                        <div key={key} className="flex justify-between">
-                                            <span className="text-gray-400">{key.replace(/_/g, ' ')}:</span>
-                                            <span className="font-mono text-white">{value as any}</span>
-                                        </div>
-                                    ))}
+                        ) : (
+                            <div className="mt-3 space-y-3 text-xs">
+                                <div>
+                                    <h5 className="font-semibold text-gray-300 mb-1">Stáří a styl</h5>
+                                    <p className="text-gray-400">{result.aiAnalysis.stari_a_styl}</p>
+                                </div>
+                                <div>
+                                    <h5 className="font-semibold text-gray-300 mb-1">Checklist Zanedbání (0-10)</h5>
+                                    <ChecklistScores analysis={result.aiAnalysis} />
+                                </div>
+                                <div>
+                                    <h5 className="font-semibold text-gray-300 mb-1">Souhrn</h5>
+                                    <p className="text-gray-400"><span className="text-green-400">Pozitiva:</span> {result.aiAnalysis.souhrn.pozitiva.join(', ')}</p>
+                                    <p className="text-gray-400"><span className="text-red-400">Negativa:</span> {result.aiAnalysis.souhrn.negativa.join(', ')}</p>
+                                    <p className="text-gray-400"><span className="text-blue-400">Doporučení:</span> {result.aiAnalysis.souhrn.doporuceni}</p>
+                                    <p className="text-gray-400"><span className="text-yellow-400">Skóre potenciálu:</span> {result.aiAnalysis.souhrn.potencial_prodeje_skore} / 100</p>
                                 </div>
                             </div>
-                            <div>
-                                <h5 className="font-semibold text-gray-300 mb-1">Souhrn</h5>
-                                <p className="text-gray-400"><span className="text-green-400">Pozitiva:</span> {result.aiAnalysis.souhrn.pozitiva.join(', ')}</p>
-                                <p className="text-gray-400"><span className="text-red-400">Negativa:</span> {result.aiAnalysis.souhrn.negativa.join(', ')}</p>
-                                <p className="text-gray-400"><span className="text-blue-400">Doporučení:</span> {result.aiAnalysis.souhrn.doporuceni}</p>
-                                <p className="text-gray-400"><span className="text-yellow-400">Skóre potenciálu:</span> {result.aiAnalysis.souhrn.potencial_prodeje_skore} / 100</p>
-                            </div>
-                        </div>
-                    )
-                  ) : (
-                    <>
-                      <div className="mt-3">
-                        <h5 className="text-sm font-semibold text-gray-300 mb-2">Zjištěné problémy</h5>
-                        <ul className="space-y-1">
-                          {result.issues.map((issue, index) => (
-                            <li key={index} className="text-sm text-gray-400 flex items-center gap-2">
-                              <div className="w-1 h-1 bg-red-400"></div>
-                              {issue}
-                            </li>
-                          ))}
-                        </ul>
-                      </div>
-                      <div className="mt-3">
-                        <h5 className="text-sm font-semibold text-gray-300 mb-1">Doporučení</h5>
-                        <p className="text-sm text-gray-300">{result.recommendation}</p>
-                      </div>
-                    </>
+                        )
+                      ) : (
+                        <>
+                          <div className="mt-3">
+                            <h5 className="text-sm font-semibold text-gray-300 mb-2">Zjištěné problémy</h5>
+                            <ul className="space-y-1">
+                              {result.issues.map((issue, index) => (
+                                <li key={index} className="text-sm text-gray-400 flex items-center gap-2">
+                                  <div className="w-1 h-1 bg-red-400"></div>
+                                  {issue}
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                          <div className="mt-3">
+                            <h5 className="text-sm font-semibold text-gray-300 mb-1">Doporučení</h5>
+                            <p className="text-sm text-gray-300">{result.recommendation}</p>
+                          </div>
+                        </>
+                      )}
+                    </div>
                   )}
                 </div>
-              )}
+              ))}
             </div>
-          ))}
-        </div>
+          </>
+        )}
+
+        {results.length > 0 && filteredResults.length === 0 && (
+          <p className="text-center text-sm text-gray-500 mt-6">Filtru neodpovídá žádný výsledek</p>
+        )}
 
         {results.length === 0 && (
           <div className="text-center text-gray-500 mt-12 py-8">
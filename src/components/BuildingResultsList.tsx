@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { AnalysisResult, resultDisplayName } from '../types/analysis';
+import { BuildingResult } from '../types/building';
+
+interface BuildingResultsListProps {
+  buildingResults: BuildingResult[];
+  results: AnalysisResult[];
+}
+
+// One card per imported building, merging the analyses of all panoramas that see it
+const BuildingResultsList: React.FC<BuildingResultsListProps> = ({ buildingResults, results }) => {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [onlyLinked, setOnlyLinked] = useState(true);
+
+  const resultNames: Record<number, string> = {};
+  results.forEach(result => {
+    resultNames[result.id] = resultDisplayName(result);
+  });
+
+  const toggleExpanded = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  // Best candidates first, buildings without analysis after them
+  const visible = buildingResults
+    .filter(item => !onlyLinked || item.panoramaIds.length > 0)
+    .sort((a, b) => (b.aggregate?.potentialMax ?? -1) - (a.aggregate?.potentialMax ?? -1));
+
+  return (
+    <div>
+      <label className="flex items-center gap-2 text-sm text-gray-400 mb-3">
+        <input
+          type="checkbox"
+          checked={onlyLinked}
+          onChange={(e) => setOnlyLinked(e.target.checked)}
+          className="accent-electric-blue"
+        />
+        Jen budovy viditelné z panoramat
+      </label>
+
+      <div className="space-y-2">
+        {visible.map(({ building, panoramaIds, aggregate }) => (
+          <div key={building.id} className="bg-gray-900 border border-gray-800 overflow-hidden">
+            <div
+              className="p-3 cursor-pointer hover:bg-gray-800 transition-colors"
+              onClick={() => toggleExpanded(building.id)}
+            >
+              <div className="flex items-start justify-between">
+                <div className="flex-1">
+                  <h4 className="font-semibold text-white mb-1">🏢 {building.name}</h4>
+                  <div className="text-xs text-gray-500 font-mono">
+                    {panoramaIds.length} panoramat · {aggregate ? aggregate.analyzedCount : 0} analyzováno
+                  </div>
+                </div>
+                {aggregate && (
+                  <div className="text-right">
+                    <div className="text-yellow-400 font-bold text-lg font-mono">{aggregate.potentialMax} / 100</div>
+                    <div className="text-xs text-gray-500">prům. {aggregate.potentialAverage}</div>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {expanded.has(building.id) && (
+              <div className="px-3 pb-3 border-t border-gray-800 mt-0 pt-3 space-y-3 text-xs">
+                {aggregate ? (
+                  <>
+                    <div>
+                      <h5 className="font-semibold text-gray-300 mb-1">Checklist Zanedbání (průměr, 0-10)</h5>
+                      <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+                        {Object.entries(aggregate.checklist).map(([key, value]) => (
+                          <div key={key} className="flex justify-between">
+                            <span className="text-gray-400">{key.replace(/_/g, ' ')}:</span>
+                            <span className="font-mono text-white">{value}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                    <div>
+                      <h5 className="font-semibold text-gray-300 mb-1">Souhrn</h5>
+                      <p className="text-gray-400"><span className="text-green-400">Pozitiva:</span> {aggregate.pozitiva.join(', ')}</p>
+                      <p className="text-gray-400"><span className="text-red-400">Negativa:</span> {aggregate.negativa.join(', ')}</p>
+                      <p className="text-gray-400"><span className="text-blue-400">Doporučení:</span> {aggregate.doporuceni}</p>
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-gray-500">Žádné z panoramat zatím nebylo analyzováno.</p>
+                )}
+                {panoramaIds.length > 0 && (
+                  <div>
+                    <h5 className="font-semibold text-gray-300 mb-1">Panoramata</h5>
+                    <p className="text-gray-400">{panoramaIds.map(id => resultNames[id]).join(', ')}</p>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {visible.length === 0 && (
+        <p className="text-center text-gray-500 text-sm mt-8">Žádná budova není vidět z nalezených panoramat.</p>
+      )}
+    </div>
+  );
+};
+
+export default BuildingResultsList;
@@ -0,0 +1,324 @@
+import React, { useState } from 'react';
+import { AnalysisFilter, AnalysisResult, resultDisplayName } from '../types/analysis';
+import { DealRecord, DealStage, DealStageId } from '../types/dealPipeline';
+import { addDealNote, createDeal, createDealStage, isDealOverdue, moveDeal, parseDealTags } from '../utils/dealPipeline';
+import { potentialScore } from '../utils/analysisSummary';
+import { scoreColor, TOP_CANDIDATE_SCORE } from '../utils/scoreColors';
+
+interface DealPipelineBoardProps {
+  results: AnalysisResult[];
+  stages: DealStage[];
+  onStagesChange: (stages: DealStage[]) => void;
+  onDealChange: (resultId: number, deal: DealRecord | undefined) => void;
+  filter: AnalysisFilter; // Stage filter is shared with the map
+  onFilterChange: (filter: AnalysisFilter) => void;
+  besidePanel: boolean; // AnalysisPanel is open on the right
+  onClose: () => void;
+}
+
+const formatDateTime = (iso: string) => new Date(iso).toLocaleString('cs-CZ', { dateStyle: 'short', timeStyle: 'short' });
+
+// Notes, tags, due date and stage history of one deal
+const DealDetail: React.FC<{
+  deal: DealRecord;
+  stages: DealStage[];
+  onChange: (deal: DealRecord | undefined) => void;
+}> = ({ deal, stages, onChange }) => {
+  const [note, setNote] = useState('');
+  const [tags, setTags] = useState(deal.tags.join(', '));
+  const stageLabel = (id: DealStageId | null) => stages.find(stage => stage.id === id)?.label || id || '–';
+
+  const handleAddNote = () => {
+    if (!note.trim()) return;
+    onChange(addDealNote(deal, note.trim()));
+    setNote('');
+  };
+
+  return (
+    <div className="mt-2 pt-2 border-t border-gray-700 space-y-2" onClick={(e) => e.stopPropagation()}>
+      <label className="block">
+        <span className="text-gray-400">Fáze</span>
+        <select
+          value={deal.stage}
+          onChange={(e) => onChange(moveDeal(deal, e.target.value))}
+          className="w-full bg-gray-800 border border-gray-700 px-2 py-1 text-white focus:border-electric-blue outline-none appearance-none"
+        >
+          {stages.map(stage => <option key={stage.id} value={stage.id}>{stage.label}</option>)}
+        </select>
+      </label>
+      <label className="block">
+        <span className="text-gray-400">Termín</span>
+        <input
+          type="date"
+          value={deal.dueDate}
+          onChange={(e) => onChange({ ...deal, dueDate: e.target.value })}
+          className="w-full bg-gray-800 border border-gray-700 px-2 py-1 text-white focus:border-electric-blue outline-none"
+        />
+      </label>
+      <label className="block">
+        <span className="text-gray-400">Štítky (oddělené čárkou)</span>
+        <input
+          type="text"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          onBlur={() => onChange({ ...deal, tags: parseDealTags(tags) })}
+          className="w-full bg-gray-800 border border-gray-700 px-2 py-1 text-white focus:border-electric-blue outline-none"
+        />
+      </label>
+
+      <div>
+        <div className="text-gray-400 mb-1">Poznámky</div>
+        {deal.notes.map((item, index) => (
+          <p key={index} className="text-gray-300 mb-1">
+            <span className="text-gray-500">{formatDateTime(item.createdAt)}:</span> {item.text}
+          </p>
+        ))}
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          rows={2}
+          placeholder="Nová poznámka…"
+          className="w-full bg-gray-800 border border-gray-700 px-2 py-1 text-white focus:border-electric-blue outline-none resize-none"
+        />
+        <button
+          onClick={handleAddNote}
+          disabled={!note.trim()}
+          className="px-2 py-1 bg-gray-800 hover:bg-gray-700 text-gray-200 disabled:opacity-50"
+        >
+          Přidat poznámku
+        </button>
+      </div>
+
+      <div>
+        <div className="text-gray-400 mb-1">Historie</div>
+        {deal.history.map((change, index) => (
+          <p key={index} className="text-gray-500">
+            {formatDateTime(change.changedAt)} · {change.from ? `${stageLabel(change.from)} → ` : 'přidáno do '}{stageLabel(change.to)}
+          </p>
+        ))}
+      </div>
+
+      <button
+        onClick={() => {
+          if (window.confirm('Odebrat nemovitost z pipeline? Poznámky a historie se smažou.')) onChange(undefined);
+        }}
+        className="text-red-400 hover:text-red-300"
+      >
+        Odebrat z pipeline
+      </button>
+    </div>
+  );
+};
+
+// Add, rename, recolour, reorder and remove stages. Stages that still hold deals cannot be removed.
+const StageEditor: React.FC<{
+  stages: DealStage[];
+  usedStages: Set<DealStageId>;
+  onChange: (stages: DealStage[]) => void;
+}> = ({ stages, usedStages, onChange }) => {
+  const update = (index: number, changes: Partial<DealStage>) =>
+    onChange(stages.map((stage, i) => (i === index ? { ...stage, ...changes } : stage)));
+
+  const move = (index: number, offset: number) => {
+    const next = [...stages];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const handleAdd = () => {
+    const label = window.prompt('Název nové fáze:');
+    if (label?.trim()) onChange([...stages, createDealStage(label.trim())]);
+  };
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 p-3 mb-3 text-xs space-y-1">
+      {stages.map((stage, index) => (
+        <div key={stage.id} className="flex items-center gap-2">
+          <input
+            type="color"
+            value={stage.color}
+            onChange={(e) => update(index, { color: e.target.value })}
+            className="w-6 h-6 bg-transparent"
+          />
+          <input
+            type="text"
+            value={stage.label}
+            onChange={(e) => update(index, { label: e.target.value })}
+            className="flex-1 min-w-0 bg-gray-800 border border-gray-700 px-2 py-1 text-white focus:border-electric-blue outline-none"
+          />
+          <label className="flex items-center gap-1 text-gray-400" title="Konečná fáze - termíny se nehlídají">
+            <input
+              type="checkbox"
+              checked={!!stage.closed}
+              onChange={(e) => update(index, { closed: e.target.checked })}
+              className="accent-electric-blue"
+            />
+            konečná
+          </label>
+          <button onClick={() => move(index, -1)} disabled={index === 0} className="text-gray-400 hover:text-white disabled:opacity-30">↑</button>
+          <button onClick={() => move(index, 1)} disabled={index === stages.length - 1} className="text-gray-400 hover:text-white disabled:opacity-30">↓</button>
+          <button
+            onClick={() => onChange(stages.filter((_, i) => i !== index))}
+            disabled={usedStages.has(stage.id) || stages.length === 1}
+            className="text-gray-400 hover:text-red-400 disabled:opacity-30"
+            title={usedStages.has(stage.id) ? 'Ve fázi jsou nemovitosti' : 'Smazat fázi'}
+          >
+            🗑️
+          </button>
+        </div>
+      ))}
+      <button onClick={handleAdd} className="px-2 py-1 bg-gray-800 hover:bg-gray-700 text-gray-200">
+        ➕ Přidat fázi
+      </button>
+    </div>
+  );
+};
+
+// Kanban of the properties in the acquisition pipeline, one column per stage, docked under
+// the map so the stage filter stays visible. Cards are dragged between columns; deals in a
+// stage that no longer exists show in the first column.
+const DealPipelineBoard: React.FC<DealPipelineBoardProps> = ({
+  results,
+  stages,
+  onStagesChange,
+  onDealChange,
+  filter,
+  onFilterChange,
+  besidePanel,
+  onClose
+}) => {
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [dragOverStage, setDragOverStage] = useState<DealStageId | null>(null);
+  const [showStageEditor, setShowStageEditor] = useState(false);
+
+  const deals = results.filter(result => result.deal);
+  const columnOf = (result: AnalysisResult) =>
+    stages.some(stage => stage.id === result.deal!.stage) ? result.deal!.stage : stages[0].id;
+  const usedStages = new Set(deals.map(columnOf));
+  const candidates = results.filter(result => !result.deal && (potentialScore(result) ?? -1) >= TOP_CANDIDATE_SCORE);
+
+  const handleDrop = (event: React.DragEvent, stage: DealStageId) => {
+    event.preventDefault();
+    setDragOverStage(null);
+    const result = deals.find(r => r.id === Number(event.dataTransfer.getData('text/plain')));
+    if (result?.deal) onDealChange(result.id, moveDeal(result.deal, stage));
+  };
+
+  const handleAddCandidates = () => {
+    candidates.forEach(result => onDealChange(result.id, createDeal(stages[0].id)));
+  };
+
+  // Show only this stage on the map (and in the panel); clicking again clears it
+  const toggleStageFilter = (stage: DealStageId) => onFilterChange({
+    ...filter,
+    dealStages: filter.dealStages.length === 1 && filter.dealStages[0] === stage ? [] : [stage]
+  });
+
+  return (
+    <div className={`absolute bottom-0 left-0 h-1/2 ${besidePanel ? 'right-96' : 'right-0'} bg-dark-card border-t border-gray-800 z-30 flex flex-col`}>
+      <div className="flex items-center justify-between p-4 pb-2">
+        <h2 className="text-xl font-bold text-white">Pipeline obchodů</h2>
+        <div className="flex gap-2 text-sm">
+          {candidates.length > 0 && (
+            <button
+              onClick={handleAddCandidates}
+              className="px-3 py-1 bg-gray-800 text-gray-200 hover:bg-gray-700 transition-colors"
+              title={`Nemovitosti se skóre od ${TOP_CANDIDATE_SCORE}, které ještě nejsou v pipeline`}
+            >
+              ➕ Top kandidáti ({candidates.length})
+            </button>
+          )}
+          <button
+            onClick={() => setShowStageEditor(!showStageEditor)}
+            className={`px-3 py-1 transition-colors ${showStageEditor ? 'bg-electric-blue text-white' : 'bg-gray-800 text-gray-200 hover:bg-gray-700'}`}
+          >
+            ⚙️ Fáze
+          </button>
+          <button onClick={onClose} className="px-3 py-1 bg-gray-800 text-gray-200 hover:bg-gray-700 transition-colors">✕</button>
+        </div>
+      </div>
+
+      <div className="px-4">
+        {showStageEditor && <StageEditor stages={stages} usedStages={usedStages} onChange={onStagesChange} />}
+        {deals.length === 0 && (
+          <p className="text-sm text-gray-500 mb-3">Pipeline je prázdná - přidejte nemovitost z detailu výsledku nebo top kandidáty.</p>
+        )}
+      </div>
+
+      <div className="flex-1 flex gap-3 px-4 pb-4 overflow-x-auto">
+        {stages.map(stage => {
+          const column = deals.filter(result => columnOf(result) === stage.id);
+          const isFiltered = filter.dealStages.length === 1 && filter.dealStages[0] === stage.id;
+          return (
+            <div
+              key={stage.id}
+              onDragOver={(e) => { e.preventDefault(); setDragOverStage(stage.id); }}
+              onDragLeave={() => setDragOverStage(null)}
+              onDrop={(e) => handleDrop(e, stage.id)}
+              className={`w-60 flex-shrink-0 flex flex-col bg-gray-900 border ${dragOverStage === stage.id ? 'border-electric-blue' : 'border-gray-800'}`}
+            >
+              <div className="flex items-center gap-2 p-2 border-b border-gray-800 text-sm">
+                <span className="w-2 h-2 flex-shrink-0" style={{ backgroundColor: stage.color }} />
+                <span className="flex-1 font-semibold text-white truncate">{stage.label}</span>
+                <span className="text-gray-500">{column.length}</span>
+                <button
+                  onClick={() => toggleStageFilter(stage.id)}
+                  className={isFiltered ? 'text-electric-blue' : 'text-gray-500 hover:text-white'}
+                  title="Na mapě zobrazit jen tuto fázi"
+                >
+                  🗺️
+                </button>
+              </div>
+
+              <div className="flex-1 overflow-y-auto p-2 space-y-2">
+                {column.map(result => {
+                  const deal = result.deal!;
+                  const score = potentialScore(result);
+                  const overdue = isDealOverdue(deal, stages);
+                  return (
+                    <div
+                      key={result.id}
+                      draggable
+                      onDragStart={(e) => e.dataTransfer.setData('text/plain', String(result.id))}
+                      onClick={() => setSelectedId(selectedId === result.id ? null : result.id)}
+                      className="bg-gray-800 border border-gray-700 hover:border-gray-600 p-2 text-xs cursor-pointer"
+                    >
+                      <div className="flex items-start justify-between gap-2">
+                        <span className="font-semibold text-white">{resultDisplayName(result)}</span>
+                        {score !== null && (
+                          <span className="font-mono" style={{ color: scoreColor(score) }}>{score}</span>
+                        )}
+                      </div>
+                      {deal.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {deal.tags.map(tag => (
+                            <span key={tag} className="px-1 bg-gray-700 text-gray-300">{tag}</span>
+                          ))}
+                        </div>
+                      )}
+                      <div className="flex justify-between mt-1 text-gray-500">
+                        <span className={overdue ? 'text-red-400' : ''}>
+                          {deal.dueDate && `${overdue ? '⚠️ ' : ''}📅 ${new Date(deal.dueDate).toLocaleDateString('cs-CZ')}`}
+                        </span>
+                        {deal.notes.length > 0 && <span>📝 {deal.notes.length}</span>}
+                      </div>
+                      {selectedId === result.id && (
+                        <DealDetail
+                          deal={deal}
+                          stages={stages}
+                          onChange={(next) => onDealChange(result.id, next)}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default DealPipelineBoard;
@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { SCORE_GRADIENT_CSS, STATUS_MARKER_COLORS, TOP_CANDIDATE_SCORE, scoreColor } from '../utils/scoreColors';
+
+// Explains the panorama marker colours; collapsible so it does not cover the map
+const MapLegend: React.FC = () => {
+  const [collapsed, setCollapsed] = useState(false);
+
+  const statuses = [
+    { label: 'Čeká na analýzu', color: STATUS_MARKER_COLORS.pending, border: '#ffffff', dashed: false },
+    { label: 'Analyzuje se', color: STATUS_MARKER_COLORS.analyzing, border: '#ffffff', dashed: true },
+    { label: 'Analýza selhala', color: STATUS_MARKER_COLORS.failed, border: '#ef4444', dashed: false }
+  ];
+
+  return (
+    <div className="absolute bottom-4 left-4 z-20 bg-dark-card/95 border border-gray-700 p-3 text-xs text-gray-300 shadow-lg w-56">
+      <button
+        onClick={() => setCollapsed(!collapsed)}
+        className="w-full flex items-center justify-between font-bold text-gray-200"
+      >
+        Legenda
+        <span className="text-gray-500">{collapsed ? '▲' : '▼'}</span>
+      </button>
+
+      {!collapsed && (
+        <div className="mt-2 space-y-2">
+          <div>
+            <div className="mb-1">Skóre potenciálu prodeje</div>
+            <div className="h-3 w-full" style={{ background: SCORE_GRADIENT_CSS }} />
+            <div className="flex justify-between text-gray-500 font-mono mt-0.5">
+              <span>0</span>
+              <span>50</span>
+              <span>100</span>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="inline-block w-4 h-4 rounded-full border-2 border-white" style={{ background: scoreColor(90) }} />
+            Větší značka = skóre ≥ {TOP_CANDIDATE_SCORE}
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="inline-flex items-center justify-center w-5 h-5 rounded-full border-2 border-white text-[9px] font-bold text-gray-900" style={{ background: scoreColor(70) }}>
+              12
+            </span>
+            Shluk: počet bodů a nejlepší skóre
+          </div>
+          {statuses.map(status => (
+            <div key={status.label} className="flex items-center gap-2">
+              <span
+                className={`inline-block w-3 h-3 rounded-full border-2 ${status.dashed ? 'border-dashed' : ''}`}
+                style={{ background: status.color, borderColor: status.border }}
+              />
+              {status.label}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MapLegend;
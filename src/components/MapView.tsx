@@ -1,7 +1,9 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import AnalysisPanel from './AnalysisPanel';
 import PanoramaGallery from './PanoramaGallery';
 import PanoramaDemo from './PanoramaDemo';
+import PanoramaViewer from './PanoramaViewer';
+import ProjectManager from './ProjectManager';
 import Map from 'ol/Map.js';
 import View from 'ol/View.js';
 import TileLayer from 'ol/layer/Tile.js';
@@ -9,13 +11,68 @@ import 'ol/ol.css';
 import XYZ from 'ol/source/XYZ.js';
 import { defaults as defaultInteractions, PinchZoom, DragPan, MouseWheelZoom, KeyboardZoom, DragZoom, Draw, Modify } from 'ol/interaction';
 import VectorLayer from 'ol/layer/Vector.js';
+import HeatmapLayer from 'ol/layer/Heatmap.js';
 import VectorSource from 'ol/source/Vector.js';
-import { Style, Fill, Stroke } from 'ol/style';
+import Cluster from 'ol/source/Cluster.js';
+import { boundingExtent } from 'ol/extent';
+import { Style, Fill, Stroke, Text } from 'ol/style';
 import CircleStyle from 'ol/style/Circle.js';
-import Feature from 'ol/Feature.js';
-import { Point, Polygon } from 'ol/geom';
+import Feature, { FeatureLike } from 'ol/Feature.js';
+import { LinearRing, LineString, Point, Polygon } from 'ol/geom';
 import { toLonLat, fromLonLat } from 'ol/proj';
+import { projectStore } from '../utils/projectStore';
+import { normalizeAiAnalysis } from '../utils/propertyAnalysis';
+import { AnalysisPipeline, AnalysisBatch, DEFAULT_IMAGE_OPTIONS } from '../utils/analysisPipeline';
+import { submitAnalysisJob, cancelAnalysisJob, pollAnalysisJob } from '../utils/analysisJobsApi';
+import { buildAnalysisViews, streetPerpendicularViews } from '../utils/analysisViews';
+import { aimViewAtTarget, findNearestPanorama, resolveTargets, MAX_TARGET_DISTANCE_M } from '../utils/panoramaTargeting';
+import { buildBuildingResults, parseBuildingGeoJson } from '../utils/buildings';
+import { PanoramaControlsState, PanoramaLocation } from '../types/panoramaViewer';
+import { BuildingFootprint } from '../types/building';
+import { SearchArea, SearchAreaDrawMode, StreetCorridor } from '../types/searchArea';
+import { findAreaForHole, pointInSearchAreas } from '../utils/searchAreas';
+import { CORRIDOR_DEFAULTS, locateOnLine, sampleCorridor } from '../utils/corridorSearch';
+import { DEFAULT_DISCOVERY_OPTIONS, DiscoveryStats, GRID_SPACING_M, discoverPanoramas } from '../utils/panoramaDiscovery';
+import { countSearchGrid, filterPanoramas, streamDiscoveryCells, streamSearchGrid } from '../utils/searchGridWorker';
+import { SearchCheckpoint, clearSearchCheckpoint, loadSearchCheckpoint, saveSearchCheckpoint } from '../utils/searchCheckpoint';
+import { toGeoJson, toKml, toGpx, downloadFile } from '../utils/geoExport';
+import { toCsv, toXlsx, TabularExportOptions, DEFAULT_TABULAR_EXPORT_OPTIONS } from '../utils/tabularExport';
+import { captureMapSnapshot } from '../utils/mapSnapshot';
+import { addressKey, reverseGeocode } from '../utils/reverseGeocode';
+import { lookupCadastralParcels } from '../utils/cadastreApi';
+import { annotationStore } from '../utils/annotationStore';
+import { loadDealStages, saveDealStages } from '../utils/dealPipeline';
+import { attachDeals, dealKey, dealPoint, dealPointKey, dealStore } from '../utils/dealStore';
+import { DealRecord, DealStage } from '../types/dealPipeline';
+import { generateAnalysisReport } from '../utils/reportGenerator';
 import { PanoramaApiService } from '../utils/panoramaApi';
+import { mapyScheduler, RateLimitedError } from '../utils/requestScheduler';
+import { RequestPriority } from '../types/requestScheduler';
+import { scoreColor, STATUS_MARKER_COLORS, TOP_CANDIDATE_SCORE } from '../utils/scoreColors';
+import { potentialScore } from '../utils/analysisSummary';
+import { filterResults, matchesFilter } from '../utils/analysisFilter';
+import MapLegend from './MapLegend';
+import DealPipelineBoard from './DealPipelineBoard';
+import { OPPORTUNITY_METRICS, GRID_CELL_SIZES_M, OpportunityMetric, opportunityPoints, aggregateGrid } from '../utils/opportunityMap';
+import {
+  AnalysisResult,
+  AnalysisStatus,
+  AnalysisBatchState,
+  AnalysisBatchProgress,
+  AnalysisJob,
+  AnalysisJobItemStatus,
+  AnalysisJobSummary,
+  AnalysisExportFormat,
+  AnalysisViewMode,
+  ANALYSIS_VIEW_MODES,
+  AnalysisFilter,
+  DEFAULT_ANALYSIS_FILTER,
+  isAiAnalysisError,
+  resultDisplayName,
+  resultPropertyPoint
+} from '../types/analysis';
+import { PropertyAddress } from '../types/address';
+import { Project, ProjectData } from '../types/project';
 
 // TypeScript deklarace pro Mapy.cz REST API odpověď
 
@@ -35,6 +92,19 @@ interface IPanoramaExistsOutput {
 
 // Používáme REST API místo JavaScript SDK
 
+// Panorama markers are clustered up to this zoom; at street zoom clusters dissolve
+const PANORAMA_CLUSTER_MAX_ZOOM = 16;
+const PANORAMA_CLUSTER_DISTANCE_PX = 40;
+
+// Panoramas closer than this are the same capture point for the analysis
+const PANORAMA_DEDUP_DISTANCE_M = 10;
+
+const DRAW_MODE_LABELS: Record<SearchAreaDrawMode, string> = {
+  include: 'Kreslení oblasti...',
+  hole: 'Kreslení díry...',
+  exclude: 'Kreslení vyloučené zóny...'
+};
+
 interface MapViewProps {
   onBack: () => void;
 }
@@ -47,19 +117,33 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
   const vectorSourceRef = useRef<VectorSource | null>(null);
   const vectorLayerRef = useRef<VectorLayer<VectorSource> | null>(null);
   const drawInteractionRef = useRef<Draw | null>(null);
+  const lineDrawInteractionRef = useRef<Draw | null>(null);
   const modifyInteractionRef = useRef<Modify | null>(null);
   const mountedRef = useRef(false); // Guard proti double mounting
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isDrawingMode, setIsDrawingMode] = useState(false);
+  const [drawMode, setDrawMode] = useState<SearchAreaDrawMode>('include');
+  const [isDrawingCorridor, setIsDrawingCorridor] = useState(false);
+  const [corridorSettings, setCorridorSettings] = useState(CORRIDOR_DEFAULTS);
   const [hasPolygon, setHasPolygon] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisProgress, setAnalysisProgress] = useState(0);
+  const [discoveryStats, setDiscoveryStats] = useState<DiscoveryStats | null>(null);
+  // Running panorama search - Stop aborts the checks still waiting in the scheduler
+  const searchAbortRef = useRef<AbortController | null>(null);
+  const [searchCheckpoint, setSearchCheckpoint] = useState<SearchCheckpoint | null>(loadSearchCheckpoint);
   const [panoramaLocations, setPanoramaLocations] = useState<{lon: number, lat: number}[]>([]);
   const [panoramaLayer, setPanoramaLayer] = useState<VectorLayer<VectorSource> | null>(null);
   
   // State for analysis results
-  const [analysisResults, setAnalysisResults] = useState<any[]>([]);
+  const [analysisResults, setAnalysisResults] = useState<AnalysisResult[]>([]);
+  // Panel filter - also dims/hides map markers and limits exports and the report
+  const [analysisFilter, setAnalysisFilter] = useState<AnalysisFilter>(DEFAULT_ANALYSIS_FILTER);
+  const filteredResults = useMemo(
+    () => filterResults(analysisResults, analysisFilter),
+    [analysisResults, analysisFilter]
+  );
   const [showAnalysisPanel, setShowAnalysisPanel] = useState(false);
   
   // State for panorama gallery
@@ -69,71 +153,190 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
   const [selectedForAnalysis, setSelectedForAnalysis] = useState<Set<number>>(new Set());
   const [isAiAnalyzing, setIsAiAnalyzing] = useState(false);
   
+  // Saved projects
+  const [currentProject, setCurrentProject] = useState<{ id: string; name: string } | null>(null);
+  const [showProjectManager, setShowProjectManager] = useState(false);
+  
   // Critical error logging
   const [jsErrors, setJsErrors] = useState<string[]>([]);
 
-  const runBatchAiAnalysis = async (resultsToAnalyze: any[]) => {
-    const panoramaApiService = new PanoramaApiService(process.env.REACT_APP_MAPY_API_KEY || '');
+  // AI analysis batch (shared pipeline with worker pool, retry and cancellation)
+  const analysisBatchRef = useRef<AnalysisBatch<number> | null>(null);
+  const [aiBatchState, setAiBatchState] = useState<AnalysisBatchState | null>(null);
+  const [aiBatchProgress, setAiBatchProgress] = useState<AnalysisBatchProgress | null>(null);
+  const [analysisViewMode, setAnalysisViewMode] = useState<AnalysisViewMode>('single');
+
+  // Headings to capture for a result. A result aimed at a building looks only at it,
+  // a corridor result at both sides of the drawn street, otherwise all found
+  // panoramas help estimate the street direction.
+  const viewsForResult = (result: AnalysisResult) => {
+    const panorama = { lon: result.coordinates[0], lat: result.coordinates[1] };
+    if (result.target) {
+      return [aimViewAtTarget(panorama, { lon: result.target[0], lat: result.target[1] })];
+    }
+    if (result.streetBearing !== undefined) {
+      return streetPerpendicularViews(result.streetBearing);
+    }
+    return buildAnalysisViews(analysisViewMode, panorama, panoramaLocations);
+  };
+
+  const runBatchAiAnalysis = async (resultsToAnalyze: AnalysisResult[]) => {
+    if (analysisBatchRef.current && analysisBatchRef.current.getState() !== 'completed' && analysisBatchRef.current.getState() !== 'cancelled') {
+      alert('AI analýza už běží. Nejprve ji dokončete nebo zastavte.');
+      return;
+    }
+
+    const pipeline = new AnalysisPipeline(process.env.REACT_APP_MAPY_API_KEY || '');
+    const batch = pipeline.runBatch<number>(resultsToAnalyze.map(result => ({
+      id: result.id,
+      lon: result.coordinates[0],
+      lat: result.coordinates[1],
+      views: viewsForResult(result)
+    })));
+    analysisBatchRef.current = batch;
+    setIsAiAnalyzing(true);
+    setAiBatchState('running');
+    setAiBatchProgress(batch.getProgress());
+
+    batch.subscribe(event => {
+      setAiBatchProgress(event.progress);
+
+      if (event.type === 'batch') {
+        setAiBatchState(event.state);
+        return;
+      }
+
+      const status: AnalysisStatus | null =
+        event.status === 'completed' ? 'completed'
+        : event.status === 'failed' ? 'failed'
+        : event.status === 'fetching-image' || event.status === 'analyzing' || event.status === 'retrying' ? 'analyzing'
+        : event.status === 'queued' || event.status === 'cancelled' ? 'pending'
+        : null;
+      if (!status) return;
 
-    for (const result of resultsToAnalyze) {
       setAnalysisResults(prevResults =>
-        prevResults.map(prevResult =>
-          prevResult.id === result.id ? { ...prevResult, analysisStatus: 'analyzing' } : prevResult
-        )
+        prevResults.map(prevResult => {
+          if (prevResult.id !== event.id) return prevResult;
+          if (event.status === 'completed') {
+            return { ...prevResult, aiAnalysis: event.result, analysisStatus: status };
+          }
+          if (event.status === 'failed') {
+            console.error(`Chyba při analýze nemovitosti ${event.id}:`, event.error);
+            return { ...prevResult, aiAnalysis: event.error, analysisStatus: status };
+          }
+          return { ...prevResult, analysisStatus: status };
+        })
       );
+    });
 
-      try {
-        const panoImageResponse = await panoramaApiService.fetchPanoramaImage(
-          result.coordinates[0],
-          result.coordinates[1]
-        );
+    const progress = await batch.done;
+    setIsAiAnalyzing(false);
+    return progress;
+  };
 
-        if (!panoImageResponse.success || !panoImageResponse.imageUrl) {
-          throw new Error('Nepodařilo se načíst obrázek pro analýzu.');
-        }
+  // Stop any running analysis when leaving the map
+  useEffect(() => () => analysisBatchRef.current?.cancel(), []);
 
-        const blob = await fetch(panoImageResponse.imageUrl).then(r => r.blob());
-        const reader = new FileReader();
-        const dataUrl = await new Promise<string>((resolve, reject) => {
-          reader.onloadend = () => resolve(reader.result as string);
-          reader.onerror = reject;
-          reader.readAsDataURL(blob);
-        });
+  // Server-side analysis job - every poll runs a processing step on the server, a cron keeps
+  // it going after the tab is closed and finished items stay stored there
+  const [serverJob, setServerJob] = useState<AnalysisJobSummary | null>(null);
+  const serverJobPollRef = useRef<AbortController | null>(null);
 
-        const response = await fetch('/api/analyze-property', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            imageUrl: dataUrl,
-            coordinates: result.coordinates
-          })
-        });
+  const applyServerJob = (job: AnalysisJob) => {
+    const { items, ...summary } = job;
+    setServerJob(summary);
+
+    const itemsByRef: Record<string, typeof items[number]> = {};
+    items.forEach(item => {
+      itemsByRef[String(item.ref)] = item;
+    });
+
+    const statusMap: Record<AnalysisJobItemStatus, AnalysisStatus> = {
+      pending: 'pending',
+      running: 'analyzing',
+      completed: 'completed',
+      failed: 'failed'
+    };
 
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.error || 'AI analýza selhala.');
+    setAnalysisResults(prevResults => {
+      let changed = false;
+      const nextResults = prevResults.map(result => {
+        const item = itemsByRef[String(result.id)];
+        if (!item) return result;
+
+        // A cancelled job leaves its untouched items as they were before submitting
+        if (job.status === 'cancelled' && (item.status === 'pending' || item.status === 'running')) {
+          if (result.analysisStatus !== 'analyzing') return result;
+          changed = true;
+          return { ...result, analysisStatus: result.aiAnalysis ? 'completed' : 'pending' } as AnalysisResult;
         }
 
-        const aiResult = await response.json();
-        
-        setAnalysisResults(prevResults =>
-          prevResults.map(prevResult =>
-            prevResult.id === result.id
-              ? { ...prevResult, aiAnalysis: aiResult, analysisStatus: 'completed' }
-              : prevResult
-          )
-        );
+        const status = statusMap[item.status];
+        if (result.analysisStatus === status && (status !== 'completed' || result.aiAnalysis)) return result;
 
-      } catch (error) {
-        console.error(`Chyba při analýze nemovitosti ${result.id}:`, error);
-        setAnalysisResults(prevResults =>
-          prevResults.map(prevResult =>
-            prevResult.id === result.id
-              ? { ...prevResult, aiAnalysis: { error: (error as Error).message }, analysisStatus: 'failed' }
-              : prevResult
-          )
-        );
-      }
+        changed = true;
+        if (item.status === 'completed') {
+          return { ...result, aiAnalysis: normalizeAiAnalysis(item.result), analysisStatus: status };
+        }
+        if (item.status === 'failed') {
+          return { ...result, aiAnalysis: item.error || { error: 'AI analýza selhala.' }, analysisStatus: status };
+        }
+        return { ...result, analysisStatus: status };
+      });
+      return changed ? nextResults : prevResults;
+    });
+  };
+
+  const trackServerJob = async (jobId: string) => {
+    serverJobPollRef.current?.abort();
+    const controller = new AbortController();
+    serverJobPollRef.current = controller;
+
+    const job = await pollAnalysisJob(jobId, applyServerJob, controller.signal);
+    if (job && !controller.signal.aborted) {
+      console.log(`🛰️ Server job ${job.id} ${job.status}: ${job.progress.completed} completed, ${job.progress.failed} failed`);
+    }
+  };
+
+  // Stop polling when leaving the map - the server cron finishes the job meanwhile
+  useEffect(() => () => serverJobPollRef.current?.abort(), []);
+
+  const handleRunServerAnalysis = async () => {
+    if (selectedForAnalysis.size === 0) {
+      alert('Vyberte prosím alespoň jednu nemovitost k analýze.');
+      return;
+    }
+    if (serverJob && (serverJob.status === 'queued' || serverJob.status === 'running')) {
+      alert('Serverová analýza už běží. Nejprve ji dokončete nebo zastavte.');
+      return;
+    }
+
+    const selectedResults = analysisResults.filter(r => selectedForAnalysis.has(r.id));
+    try {
+      const job = await submitAnalysisJob({
+        items: selectedResults.map(result => ({
+          ref: result.id,
+          lon: result.coordinates[0],
+          lat: result.coordinates[1],
+          views: viewsForResult(result)
+        }))
+      });
+      console.log(`🛰️ Server job ${job.id} submitted (${job.progress.total} items)`);
+      setServerJob(job);
+      trackServerJob(job.id);
+    } catch (error) {
+      console.error('Odeslání serverové analýzy selhalo:', error);
+      alert(`Odeslání serverové analýzy selhalo: ${(error as Error).message}`);
+    }
+  };
+
+  const handleCancelServerJob = async () => {
+    if (!serverJob) return;
+    try {
+      setServerJob(await cancelAnalysisJob(serverJob.id));
+    } catch (error) {
+      console.error('Zrušení serverové analýzy selhalo:', error);
+      alert(`Zrušení serverové analýzy selhalo: ${(error as Error).message}`);
     }
   };
 
@@ -187,56 +390,459 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
 
   // Panorama existence check via JS Panorama SDK
   // 🚀 OPTIMIZED: Cache for panorama checks to avoid duplicate API calls
-  const panoramaCache = useRef<Record<string, IPanoramaExistsOutput | null>>({});
+  const panoramaCache = useRef<Record<string, IPanoramaExistsOutput>>({});
+
+  // Goes through the shared Mapy.cz scheduler; scans run in the background lane so that
+  // viewer loads and targeting clicks are not stuck behind thousands of probes.
+  // Resolves the SDK answer however long the queue takes and rejects when it is unknown
+  // (rate limit, network error, SDK missing). `onSent` runs when the request leaves the queue.
+  async function requestPanoramaExists(
+    lon: number,
+    lat: number,
+    apiKey: string,
+    radius: number,
+    priority: RequestPriority,
+    signal?: AbortSignal,
+    onSent: () => void = () => {}
+  ): Promise<IPanoramaExistsOutput> {
+    // 🚀 Check cache first
+    const cacheKey = `${lon.toFixed(6)},${lat.toFixed(6)},${radius}`;
+    const cached = panoramaCache.current[cacheKey];
+    if (cached) return cached;
+
+    await ensurePanoramaSDK();
+    if (!(window as any).Panorama?.panoramaExists) {
+      throw new Error('Panorama SDK is not available');
+    }
+
+    // The SDK call cannot be cancelled, so it keeps its scheduler slot until it answers -
+    // otherwise the in-flight limit would not hold. Only a stopped search frees the slot early.
+    const scheduled = mapyScheduler.schedule(() => {
+      onSent();
+      const apiPromise: Promise<IPanoramaExistsOutput> = (window as any).Panorama.panoramaExists({ lon, lat, apiKey, radius })
+        .catch((error: unknown) => {
+          // The SDK only surfaces the HTTP status in its error message
+          if (String(error).includes('429')) throw new RateLimitedError();
+          throw error;
+        });
+      if (!signal) return apiPromise;
+      return new Promise<IPanoramaExistsOutput>((resolve, reject) => {
+        const onAbort = () => {
+          const error = new Error('Aborted');
+          error.name = 'AbortError';
+          reject(error);
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+        apiPromise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+      });
+    }, priority, signal);
 
-  async function checkPanoramaExists(lon: number, lat: number, apiKey: string, radius: number = 150): Promise<IPanoramaExistsOutput | null> {
+    // 🚀 Cache real answers, even ones that came after the caller stopped waiting.
+    // 429s and network errors are transient and asked again next time.
+    scheduled.then(output => { panoramaCache.current[cacheKey] = output; }, () => {});
+    return scheduled;
+  }
+
+  // Quick existence check for interactive use: waits at most 300 ms once the request is
+  // sent and reads a timeout or failure as "no panorama"
+  async function checkPanoramaExists(
+    lon: number,
+    lat: number,
+    apiKey: string,
+    radius: number = 150,
+    priority: RequestPriority = 'background',
+    signal?: AbortSignal
+  ): Promise<IPanoramaExistsOutput | null> {
     // Quick validation without logging
     if (typeof lon !== 'number' || isNaN(lon) || typeof lat !== 'number' || isNaN(lat) || !apiKey) {
       return null;
     }
 
-    // 🚀 Check cache first
-    const cacheKey = `${lon.toFixed(6)},${lat.toFixed(6)},${radius}`;
-    if (cacheKey in panoramaCache.current) {
-      return panoramaCache.current[cacheKey];
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let startTimeout = () => {};
+    const timeoutPromise = new Promise<null>(resolve => {
+      startTimeout = () => { timer = setTimeout(() => resolve(null), 300); };
+    });
+
+    try {
+      return await Promise.race([
+        requestPanoramaExists(lon, lat, apiKey, radius, priority, signal, () => startTimeout()),
+        timeoutPromise
+      ]);
+    } catch (e) {
+      // A stopped search never sent the request - nothing is known about the point
+      if (e instanceof Error && e.name === 'AbortError') throw e;
+      return null;
+    } finally {
+      clearTimeout(timer);
     }
+  }
+
+  // --- Targeting: aim the camera at a chosen building ---
+  const targetSourceRef = useRef<VectorSource | null>(null);
+  const [isTargetingMode, setIsTargetingMode] = useState(false);
+  const [targetedPanorama, setTargetedPanorama] = useState<{
+    panorama: PanoramaLocation;
+    view: Partial<PanoramaControlsState>;
+  } | null>(null);
+
+  // Attach a target to the nearest panorama result. A panorama already aimed at
+  // another building gets a copy of its result, so each target is analysed separately.
+  const assignTargetToResults = (results: AnalysisResult[], target: [number, number]) => {
+    const candidates = results.map(result => ({ lon: result.coordinates[0], lat: result.coordinates[1], result }));
+    const nearest = findNearestPanorama({ lon: target[0], lat: target[1] }, candidates);
+    if (!nearest) return null;
+
+    const { result } = nearest;
+    if (!result.target) {
+      // The result now stands for the building - its deal moves along
+      if (result.deal) {
+        persistDeal(dealPoint(result), undefined);
+        persistDeal(target, result.deal);
+      }
+      const updated: AnalysisResult = { ...result, target, address: undefined, cadastre: undefined, aiAnalysis: undefined, analysisStatus: 'pending' };
+      return { results: results.map(r => (r.id === result.id ? updated : r)), id: result.id };
+    }
+
+    const id = results.reduce((max, r) => Math.max(max, r.id), 0) + 1;
+    const copy: AnalysisResult = {
+      ...result,
+      id,
+      name: `${result.name} · cíl ${id}`,
+      target,
+      address: undefined,
+      cadastre: undefined,
+      deal: undefined,
+      aiAnalysis: undefined,
+      analysisStatus: 'pending'
+    };
+    return { results: [...results, copy], id };
+  };
+
+  const handleTargetClick = async (target: [number, number]) => {
+    const API_KEY = process.env.REACT_APP_MAPY_API_KEY || '';
+    const targetPoint = { lon: target[0], lat: target[1] };
+
+    // Prefer panoramas we already found, otherwise ask the SDK for the nearest one
+    let panorama: PanoramaLocation | null = findNearestPanorama(targetPoint, panoramaWithDates);
+    if (!panorama) {
+      const exists = await checkPanoramaExists(target[0], target[1], API_KEY, MAX_TARGET_DISTANCE_M, 'interactive');
+      if (exists?.exists && exists.info) {
+        panorama = { lon: exists.info.lon, lat: exists.info.lat, date: exists.info.date };
+      }
+    }
+
+    if (!panorama) {
+      alert(`V okruhu ${MAX_TARGET_DISTANCE_M} m od vybraného místa nebylo nalezeno žádné panorama.`);
+      return;
+    }
+
+    const view = aimViewAtTarget(panorama, targetPoint);
+    console.log(`🎯 Target [${target[1].toFixed(6)}, ${target[0].toFixed(6)}] → panorama [${panorama.lat.toFixed(6)}, ${panorama.lon.toFixed(6)}], yaw ${view.yaw}°, fov ${view.fov}°`);
+
+    const assigned = assignTargetToResults(analysisResults, target);
+    if (assigned) {
+      setAnalysisResults(assigned.results);
+      setSelectedForAnalysis(prev => new Set(prev).add(assigned.id));
+    }
+
+    setTargetedPanorama({ panorama, view });
+  };
+
+  // The map click handler is registered once in initMap - route through refs
+  const isTargetingModeRef = useRef(false);
+  const handleTargetClickRef = useRef(handleTargetClick);
+  isTargetingModeRef.current = isTargetingMode;
+  handleTargetClickRef.current = handleTargetClick;
+
+  // Batch targeting: one target per line, "lat, lon" or an address
+  const handleImportTargets = async () => {
+    if (analysisResults.length === 0) {
+      alert('Nejprve vyhledejte panoramata v oblasti.');
+      return;
+    }
+
+    const input = prompt('Zadejte cíle oddělené středníkem - souřadnice "lat, lon" nebo adresy:');
+    if (!input) return;
+
+    const lines = input.split(/[;\n]/).map(line => line.trim()).filter(Boolean);
+    const resolved = await resolveTargets(lines, process.env.REACT_APP_MAPY_API_KEY || '');
+
+    let results = analysisResults;
+    const assignedIds: number[] = [];
+    const unassigned: string[] = [];
+    resolved.forEach(({ input: line, target }) => {
+      const assigned = target ? assignTargetToResults(results, [target.lon, target.lat]) : null;
+      if (assigned) {
+        results = assigned.results;
+        assignedIds.push(assigned.id);
+      } else {
+        unassigned.push(line);
+      }
+    });
+
+    setAnalysisResults(results);
+    setSelectedForAnalysis(prev => {
+      const next = new Set(prev);
+      assignedIds.forEach(id => next.add(id));
+      return next;
+    });
+    setShowAnalysisPanel(true);
+
+    alert(`Přiřazeno cílů: ${assignedIds.length}/${lines.length}` +
+      (unassigned.length > 0 ? `\nBez panoramatu v okruhu ${MAX_TARGET_DISTANCE_M} m: ${unassigned.join(', ')}` : ''));
+  };
+
+  // Keep target markers in sync with the results they belong to
+  useEffect(() => {
+    const targetSource = targetSourceRef.current;
+    if (!targetSource) return;
+
+    targetSource.clear();
+    const features = analysisResults
+      .filter(result => result.target)
+      .map(result => new Feature({
+        geometry: new Point(fromLonLat(result.target!)),
+        name: resultDisplayName(result),
+        type: 'target'
+      }));
+    if (features.length > 0) {
+      targetSource.addFeatures(features);
+    }
+  }, [analysisResults]);
+
+  // --- Building footprints: results aggregated per building ---
+  const buildingSourceRef = useRef<VectorSource | null>(null);
+  const buildingFileInputRef = useRef<HTMLInputElement>(null);
+  const [buildings, setBuildings] = useState<BuildingFootprint[]>([]);
+
+  // Built from the filtered results, like the flat list and exports
+  const buildingResults = useMemo(
+    () => buildBuildingResults(buildings, filteredResults),
+    [buildings, filteredResults]
+  );
+
+  const handleImportBuildings = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
 
     try {
-      await ensurePanoramaSDK();
-      if (!(window as any).Panorama?.panoramaExists) {
-        return null;
+      const imported = parseBuildingGeoJson(await file.text());
+      if (imported.length === 0) {
+        alert('Soubor neobsahuje žádné polygony budov.');
+        return;
+      }
+      console.log(`🏢 Imported ${imported.length} building footprints from ${file.name}`);
+      setBuildings(imported);
+      setShowAnalysisPanel(true);
+
+      // Frame the imported area
+      const buildingSource = buildingSourceRef.current;
+      const map = mapInstanceRef.current;
+      if (buildingSource && map) {
+        buildingSource.once('change', () => {
+          map.getView().fit(buildingSource.getExtent(), { padding: [40, 40, 40, 40], maxZoom: 18, duration: 300 });
+        });
       }
+    } catch (error) {
+      console.error('Import budov selhal:', error);
+      alert(`Import budov selhal: ${(error as Error).message}`);
+    }
+  };
 
-      // 🚀 Add timeout to fail fast (300ms for instant results)
-      const timeoutPromise = new Promise<null>((_, reject) =>
-        setTimeout(() => reject(new Error('Timeout')), 300)
-      );
+  // Redraw footprints whenever their linked results change
+  useEffect(() => {
+    const buildingSource = buildingSourceRef.current;
+    if (!buildingSource) return;
+
+    buildingSource.clear();
+    const features = buildingResults.map(({ building, panoramaIds, aggregate }) => new Feature({
+      geometry: new Polygon(building.rings.map(ring => ring.map(coord => fromLonLat(coord)))),
+      name: building.name,
+      buildingId: building.id,
+      panoramaCount: panoramaIds.length,
+      potential: aggregate ? aggregate.potentialMax : null,
+      type: 'building'
+    }));
+    if (features.length > 0) {
+      buildingSource.addFeatures(features);
+    }
+  }, [buildingResults]);
 
-      const apiPromise = (window as any).Panorama.panoramaExists({ lon, lat, apiKey, radius });
+  // --- Opportunity map: heatmap and grid choropleth of analysed results ---
+  const heatmapLayerRef = useRef<HeatmapLayer | null>(null);
+  const gridLayerRef = useRef<VectorLayer<VectorSource> | null>(null);
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  const [showGrid, setShowGrid] = useState(false);
+  const [opportunityMetric, setOpportunityMetric] = useState<OpportunityMetric>('potencial_prodeje_skore');
+  const [gridCellSize, setGridCellSize] = useState(100);
 
-      const output = await Promise.race([apiPromise, timeoutPromise]) as IPanoramaExistsOutput;
+  useEffect(() => {
+    const heatmapLayer = heatmapLayerRef.current;
+    const gridLayer = gridLayerRef.current;
+    if (!heatmapLayer || !gridLayer) return;
+
+    heatmapLayer.setVisible(showHeatmap);
+    gridLayer.setVisible(showGrid);
+    if (!showHeatmap && !showGrid) return;
+
+    const points = opportunityPoints(analysisResults, opportunityMetric);
+
+    const heatmapSource = heatmapLayer.getSource();
+    heatmapSource?.clear();
+    if (showHeatmap && points.length > 0) {
+      heatmapSource?.addFeatures(points.map(point => new Feature({
+        geometry: new Point(fromLonLat(point.coordinates)),
+        weight: point.weight
+      })));
+    }
 
-      // 🚀 Cache the result
-      panoramaCache.current[cacheKey] = output;
-      return output;
-    } catch (e) {
-      // 🚀 Cache failed attempts too
-      panoramaCache.current[cacheKey] = null;
-      return null;
+    const gridSource = gridLayer.getSource();
+    gridSource?.clear();
+    if (showGrid && points.length > 0) {
+      gridSource?.addFeatures(aggregateGrid(points, gridCellSize).map(cell => {
+        const [minLon, minLat, maxLon, maxLat] = cell.bounds;
+        return new Feature({
+          geometry: new Polygon([[[minLon, minLat], [maxLon, minLat], [maxLon, maxLat], [minLon, maxLat], [minLon, minLat]].map(coord => fromLonLat(coord))]),
+          mean: cell.mean,
+          count: cell.count
+        });
+      }));
     }
-  }
+  }, [analysisResults, showHeatmap, showGrid, opportunityMetric, gridCellSize]);
 
-  const rateLimiter = (() => {
-    let last = 0;
-    return () => new Promise<void>(r => {
-      const now = Date.now();
-      const wait = Math.max(0, 200 - (now - last));
-      setTimeout(() => {
-        last = Date.now();
-        r();
-      }, wait);
+  // Push analysis state and the panel filter onto the panorama features so the marker
+  // style follows live results. Features are matched by coordinates - they are rebuilt
+  // from saved projects without ids.
+  useEffect(() => {
+    const source = panoramaLayer?.getSource();
+    if (!source) return;
+
+    const resultsByKey: Record<string, AnalysisResult> = {};
+    const matchingKeys = new Set<string>();
+    analysisResults.forEach(result => {
+      const key = `${result.coordinates[1].toFixed(6)}_${result.coordinates[0].toFixed(6)}`;
+      const existing = resultsByKey[key];
+      // Targeted clones share a panorama - show the best scored one
+      if (!existing || (potentialScore(result) ?? -1) > (potentialScore(existing) ?? -1)) {
+        resultsByKey[key] = result;
+      }
+      if (matchesFilter(result, analysisFilter)) {
+        matchingKeys.add(key);
+      }
+    });
+
+    let changed = false;
+    source.getFeatures().forEach(feature => {
+      const coordinates = feature.get('coordinates');
+      if (!coordinates) return;
+      const key = `${coordinates[1].toFixed(6)}_${coordinates[0].toFixed(6)}`;
+      const result = resultsByKey[key];
+      const analysisStatus = result?.analysisStatus || 'pending';
+      const score = result ? potentialScore(result) : null;
+      const filterState = !result || matchingKeys.has(key) ? 'match' : analysisFilter.mapMode;
+      // The click popup shows the address once it is known
+      const name = result ? resultDisplayName(result) : feature.get('name');
+      if (
+        feature.get('name') !== name ||
+        feature.get('analysisStatus') !== analysisStatus ||
+        feature.get('score') !== score ||
+        (feature.get('filterState') || 'match') !== filterState
+      ) {
+        // Silent - one change event for the whole batch instead of a re-cluster per feature
+        feature.setProperties({ name, analysisStatus, score, filterState }, true);
+        changed = true;
+      }
     });
-  })();
+    if (changed) {
+      source.changed();
+    }
+  }, [analysisResults, analysisFilter, panoramaLayer]);
+
+  // Street addresses for results that have none yet - of the target when the camera is
+  // aimed at a building, of the panorama spot otherwise. Keys stay in the set after a
+  // failed lookup so that it is not retried on every result update.
+  const addressLookupsRef = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    const points: [number, number][] = [];
+    analysisResults.forEach(result => {
+      const point = result.target || result.coordinates;
+      const key = addressKey(point);
+      if (result.address === undefined && !addressLookupsRef.current.has(key)) {
+        addressLookupsRef.current.add(key);
+        points.push(point);
+      }
+    });
+    if (points.length === 0) return;
+
+    reverseGeocode(points)
+      .then(addresses => {
+        const found: Record<string, PropertyAddress | null> = {};
+        points.forEach((point, i) => {
+          const key = addressKey(point);
+          found[key] = addresses[i];
+          addressLookupsRef.current.delete(key);
+        });
+        setAnalysisResults(prev => prev.map(result => {
+          const key = addressKey(result.target || result.coordinates);
+          return result.address === undefined && key in found ? { ...result, address: found[key] } : result;
+        }));
+      })
+      .catch(error => console.warn('⚠️ Address lookup failed:', error));
+  }, [analysisResults]);
+
+  // --- Deal pipeline: acquisition stage, notes and tags per result ---
+  const [dealStages, setDealStages] = useState<DealStage[]>(loadDealStages);
+  const [showDealPipeline, setShowDealPipeline] = useState(false);
+
+  const handleDealStagesChange = (stages: DealStage[]) => {
+    setDealStages(stages);
+    saveDealStages(stages);
+  };
+
+  // Deals live in their own store by property coordinates, so a new search, clearing the
+  // area or a reload does not lose them; they are attached to whichever results match
+  const [deals, setDeals] = useState<Record<string, DealRecord>>({});
+
+  useEffect(() => {
+    dealStore.listAll()
+      .then(stored => setDeals(prev => ({ ...stored, ...prev })))
+      .catch(error => console.warn('⚠️ Failed to load deals:', error));
+  }, []);
+
+  useEffect(() => {
+    const attached = attachDeals(analysisResults, deals);
+    if (attached !== analysisResults) setAnalysisResults(attached);
+  }, [analysisResults, deals]);
+
+  const persistDeal = (point: [number, number], deal: DealRecord | undefined) => {
+    const key = dealPointKey(point);
+    setDeals(prev => {
+      const { [key]: _previous, ...rest } = prev;
+      return deal ? { ...rest, [key]: deal } : rest;
+    });
+    (deal ? dealStore.save(point, deal) : dealStore.delete(point))
+      .catch(error => console.error('❌ Failed to save deal:', error));
+  };
+
+  const handleDealChange = (resultId: number, deal: DealRecord | undefined) => {
+    const result = analysisResults.find(r => r.id === resultId);
+    if (result) persistDeal(dealPoint(result), deal);
+  };
+
+  // Parcel under a result, looked up on demand from the expanded result card
+  const handleLookupCadastre = async (resultId: number) => {
+    const result = analysisResults.find(r => r.id === resultId);
+    if (!result) return;
+    try {
+      const [parcel] = await lookupCadastralParcels([resultPropertyPoint(result)]);
+      setAnalysisResults(prev => prev.map(r => (r.id === resultId ? { ...r, cadastre: parcel } : r)));
+    } catch (error) {
+      console.error('❌ Cadastre lookup failed:', error);
+      alert(`Údaje z katastru se nepodařilo načíst: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
 
   const seen = new Set<string>(); // globální deduplikace
   
@@ -289,192 +895,6 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
     }
   };
 
-  // 🚀 OPTIMIZED: Point-in-polygon test using ray casting algorithm
-  const pointInPolygon = (point: [number, number], polygon: [number, number][]): boolean => {
-    const [x, y] = point;
-    let inside = false;
-    
-    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
-      const [xi, yi] = polygon[i];
-      const [xj, yj] = polygon[j];
-      
-      if (((yi > y) !== (yj > y)) && (x < (xj - xi) * (y - yi) / (yj - yi) + xi)) {
-        inside = !inside;
-      }
-    }
-    
-    // 🔍 DEBUG: Log result for some tests
-    if (Math.random() < 0.1) {
-      console.log(`🔶 Point-in-polygon result: ${inside}`);
-    }
-    
-    return inside;
-  };
-
-  // Convert OpenLayers polygon to coordinate array - ENHANCED DEBUG VERSION
-  const polygonToCoords = (polygon: Polygon): [number, number][] => {
-    const coordinates = polygon.getCoordinates()[0]; // Get outer ring
-    console.log('🔄 Coordinate Transformation Debug:');
-    console.log('  📍 Raw polygon coordinates (projected):', coordinates.slice(0, 3), '... (showing first 3)');
-    
-    const lonLatCoords = coordinates.map((coord, index) => {
-      const lonLat = toLonLat(coord) as [number, number];
-      if (index < 3) { // Log first 3 coordinate transformations
-        console.log(`  🔄 Transform ${index + 1}: [${coord[0].toFixed(2)}, ${coord[1].toFixed(2)}] -> [${lonLat[1].toFixed(6)}, ${lonLat[0].toFixed(6)}] (lat,lon)`);
-      }
-      return lonLat;
-    });
-    
-    console.log(`  📍 Polygon bounds: ${lonLatCoords.length} vertices`);
-    const lons = lonLatCoords.map(c => c[0]);
-    const lats = lonLatCoords.map(c => c[1]);
-    console.log(`  📍 Lon range: ${Math.min(...lons).toFixed(6)} to ${Math.max(...lons).toFixed(6)}`);
-    console.log(`  📍 Lat range: ${Math.min(...lats).toFixed(6)} to ${Math.max(...lats).toFixed(6)}`);
-    
-    return lonLatCoords;
-  };
-
-  // Adaptive quadtree node class
-  class QuadTreeNode {
-    bounds: { minX: number; minY: number; maxX: number; maxY: number };
-    level: number;
-    children: QuadTreeNode[] | null = null;
-    points: { lon: number; lat: number; name: string }[] = [];
-    maxPoints = 4;
-    maxLevel = 6;
-
-    constructor(bounds: { minX: number; minY: number; maxX: number; maxY: number }, level = 0) {
-      this.bounds = bounds;
-      this.level = level;
-    }
-
-    subdivide() {
-      const { minX, minY, maxX, maxY } = this.bounds;
-      const midX = (minX + maxX) / 2;
-      const midY = (minY + maxY) / 2;
-
-      this.children = [
-        new QuadTreeNode({ minX, minY, maxX: midX, maxY: midY }, this.level + 1), // SW
-        new QuadTreeNode({ minX: midX, minY, maxX, maxY: midY }, this.level + 1), // SE
-        new QuadTreeNode({ minX, minY: midY, maxX: midX, maxY }, this.level + 1), // NW
-        new QuadTreeNode({ minX: midX, minY: midY, maxX, maxY }, this.level + 1)  // NE
-      ];
-    }
-
-    insert(point: { lon: number; lat: number; name: string }) {
-      const { lon, lat } = point;
-      
-      if (lon < this.bounds.minX || lon > this.bounds.maxX || 
-          lat < this.bounds.minY || lat > this.bounds.maxY) {
-        return false;
-      }
-
-      if (this.points.length < this.maxPoints && this.level < this.maxLevel) {
-        this.points.push(point);
-        return true;
-      }
-
-      if (this.children === null && this.level < this.maxLevel) {
-        this.subdivide();
-        
-        // Redistribute existing points
-        for (const existingPoint of this.points) {
-          for (const child of this.children!) {
-            if (child.insert(existingPoint)) break;
-          }
-        }
-        this.points = [];
-      }
-
-      if (this.children) {
-        for (const child of this.children) {
-          if (child.insert(point)) return true;
-        }
-      }
-
-      return false;
-    }
-
-    getTestPoints(): { lon: number; lat: number; name: string }[] {
-      let allPoints: { lon: number; lat: number; name: string }[] = [];
-      
-      if (this.children === null) {
-        // Leaf node - generate test points in this region
-        const { minX, minY, maxX, maxY } = this.bounds;
-        const density = Math.max(2, Math.min(6, 8 - this.level)); // Higher density for smaller regions
-        
-        for (let i = 0; i < density; i++) {
-          for (let j = 0; j < density; j++) {
-            const lon = minX + (maxX - minX) * (i + 0.5) / density;
-            const lat = minY + (maxY - minY) * (j + 0.5) / density;
-            allPoints.push({ 
-              lon, 
-              lat, 
-              name: `L${this.level}_${i}_${j}` 
-            });
-          }
-        }
-      } else {
-        // Internal node - collect from children
-        for (const child of this.children) {
-          allPoints = allPoints.concat(child.getTestPoints());
-        }
-      }
-      
-      return allPoints;
-    }
-  }
-
-  // Generate a comprehensive grid of points inside polygon with fixed spacing
-  const generateComprehensivePointsInPolygon = (
-    polygonCoords: [number, number][],
-    west: number,
-    south: number,
-    east: number,
-    north: number,
-    spacingMeters: number = 15,
-    maxPoints: number = 3000
-  ): Array<{ lon: number; lat: number }> => {
-    const centerLat = (south + north) / 2;
-    const metersPerDegLat = 111_000;
-    const metersPerDegLon = 111_000 * Math.cos(centerLat * Math.PI / 180);
-
-    // Calculate polygon area for adaptive density
-    const widthMeters = Math.max(1, (east - west) * metersPerDegLon);
-    const heightMeters = Math.max(1, (north - south) * metersPerDegLat);
-    const areaMeters2 = widthMeters * heightMeters;
-    
-    const stepLon = spacingMeters / metersPerDegLon;
-    const stepLat = spacingMeters / metersPerDegLat;
-
-    console.log(`🔍 Generating comprehensive grid with ${spacingMeters}m spacing`);
-    console.log(`🔍 Grid steps: lon=${stepLon.toFixed(6)}, lat=${stepLat.toFixed(6)}`);
-
-    const grid: Array<{ lon: number; lat: number }> = [];
-    let totalTested = 0;
-    let totalInside = 0;
-
-    // Generate grid points with point-in-polygon validation
-    for (let lat = south + stepLat / 2; lat <= north; lat += stepLat) {
-      for (let lon = west + stepLon / 2; lon <= east; lon += stepLon) {
-        totalTested++;
-        if (pointInPolygon([lon, lat], polygonCoords)) {
-          totalInside++;
-          grid.push({ lon, lat });
-          if (grid.length >= maxPoints) {
-            console.warn(`⚠️ Grid capped at ${maxPoints} points to protect performance`);
-            return grid;
-          }
-        }
-      }
-    }
-
-    console.log(`🔍 Grid generation complete: ${totalTested} points tested, ${totalInside} inside polygon`);
-    console.log(`🔍 Final grid size: ${grid.length} points`);
-
-    return grid;
-  };
-
   // Add global error handler to catch JavaScript errors
   useEffect(() => {
     const handleError = (event: ErrorEvent) => {
@@ -536,7 +956,7 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
         const testUrl = mapUrl.replace('{z}', '10').replace('{x}', '550').replace('{y}', '350');
         console.log('Testing tile URL:', testUrl);
         
-        fetch(testUrl, { method: 'HEAD' })
+        mapyScheduler.fetch(testUrl, { method: 'HEAD' }, 'normal')
           .then(response => {
             console.log('Tile test response:', response.status, response.statusText);
             if (response.ok) {
@@ -553,25 +973,119 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
         const vectorSource = new VectorSource();
         vectorSourceRef.current = vectorSource;
 
+        // Oblasti hledání modře, vyloučené zóny červeně čárkovaně
+        const searchAreaStyle = new Style({
+          fill: new Fill({
+            color: 'rgba(0, 212, 255, 0.2)', // Electric blue s průhledností
+          }),
+          stroke: new Stroke({
+            color: '#00D4FF', // Electric blue
+            width: 2,
+          }),
+        });
+        const exclusionZoneStyle = new Style({
+          fill: new Fill({
+            color: 'rgba(239, 68, 68, 0.25)',
+          }),
+          stroke: new Stroke({
+            color: '#EF4444',
+            width: 2,
+            lineDash: [8, 6],
+          }),
+        });
+        // Koridor ulice - čára a pod ní průsvitný pás v šířce koridoru
+        const corridorLineStyle = new Style({
+          stroke: new Stroke({
+            color: '#FACC15',
+            width: 3,
+          }),
+        });
         const vectorLayer = new VectorLayer({
           source: vectorSource,
+          style: (feature, resolution) => {
+            const role = feature.get('role');
+            if (role === 'corridor') {
+              const geometry = feature.getGeometry() as LineString;
+              const lat = toLonLat(geometry.getFirstCoordinate())[1];
+              // Web Mercator metres are stretched by 1/cos(lat)
+              const widthPx = feature.get('widthM') / (resolution * Math.cos((lat * Math.PI) / 180));
+              return [
+                new Style({ stroke: new Stroke({ color: 'rgba(250, 204, 21, 0.2)', width: widthPx }) }),
+                corridorLineStyle
+              ];
+            }
+            return role === 'exclude' ? exclusionZoneStyle : searchAreaStyle;
+          },
+        });
+        vectorLayerRef.current = vectorLayer;
+
+        // Layer s půdorysy budov - barva podle nejlepšího skóre potenciálu
+        const buildingSource = new VectorSource();
+        buildingSourceRef.current = buildingSource;
+        const buildingLayer = new VectorLayer({
+          source: buildingSource,
+          zIndex: 800,
+          style: (feature) => {
+            const potential = feature.get('potential') as number | null;
+            const linked = (feature.get('panoramaCount') as number) > 0;
+            const fill = potential === null
+              ? (linked ? 'rgba(156, 163, 175, 0.35)' : 'rgba(75, 85, 99, 0.2)')
+              : potential >= 70 ? 'rgba(34, 197, 94, 0.5)'
+              : potential >= 40 ? 'rgba(250, 204, 21, 0.45)'
+              : 'rgba(239, 68, 68, 0.4)';
+            return new Style({
+              fill: new Fill({ color: fill }),
+              stroke: new Stroke({ color: linked ? '#e5e7eb' : '#6b7280', width: 1 }),
+            });
+          },
+        });
+
+        // Mapa příležitostí - heatmapa vážená skóre a mřížka s průměrem na buňku
+        const heatmapLayer = new HeatmapLayer({
+          source: new VectorSource(),
+          zIndex: 850,
+          visible: false,
+          weight: 'weight',
+          radius: 18,
+          blur: 24,
+        });
+        heatmapLayerRef.current = heatmapLayer;
+        const gridLayer = new VectorLayer({
+          source: new VectorSource(),
+          zIndex: 820,
+          visible: false,
+          style: (feature) => {
+            const color = scoreColor((feature.get('mean') as number) * 100);
+            return new Style({
+              fill: new Fill({ color: `${color}80` }),
+              stroke: new Stroke({ color: `${color}cc`, width: 1 }),
+            });
+          },
+        });
+        gridLayerRef.current = gridLayer;
+
+        // Layer s cílovými budovami, na které míří kamera
+        const targetSource = new VectorSource();
+        targetSourceRef.current = targetSource;
+        const targetLayer = new VectorLayer({
+          source: targetSource,
+          zIndex: 3100,
           style: new Style({
-            fill: new Fill({
-              color: 'rgba(0, 212, 255, 0.2)', // Electric blue s průhledností
-            }),
-            stroke: new Stroke({
-              color: '#00D4FF', // Electric blue
-              width: 2,
+            image: new CircleStyle({
+              radius: 7,
+              fill: new Fill({ color: 'rgba(250, 204, 21, 1.0)' }),
+              stroke: new Stroke({ color: '#111827', width: 2 }),
             }),
           }),
         });
-        vectorLayerRef.current = vectorLayer;
 
         // Vytvoření layer pro panorama body - ZOOM-INDEPENDENT VISIBILITY VERSION
         const panoramaSource = new VectorSource();
         
-        // Dynamic style function that adapts to zoom level
-        const createPanoramaStyle = (feature: any, resolution: number) => {
+        // Dynamic style function: size from zoom level, colour from the analysis state.
+        // analysisStatus/score are synced onto the features as results arrive.
+        const panoramaStyleCache: Record<string, Style> = {};
+        const createPanoramaStyle = (feature: FeatureLike, resolution: number) => {
           // Calculate zoom level from resolution
           const zoom = Math.round(Math.log2(156543.04 / resolution));
           
@@ -584,25 +1098,49 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
           } else {
             radius = 16; // Larger at high zoom for detail
           }
-          
-          return new Style({
-            image: new CircleStyle({
-              radius: radius,
-              fill: new Fill({ color: 'rgba(255, 0, 0, 1.0)' }), // FULL OPACITY RED
-              stroke: new Stroke({ 
-                color: '#ffffff', 
-                width: 3, // Consistent border width
-                lineDash: undefined
+
+          // Filtered out in the analysis panel
+          const filterState = feature.get('filterState') || 'match';
+          if (filterState === 'hide') {
+            return undefined;
+          }
+
+          const status: AnalysisStatus = feature.get('analysisStatus') || 'pending';
+          const score: number | null = feature.get('score') ?? null;
+          const isTopCandidate = score !== null && score >= TOP_CANDIDATE_SCORE;
+          if (isTopCandidate) {
+            radius = Math.round(radius * 1.4);
+          }
+
+          const fillColor = status === 'completed' && score !== null
+            ? scoreColor(score)
+            : STATUS_MARKER_COLORS[status === 'completed' ? 'pending' : status];
+          const dimmed = filterState === 'dim';
+          const cacheKey = `${status}_${fillColor}_${radius}_${dimmed}`;
+
+          if (!panoramaStyleCache[cacheKey]) {
+            panoramaStyleCache[cacheKey] = new Style({
+              image: new CircleStyle({
+                radius: radius,
+                fill: new Fill({ color: dimmed ? `${fillColor}40` : fillColor }),
+                stroke: new Stroke({
+                  color: dimmed ? 'rgba(255, 255, 255, 0.25)' : status === 'failed' ? '#ef4444' : '#ffffff',
+                  width: 3, // Consistent border width
+                  lineDash: status === 'analyzing' ? [4, 3] : undefined
+                }),
               }),
-            }),
-          });
+              // Best candidates are drawn on top of overlapping markers
+              zIndex: dimmed ? -2 : score ?? -1,
+            });
+          }
+          return panoramaStyleCache[cacheKey];
         };
         
         const panoramaVectorLayer = new VectorLayer({
           source: panoramaSource,
           visible: true, // EXPLICITLY VISIBLE
           zIndex: 3000, // MAXIMUM Z-INDEX to ensure visibility above everything
-          minZoom: 0,  // ALWAYS VISIBLE - no minimum zoom constraint
+          minZoom: PANORAMA_CLUSTER_MAX_ZOOM, // Below street zoom the cluster layer takes over
           maxZoom: 30, // ALWAYS VISIBLE - no maximum zoom constraint
           renderBuffer: 1000, // Large render buffer to prevent culling
           updateWhileAnimating: true, // Keep updating during zoom animations
@@ -611,6 +1149,56 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
           declutter: false, // Never declutter/hide overlapping features
         });
         
+        // Clusters of the same features for city zoom levels - bubble shows the count
+        // and the best score inside; a single-feature cluster looks like a normal marker
+        const clusterStyleCache: Record<string, Style> = {};
+        const createClusterStyle = (feature: FeatureLike, resolution: number) => {
+          const members: Feature<Point>[] = feature.get('features');
+          if (members.length === 1) {
+            return createPanoramaStyle(members[0], resolution);
+          }
+
+          let best: number | null = null;
+          members.forEach(member => {
+            const score = member.get('score');
+            if (typeof score === 'number' && member.get('filterState') !== 'dim' && (best === null || score > best)) {
+              best = score;
+            }
+          });
+
+          const radius = Math.min(32, Math.round(14 + Math.log2(members.length) * 3));
+          const cacheKey = `${members.length}_${best}`;
+          if (!clusterStyleCache[cacheKey]) {
+            clusterStyleCache[cacheKey] = new Style({
+              image: new CircleStyle({
+                radius,
+                fill: new Fill({ color: best !== null ? scoreColor(best) : STATUS_MARKER_COLORS.pending }),
+                stroke: new Stroke({ color: '#ffffff', width: 3 }),
+              }),
+              text: new Text({
+                text: best !== null ? `${members.length}\n★${best}` : String(members.length),
+                font: 'bold 11px sans-serif',
+                fill: new Fill({ color: '#111827' }),
+              }),
+              zIndex: best ?? -1,
+            });
+          }
+          return clusterStyleCache[cacheKey];
+        };
+
+        const panoramaClusterLayer = new VectorLayer({
+          source: new Cluster({
+            source: panoramaSource,
+            distance: PANORAMA_CLUSTER_DISTANCE_PX,
+            // Markers hidden by the panel filter are left out of the clusters
+            geometryFunction: (feature) =>
+              feature.get('filterState') === 'hide' ? null : (feature.getGeometry() as Point),
+          }),
+          zIndex: 3000,
+          maxZoom: PANORAMA_CLUSTER_MAX_ZOOM,
+          style: createClusterStyle,
+        });
+
         // 🔍 LAYER DEBUG INFO
         console.log('🔴 Panorama Layer Creation Debug:');
         console.log('  📶 Layer visible:', panoramaVectorLayer.getVisible());
@@ -667,9 +1255,14 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
           target: mapRef.current,
           layers: [
             tileLayer,           // Base map tiles (z-index: default)
+            buildingLayer,       // Building footprints (z-index: 800)
+            gridLayer,           // Opportunity grid (z-index: 820)
+            heatmapLayer,        // Opportunity heatmap (z-index: 850)
             globalPanoLayer,     // Global panorama layer (z-index: 900)
             vectorLayer,         // Polygon drawing layer (z-index: default)
-            panoramaVectorLayer  // Local panorama layer (z-index: 3000) - HIGHEST PRIORITY
+            panoramaVectorLayer, // Local panorama layer (z-index: 3000)
+            panoramaClusterLayer, // Its clusters below street zoom (z-index: 3000)
+            targetLayer          // Targeted buildings (z-index: 3100)
           ],
           interactions: interactions, // Používáme naše optimalizované interakce
           view: new View({
@@ -717,8 +1310,8 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
         });
 
         // Vytvoření Draw interakce pro kreslení polygonů
+        // Bez source - drawend rozhodne, zda je polygon oblast, díra nebo vyloučená zóna
         const drawInteraction = new Draw({
-          source: vectorSource,
           type: 'Polygon',
           // Standardní chování: kliknutí na první bod pro uzavření, double-click kdekoli pro ukončení
           style: new Style({
@@ -734,6 +1327,19 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
         });
         drawInteractionRef.current = drawInteraction;
 
+        // Draw interakce pro koridor ulice (polyline, double-click ukončí)
+        const lineDrawInteraction = new Draw({
+          type: 'LineString',
+          style: new Style({
+            stroke: new Stroke({
+              color: '#FACC15',
+              width: 3,
+              lineDash: [5, 5],
+            }),
+          }),
+        });
+        lineDrawInteractionRef.current = lineDrawInteraction;
+
         // Vytvoření Modify interakce pro úpravu polygonů
         const modifyInteraction = new Modify({
           source: vectorSource,
@@ -745,9 +1351,32 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
 
         // Click handler pro panorama body - zobrazí info
         map.on('click', (event) => {
+          // Targeting mode - the click marks the building to aim the camera at
+          if (isTargetingModeRef.current) {
+            handleTargetClickRef.current(toLonLat(event.coordinate) as [number, number]);
+            return;
+          }
+
           const features = map.getFeaturesAtPixel(event.pixel);
           if (features && features.length > 0) {
-            const feature = features[0];
+            let feature = features[0];
+
+            // Cluster bubble - zoom in until it dissolves
+            const members = feature.get('features') as Feature[] | undefined;
+            if (members && members.length > 1) {
+              const extent = boundingExtent(members.map(member => (member.getGeometry() as Point).getCoordinates()));
+              const view = map.getView();
+              if (extent[0] === extent[2] && extent[1] === extent[3]) {
+                view.animate({ center: extent.slice(0, 2), zoom: PANORAMA_CLUSTER_MAX_ZOOM + 1, duration: 300 });
+              } else {
+                view.fit(extent, { padding: [60, 60, 60, 60], duration: 300 });
+              }
+              return;
+            }
+            if (members) {
+              feature = members[0];
+            }
+
             const name = feature.get('name');
             const coords = feature.get('coordinates');
             const date = feature.get('date');
@@ -769,64 +1398,16 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
         });
 
         // Event listener pro dokončení kreslení
-        drawInteraction.on('drawend', async (event) => {
-          console.log('🎯 DRAW ENDED - AUTOMATIC PANORAMA SEARCH STARTING!');
-          console.log('Event:', event);
-          console.log('Setting hasPolygon to TRUE');
-          setHasPolygon(true);
+        drawInteraction.on('drawend', (event) => {
           setIsDrawingMode(false);
           map.removeInteraction(drawInteraction);
-          
-          // Ihned po dokončení polygonu začneme hledat panorama body
-          const polygon = event.feature.getGeometry() as Polygon;
-          console.log('🚀 STARTING AUTOMATIC PANORAMA SEARCH FOR NEW POLYGON...');
-          console.log('Polygon:', polygon);
-          console.log('Polygon extent:', polygon.getExtent());
-          
-          // POČKÁME na inicializaci panorama layer
-          console.log('⏳ Waiting for panorama layer to be ready...');
-          let attempts = 0;
-          const maxAttempts = 50; // 5 sekund max
-          
-          while (!panoramaLayer && attempts < maxAttempts) {
-            await new Promise(resolve => setTimeout(resolve, 100));
-            attempts++;
-            console.log(`⏳ Attempt ${attempts}/${maxAttempts} - panoramaLayer: ${!!panoramaLayer}`);
-          }
-          
-          if (!panoramaLayer) {
-            console.error('❌ Panorama layer not ready after waiting - using fallback');
-            // Fallback: použijeme přímo panoramaVectorLayer z aktuálního scope
-            const fallbackSource = panoramaVectorLayer.getSource();
-            if (fallbackSource) {
-              console.log('✅ Using fallback panorama source');
-              // Dočasně nastavíme panoramaLayer pro findPanoramas
-              const originalPanoramaLayer = panoramaLayer;
-              setPanoramaLayer(panoramaVectorLayer);
-              // Počkáme na state update
-              await new Promise(resolve => setTimeout(resolve, 50));
-              try {
-                await findPanoramas(polygon);
-                console.log('✅ Automatic panorama search completed successfully with fallback!');
-              } catch (error) {
-                console.error('❌ Error in automatic panorama search with fallback:', error);
-              } finally {
-                // Obnovíme původní state
-                setPanoramaLayer(originalPanoramaLayer);
-              }
-            } else {
-              console.error('❌ Fallback panorama source also not available');
-            }
-          } else {
-            console.log('✅ Panorama layer is ready, proceeding with search');
-            // GARANTUJEME spuštění
-            try {
-              await findPanoramas(polygon);
-              console.log('✅ Automatic panorama search completed successfully!');
-            } catch (error) {
-              console.error('❌ Error in automatic panorama search:', error);
-            }
-          }
+          handleDrawEndRef.current(event.feature as Feature<Polygon>);
+        });
+
+        lineDrawInteraction.on('drawend', (event) => {
+          setIsDrawingCorridor(false);
+          map.removeInteraction(lineDrawInteraction);
+          handleCorridorDrawEndRef.current(event.feature as Feature<LineString>);
         });
 
         // Debug event listenery
@@ -942,53 +1523,287 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
     };
   }, []); // Prázdná dependency array je správná - chceme inicializovat mapu jen jednou
 
-  const handleDrawArea = () => {
-    console.log('handleDrawArea called');
-    console.log('mapInstanceRef.current:', mapInstanceRef.current);
-    console.log('drawInteractionRef.current:', drawInteractionRef.current);
-    console.log('isDrawingMode:', isDrawingMode);
-    
-    if (!mapInstanceRef.current || !drawInteractionRef.current) {
-      console.log('Missing map or draw interaction!');
-      return;
-    }
-    
-    const map = mapInstanceRef.current;
-    const drawInteraction = drawInteractionRef.current;
-    
-    if (isDrawingMode) {
-      // Vypnout drawing mode
-      console.log('Turning OFF drawing mode');
-      map.removeInteraction(drawInteraction);
-      setIsDrawingMode(false);
-    } else {
-      // Zapnout drawing mode
-      console.log('Turning ON drawing mode');
-      
-      // Nejprve vyčistíme existující polygony a panorama body
-      if (vectorSourceRef.current) {
-        vectorSourceRef.current.clear();
-        setHasPolygon(false);
+  const handleDrawArea = (mode: SearchAreaDrawMode = 'include') => {
+    if (!mapInstanceRef.current || !drawInteractionRef.current) {
+      console.log('Missing map or draw interaction!');
+      return;
+    }
+    
+    const map = mapInstanceRef.current;
+    const drawInteraction = drawInteractionRef.current;
+    
+    if (isDrawingMode) {
+      // Vypnout drawing mode (i při přepnutí na jiný druh polygonu)
+      map.removeInteraction(drawInteraction);
+      setIsDrawingMode(false);
+      if (mode === drawMode) return;
+    }
+    if (isDrawingCorridor && lineDrawInteractionRef.current) {
+      map.removeInteraction(lineDrawInteractionRef.current);
+      setIsDrawingCorridor(false);
+    }
+
+    if (mode === 'hole' && getSearchAreas().every(area => area.role !== 'include')) {
+      alert('Nejprve vymezte oblast, do které chcete díru vyříznout.');
+      return;
+    }
+
+    // Existing areas stay - every new polygon extends, cuts or excludes
+    console.log(`Turning ON drawing mode (${mode})`);
+    setDrawMode(mode);
+    map.addInteraction(drawInteraction);
+    setIsDrawingMode(true);
+  };
+
+  // Remove all search areas, exclusion zones and the panoramas found in them
+  const handleClearAreas = () => {
+    vectorSourceRef.current?.clear();
+    setHasPolygon(false);
+    setDiscoveryStats(null);
+    panoramaLayer?.getSource()?.clear();
+    seen.clear();
+    setPanoramaLocations([]);
+    setPanoramaWithDates([]);
+    setAnalysisResults([]);
+    setSelectedForAnalysis(new Set());
+  };
+
+  // A finished polygon becomes a search area, an exclusion zone or a hole in the
+  // search area it lies in; the search then re-runs over the whole union
+  const handleDrawEnd = (feature: Feature<Polygon>) => {
+    const vectorSource = vectorSourceRef.current;
+    const geometry = feature.getGeometry();
+    if (!vectorSource || !geometry) return;
+
+    // Areas replace a previous corridor search
+    removeCorridorFeatures();
+
+    if (drawMode === 'hole') {
+      const hole = geometry.getCoordinates()[0].map(coord => toLonLat(coord) as [number, number]);
+      const areaFeatures = vectorSource.getFeatures();
+      const index = findAreaForHole(hole, areaFeatures.map(featureToSearchArea));
+      if (index === -1) {
+        alert('Díra musí ležet celá uvnitř jedné oblasti hledání.');
+        return;
+      }
+      (areaFeatures[index].getGeometry() as Polygon).appendLinearRing(new LinearRing(geometry.getCoordinates()[0]));
+      areaFeatures[index].changed();
+    } else {
+      feature.set('role', drawMode);
+      vectorSource.addFeature(feature);
+    }
+    setHasPolygon(true);
+
+    const areas = getSearchAreas();
+    if (areas.some(area => area.role === 'include')) {
+      findPanoramas(areas).catch(error => console.error('❌ Error in automatic panorama search:', error));
+    }
+  };
+
+  // drawend is registered once in initMap - route through a ref
+  const handleDrawEndRef = useRef(handleDrawEnd);
+  handleDrawEndRef.current = handleDrawEnd;
+
+  const removeCorridorFeatures = () => {
+    const vectorSource = vectorSourceRef.current;
+    vectorSource?.getFeatures()
+      .filter(feature => feature.get('role') === 'corridor')
+      .forEach(feature => vectorSource.removeFeature(feature));
+  };
+
+  const handleDrawCorridor = () => {
+    const map = mapInstanceRef.current;
+    const lineDrawInteraction = lineDrawInteractionRef.current;
+    if (!map || !lineDrawInteraction) return;
+
+    if (isDrawingCorridor) {
+      map.removeInteraction(lineDrawInteraction);
+      setIsDrawingCorridor(false);
+      return;
+    }
+    if (isDrawingMode && drawInteractionRef.current) {
+      map.removeInteraction(drawInteractionRef.current);
+      setIsDrawingMode(false);
+    }
+
+    console.log('🛣️ Turning ON corridor drawing mode');
+    map.addInteraction(lineDrawInteraction);
+    setIsDrawingCorridor(true);
+  };
+
+  // A finished street line replaces the search areas - the corridor is searched on its own
+  const handleCorridorDrawEnd = (feature: Feature<LineString>) => {
+    const vectorSource = vectorSourceRef.current;
+    const geometry = feature.getGeometry();
+    if (!vectorSource || !geometry) return;
+
+    const corridor: StreetCorridor = {
+      line: geometry.getCoordinates().map(coord => toLonLat(coord) as [number, number]),
+      ...corridorSettings
+    };
+    if (corridor.line.length < 2) return;
+
+    vectorSource.clear();
+    feature.setProperties({ role: 'corridor', intervalM: corridor.intervalM, widthM: corridor.widthM });
+    vectorSource.addFeature(feature);
+    setHasPolygon(true);
+
+    findCorridorPanoramas(corridor).catch(error => console.error('❌ Error in corridor panorama search:', error));
+  };
+
+  const handleCorridorDrawEndRef = useRef(handleCorridorDrawEnd);
+  handleCorridorDrawEndRef.current = handleCorridorDrawEnd;
+
+  // Panoramas along a street line: existence checks at every station within the corridor,
+  // results numbered by distance along the line and looking at both street sides
+  async function findCorridorPanoramas(corridor: StreetCorridor) {
+    const source = panoramaLayer?.getSource();
+    if (!source) {
+      console.error('❌ Panorama layer source not available');
+      return;
+    }
+
+    const API_KEY = process.env.REACT_APP_MAPY_API_KEY;
+    if (!API_KEY) {
+      alert('Panorama detection requires REACT_APP_MAPY_API_KEY. Please set it in .env.local and restart the app.');
+      return;
+    }
+
+    source.clear();
+    seen.clear();
+    setPanoramaLocations([]);
+    setPanoramaWithDates([]);
+    setAnalysisResults([]);
+    setDiscoveryStats(null);
+    const signal = startSearch();
+    setIsAnalyzing(true);
+    setAnalysisProgress(10);
+
+    try {
+      const samples = sampleCorridor(corridor.line, corridor.intervalM, corridor.widthM).slice(0, 4000);
+      console.log(`🛣️ Corridor search: ${samples.length} test points, every ${corridor.intervalM} m, ${corridor.widthM} m wide`);
+      setAnalysisProgress(30);
+
+      // The lookup radius bridges the gap between stations and reaches the corridor edge
+      const searchRadius = Math.max(corridor.intervalM, corridor.widthM / 2);
+      const checks = await Promise.allSettled(
+        samples.map(sample => checkPanoramaExists(sample.lon, sample.lat, API_KEY, searchRadius, 'background', signal))
+      );
+      if (!isCurrentSearch(signal)) return;
+      setAnalysisProgress(70);
+
+      const candidates: { lon: number; lat: number; info: NonNullable<IPanoramaExistsOutput['info']>; along: number; bearing: number }[] = [];
+      checks.forEach(check => {
+        if (check.status !== 'fulfilled' || !check.value?.exists || !check.value.info) return;
+        const info = check.value.info;
+
+        const key = `${info.lat.toFixed(6)}_${info.lon.toFixed(6)}`;
+        if (seen.has(key)) return;
+
+        const position = locateOnLine([info.lon, info.lat], corridor.line);
+        if (!position || position.offset > corridor.widthM / 2) return;
+
+        seen.add(key);
+        candidates.push({ lon: info.lon, lat: info.lat, info, along: position.along, bearing: position.bearing });
+      });
+
+      // Same ~10 m spatial deduplication as the area search
+      const found = await filterPanoramas(candidates, null, PANORAMA_DEDUP_DISTANCE_M);
+      if (!isCurrentSearch(signal)) return;
+
+      found.sort((a, b) => a.along - b.along);
+
+      const newResults: AnalysisResult[] = found.map(({ info, along, bearing }, index) => ({
+        id: index + 1,
+        name: `Panorama ${index + 1} (${Math.round(along)} m)`,
+        coordinates: [info.lon, info.lat],
+        condition: 'pending',
+        confidence: 0,
+        issues: ['Analysis pending...'],
+        recommendation: 'AI analysis will run in background',
+        estimatedValue: 0,
+        panoramaDate: info.date,
+        streetBearing: bearing,
+        corridorDistance: Math.round(along),
+        analysisStatus: 'pending'
+      }));
+
+      source.addFeatures(found.map(({ info }, index) => new Feature({
+        geometry: new Point(fromLonLat([info.lon, info.lat])),
+        name: newResults[index].name,
+        coordinates: [info.lon, info.lat],
+        date: info.date || '2024-01-01 12:00:00',
+        type: 'real-panorama',
+        panoramaInfo: info
+      })));
+
+      setPanoramaLocations(found.map(({ info }) => ({ lon: info.lon, lat: info.lat })));
+      setPanoramaWithDates(found.map(({ info }) => ({ lon: info.lon, lat: info.lat, date: info.date })));
+      setAnalysisResults(newResults);
+      if (newResults.length > 0) {
+        setShowAnalysisPanel(true);
       }
-      
-      if (panoramaLayer) {
-        panoramaLayer.getSource()?.clear();
-        setPanoramaLocations([]);
-    setPanoramaWithDates([]);
+
+      console.log(`🏁 Corridor search completed: ${found.length} panoramas along ${Math.round(found[found.length - 1]?.along || 0)} m`);
+      forceRenderPanoramaLayer();
+    } catch (error) {
+      if (!isCurrentSearch(signal)) return;
+      console.error('❌ Error in findCorridorPanoramas:', error);
+      setError('Failed to search for panoramas');
+      alert(`❌ Hledání podél ulice selhalo: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      if (isCurrentSearch(signal)) {
+        setIsAnalyzing(false);
+        setAnalysisProgress(100);
       }
-      
-      map.addInteraction(drawInteraction);
-      setIsDrawingMode(true);
-      console.log('Drawing mode activated');
     }
+  }
+
+  const startSearch = () => {
+    searchAbortRef.current?.abort();
+    const controller = new AbortController();
+    searchAbortRef.current = controller;
+    return controller.signal;
+  };
+
+  // A stopped search is still current and keeps what it found; one replaced by a newer
+  // search must not touch state or the checkpoint after its awaits
+  const isCurrentSearch = (signal: AbortSignal) => searchAbortRef.current?.signal === signal;
+
+  const handleStopSearch = () => {
+    console.log('⏹️ Stopping panorama search');
+    searchAbortRef.current?.abort();
   };
 
+  // Continue the interrupted scan: redraw its areas and probe only the cells left
+  const handleResumeSearch = () => {
+    const vectorSource = vectorSourceRef.current;
+    if (!searchCheckpoint || !vectorSource) return;
+
+    vectorSource.clear();
+    searchCheckpoint.areas.forEach(area => {
+      const polygon = new Polygon(area.rings.map(ring => ring.map(coord => fromLonLat(coord))));
+      vectorSource.addFeature(new Feature({ geometry: polygon, role: area.role }));
+    });
+    setHasPolygon(true);
+
+    const extent = vectorSource.getExtent();
+    mapInstanceRef.current?.getView().fit(extent, { padding: [60, 60, 60, 60], duration: 300 });
+
+    findPanoramas(searchCheckpoint.areas, searchCheckpoint)
+      .catch(error => console.error('❌ Error in resumed panorama search:', error));
+  };
 
+  const handleDiscardCheckpoint = () => {
+    clearSearchCheckpoint();
+    setSearchCheckpoint(null);
+  };
 
-  // Funkce findPanoramas() - ADAPTIVNÍ QUADTREE VYHLEDÁVÁNÍ
-  async function findPanoramas(poly: Polygon) {
+  // Funkce findPanoramas() - hledání ve sjednocení oblastí bez vyloučených zón.
+  // With `resume` the scan continues from a saved checkpoint instead of starting over.
+  async function findPanoramas(areas: SearchArea[], resume?: SearchCheckpoint) {
     console.log('🚀🚀🚀 ADAPTIVE QUADTREE PANORAMA SEARCH STARTED! 🚀🚀🚀');
-    console.log('Function called with polygon:', poly);
+    console.log(`Function called with ${areas.length} areas`);
     
     const source = panoramaLayer?.getSource();
     if (!source) {
@@ -1006,20 +1821,13 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
     setAnalysisResults([]);
     console.log('✅ Cleared previous panorama points');
     
+    const signal = startSearch();
     setIsAnalyzing(true);
     setAnalysisProgress(10);
     
     try {
-      // Získej hranice polygonu a převeď na souřadnice
-      const extent = poly.getExtent();
-      const [w, s] = toLonLat([extent[0], extent[1]]);
-      const [e, n] = toLonLat([extent[2], extent[3]]);
-      
-      console.log(`📐 Polygon bounds: W=${w.toFixed(6)} S=${s.toFixed(6)} E=${e.toFixed(6)} N=${n.toFixed(6)}`);
-      
-      // Převeď polygon na pole souřadnic pro point-in-polygon test
-      const polygonCoords = polygonToCoords(poly);
-      console.log(`🔷 Polygon has ${polygonCoords.length} vertices`);
+      const includeCount = areas.filter(area => area.role === 'include').length;
+      console.log(`🔷 ${includeCount} search areas, ${areas.length - includeCount} exclusion zones`);
       
       const API_KEY = process.env.REACT_APP_MAPY_API_KEY;
       if (!API_KEY) {
@@ -1032,17 +1840,6 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
       
       setAnalysisProgress(20);
       
-      // Comprehensive grid covering entire polygon area (fixed 15m spacing)
-      const gridPoints = generateComprehensivePointsInPolygon(
-        polygonCoords,
-        w, s, e, n,
-        15,
-        4000
-      );
-      
-      console.log(`🎯 Generated ${gridPoints.length} comprehensive test points covering entire polygon area`);
-      setAnalysisProgress(30);
-      
       let foundCount = 0;
       const newResults: any[] = [];
       const foundPanoramas: {lon: number, lat: number, info?: any}[] = [];
@@ -1050,50 +1847,71 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
       const allPanoramaWithDates: {lon: number, lat: number, date: string}[] = [];
       const allFeatures: Feature[] = []; // 🚀 Collect all features for batch add
 
-      console.log(`🎯 Testing ${gridPoints.length} comprehensive grid points for panoramas...`);
-      
-      // Test each point in the comprehensive grid for panorama existence
-      console.log(`🔍 Starting comprehensive panorama search with ${gridPoints.length} test points...`);
-
-      // 🚀 ULTRA-FAST: Process ALL points simultaneously - no batching!
-      const searchRadius = 25;
+      // Size of the equivalent brute-force grid, counted in the worker meanwhile
+      const gridCallsPromise = countSearchGrid(areas, GRID_SPACING_M).catch(() => 0);
 
-      console.log(`🚀 Processing ALL ${gridPoints.length} points at once...`);
-      setAnalysisProgress(40);
-
-      // Fire all requests at once
-      const allResults = await Promise.allSettled(
-        gridPoints.map((point, idx) =>
-          checkPanoramaExists(point.lon, point.lat, API_KEY, searchRadius)
-            .then(result => ({ point, result, index: idx }))
-        )
+      // Coarse-to-fine quadtree discovery - dense probing only where panoramas are
+      setAnalysisProgress(30);
+      const discovery = await discoverPanoramas(
+        areas,
+        // The full scheduled answer, not the 300 ms check - a slow or failed probe must stay
+        // unknown, or every panorama in a large cell would be lost
+        async (lon, lat, radius, probeSignal) => {
+          const output = await requestPanoramaExists(lon, lat, API_KEY, radius, 'background', probeSignal);
+          return output.exists && output.info ? output.info : null;
+        },
+        DEFAULT_DISCOVERY_OPTIONS,
+        {
+          signal,
+          resume: resume?.discovery,
+          // Root cells come from the worker and are probed as they arrive. The stream is not
+          // aborted with the search - cells arriving after Stop go to the checkpoint.
+          streamRootCells: onCells => streamDiscoveryCells(areas, DEFAULT_DISCOVERY_OPTIONS.rootCellM, onCells),
+          onLevel: (level, found, calls) => {
+            console.log(`🌳 Level ${level}: ${found} panoramas after ${calls} probes`);
+            setAnalysisProgress(Math.min(70, 30 + level * 8));
+          },
+          onCheckpoint: discovery => {
+            if (isCurrentSearch(signal)) saveSearchCheckpoint({ areas, discovery, updatedAt: new Date().toISOString() });
+          }
+        }
       );
+      const stats: DiscoveryStats = { ...discovery.stats, gridCalls: await gridCallsPromise };
+      if (!isCurrentSearch(signal)) return;
+      setDiscoveryStats(stats);
+
+      // A stopped scan, or one with cells whose probes kept failing, keeps its checkpoint
+      // for "Pokračovat"; a complete one drops it
+      if (discovery.aborted) {
+        console.log(`⏹️ Search stopped: ${discovery.panoramas.length} panoramas kept, ${discovery.checkpoint.pending.length} cells left`);
+        setSearchCheckpoint(loadSearchCheckpoint());
+      } else if (discovery.unresolved > 0) {
+        console.warn(`⚠️ ${discovery.unresolved} cells could not be checked - "Pokračovat" retries them`);
+        setSearchCheckpoint(loadSearchCheckpoint());
+      } else {
+        clearSearchCheckpoint();
+        setSearchCheckpoint(null);
+      }
 
-      console.log(`✅ All ${gridPoints.length} API calls completed!`);
+      console.log(`✅ Discovery finished: ${stats.calls} probes instead of ${stats.gridCalls} grid points`);
       setAnalysisProgress(70);
 
-      // Process all results
-      for (const promiseResult of allResults) {
-        if (promiseResult.status === 'rejected') continue;
+      // Area check (holes and exclusion zones included) and ~10 m proximity dedup in the worker
+      const candidates = await filterPanoramas(discovery.panoramas, areas, PANORAMA_DEDUP_DISTANCE_M);
+      if (!isCurrentSearch(signal)) return;
 
-        const { point, result: panoramaResult, index: i } = promiseResult.value;
+      // Process all results
+      for (const info of candidates) {
+        const panoramaResult = { exists: true, info };
 
           try {
 
-          // 🚀 OPTIMIZED: Quick validation without verbose logging
-          if (!panoramaResult?.exists || !panoramaResult.info) continue;
-
           const { lon, lat } = panoramaResult.info;
           if (typeof lon !== 'number' || typeof lat !== 'number' ||
               lon < -180 || lon > 180 || lat < -90 || lat > 90) continue;
 
           // Process valid panorama
           if (panoramaResult.exists && panoramaResult.info) {
-            // Quick polygon check
-            if (!pointInPolygon([panoramaResult.info.lon, panoramaResult.info.lat], polygonCoords)) {
-              continue;
-            }
-
             // Quick deduplication
             const key = `${panoramaResult.info.lat.toFixed(6)}_${panoramaResult.info.lon.toFixed(6)}`;
             if (seen.has(key)) continue;
@@ -1101,14 +1919,6 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
 
             foundCount++;
             
-            // Quick spatial deduplication
-            const isTooClose = foundPanoramas.some(existing => {
-              const dLon = panoramaResult.info!.lon - existing.lon;
-              const dLat = panoramaResult.info!.lat - existing.lat;
-              return (dLon * dLon + dLat * dLat) < 0.00000001; // ~10 meters
-            });
-            if (isTooClose) continue;
-            
             foundPanoramas.push({
               lon: panoramaResult.info.lon,
               lat: panoramaResult.info.lat,
@@ -1191,7 +2001,7 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
       // Enhanced completion logging
       console.log(`🏁🏁🏁 COMPREHENSIVE SEARCH COMPLETED! 🏁🏁🏁`);
       console.log(`📊 Search Statistics:`);
-      console.log(`  • Total grid points tested: ${gridPoints.length}`);
+      console.log(`  • Probes sent: ${stats.calls} (fixed grid: ${stats.gridCalls}, depth ${stats.depth})`);
       console.log(`  • Panoramas found: ${foundCount}`);
       console.log(`  • Unique panoramas after deduplication: ${foundPanoramas.length}`);
       console.log(`  • Analysis results: ${newResults.length}`);
@@ -1241,6 +2051,7 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
       }
       
     } catch (error) {
+      if (!isCurrentSearch(signal)) return;
       console.error('❌❌❌ ERROR in findPanoramas:', error);
       console.error('❌ Error details:', {
         name: error instanceof Error ? error.name : 'Unknown',
@@ -1274,8 +2085,10 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
         `💡 Tip: Use DEBUG TEST button to verify system functionality.`
       );
     } finally {
-      setIsAnalyzing(false);
-      setAnalysisProgress(100);
+      if (isCurrentSearch(signal)) {
+        setIsAnalyzing(false);
+        setAnalysisProgress(100);
+      }
       console.log('🏁 findPanoramas function completed');
     }
   }
@@ -1298,71 +2111,12 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
       return;
     }
 
-    setIsAiAnalyzing(true);
     const selectedResults = analysisResults.filter(r => selectedForAnalysis.has(r.id));
+    const progress = await runBatchAiAnalysis(selectedResults);
 
-    const panoramaApiService = new PanoramaApiService(process.env.REACT_APP_MAPY_API_KEY || '');
-
-    for (const result of selectedResults) {
-      try {
-        // Fetch the panorama image as a blob URL
-        const panoImageResponse = await panoramaApiService.fetchPanoramaImage(
-          result.coordinates[0],
-          result.coordinates[1]
-        );
-
-        if (!panoImageResponse.success || !panoImageResponse.imageUrl) {
-          throw new Error('Nepodařilo se načíst obrázek pro analýzu.');
-        }
-
-        const blob = await fetch(panoImageResponse.imageUrl).then(r => r.blob());
-        const reader = new FileReader();
-        const dataUrl = await new Promise<string>((resolve, reject) => {
-          reader.onloadend = () => resolve(reader.result as string);
-          reader.onerror = reject;
-          reader.readAsDataURL(blob);
-        });
-
-        const response = await fetch('/api/analyze-property', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            imageUrl: dataUrl,
-            coordinates: result.coordinates
-          })
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.error || 'AI analýza selhala.');
-        }
-
-        const aiResult = await response.json();
-        
-        // Update the specific result in the main analysisResults state
-        setAnalysisResults(prevResults =>
-          prevResults.map(prevResult =>
-            prevResult.id === result.id
-              ? { ...prevResult, aiAnalysis: aiResult }
-              : prevResult
-          )
-        );
-
-      } catch (error) {
-        console.error(`Chyba při analýze nemovitosti ${result.id}:`, error);
-        // Optionally update the result with an error message
-        setAnalysisResults(prevResults =>
-          prevResults.map(prevResult =>
-            prevResult.id === result.id
-              ? { ...prevResult, aiAnalysis: { error: (error as Error).message } }
-              : prevResult
-          )
-        );
-      }
+    if (progress) {
+      alert(`AI analýza dokončena: ${progress.completed} úspěšně, ${progress.failed} selhalo, ${progress.cancelled} zrušeno.`);
     }
-
-    setIsAiAnalyzing(false);
-    alert(`AI analýza dokončena pro ${selectedResults.length} nemovitostí.`);
   };
 
   // COMPREHENSIVE API VALIDATION TEST
@@ -1383,7 +2137,7 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
     
     try {
       console.log('📡 Making test API call...');
-      const result = await checkPanoramaExists(testLocation.lon, testLocation.lat, API_KEY, 200);
+      const result = await checkPanoramaExists(testLocation.lon, testLocation.lat, API_KEY, 200, 'normal');
       
       console.log('🔍 API Test Result Analysis:');
       console.log('  Result exists:', !!result);
@@ -1531,7 +2285,7 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
       console.log(`📍 Testing ${location.name}: [${location.lat.toFixed(6)}, ${location.lon.toFixed(6)}]`);
       
       try {
-        const panoramaResult = await checkPanoramaExists(location.lon, location.lat, API_KEY, 200);
+        const panoramaResult = await checkPanoramaExists(location.lon, location.lat, API_KEY, 200, 'normal');
         
         if (panoramaResult && panoramaResult.exists && panoramaResult.info) {
           console.log(`✅ FOUND panorama at ${location.name}!`);
@@ -1828,23 +2582,36 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
     setSelectedForAnalysis(new Set());
 
 
-    // If a polygon exists, restrict loading to polygon area with 15m grid
-    const polygons = vectorSourceRef.current?.getFeatures() || [];
-    const polygonGeom = polygons.find(f => f.getGeometry()?.getType() === 'Polygon')?.getGeometry() as Polygon | undefined;
+    // If search areas exist, restrict loading to their union (minus exclusions) with 15m grid
+    const areas = getSearchAreas();
+    const hasSearchArea = areas.some(area => area.role === 'include');
     const API_KEY = process.env.REACT_APP_MAPY_API_KEY;
     if (!API_KEY) return;
 
     // Use a unified grid generation and processing logic
-    let gridPoints: { lon: number; lat: number }[] = [];
-    let searchRadius = 50; // Default for viewport
-
-    if (polygonGeom) {
-      const [w, s] = toLonLat([polygonGeom.getExtent()[0], polygonGeom.getExtent()[1]]);
-      const [e, n] = toLonLat([polygonGeom.getExtent()[2], polygonGeom.getExtent()[3]]);
-      const polygonCoords = polygonToCoords(polygonGeom);
-      gridPoints = generateComprehensivePointsInPolygon(polygonCoords, w, s, e, n, 15, 3000);
-      searchRadius = 25; // Smaller radius for dense grid
-      console.log(`🌍 Loading panoramas INSIDE polygon with ${gridPoints.length} grid points (15m spacing)`);
+    // Checks go to the scheduler as soon as their points exist; Stop drops the ones not
+    // sent yet and the answered ones below are still shown
+    const signal = startSearch();
+    const allPanoramaPromises: Promise<IPanoramaExistsOutput | null>[] = [];
+    const checkPoints = (points: { lon: number; lat: number }[], searchRadius: number) => {
+      points.forEach(point => {
+        allPanoramaPromises.push(checkPanoramaExists(point.lon, point.lat, API_KEY, searchRadius, 'background', signal));
+      });
+    };
+
+    setIsAnalyzing(true);
+    setAnalysisProgress(40);
+
+    if (hasSearchArea) {
+      // The grid is generated in the worker and streamed in chunks - the map stays responsive
+      try {
+        const total = await streamSearchGrid(areas, 15, 3000, points => checkPoints(points, 25), signal);
+        if (!isCurrentSearch(signal)) return;
+        console.log(`🌍 Loading panoramas INSIDE search areas with ${total} grid points (15m spacing)`);
+      } catch (error) {
+        if (!(error instanceof Error && error.name === 'AbortError')) throw error;
+        if (!isCurrentSearch(signal)) return;
+      }
     } else {
       // Fallback: no polygon -> viewport grid
       const view = map.getView();
@@ -1857,6 +2624,7 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
       const gridSize = 10; // 10x10 = 100 bodů, hustší pro lepší pokrytí
       const stepX = (e - w) / gridSize;
       const stepY = (n - s) / gridSize;
+      const gridPoints: { lon: number; lat: number }[] = [];
       
       for (let i = 0; i < gridSize; i++) {
         for (let j = 0; j < gridSize; j++) {
@@ -1866,16 +2634,16 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
         }
       }
       console.log(`📍 Testing ${gridPoints.length} grid points for panoramas...`);
+      checkPoints(gridPoints, 50);
     }
 
-    if (gridPoints.length === 0) return;
-
-    // Fire all requests at once
-    const allPanoramaPromises = gridPoints.map(point => 
-      checkPanoramaExists(point.lon, point.lat, API_KEY, searchRadius)
-    );
-
     const results = await Promise.allSettled(allPanoramaPromises);
+    if (!isCurrentSearch(signal)) return;
+    setIsAnalyzing(false);
+    setAnalysisProgress(100);
+    if (signal.aborted) {
+      console.log('⏹️ Loading stopped, keeping the panoramas found so far');
+    }
 
     let foundCount = 0;
     const newFeatures: Feature[] = [];
@@ -1887,6 +2655,9 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
       if (promiseResult.status === 'fulfilled' && promiseResult.value) {
         const panoramaResult = promiseResult.value;
         if (panoramaResult.exists && panoramaResult.info) {
+          // The search radius reaches past area edges - keep holes and exclusion zones empty
+          if (hasSearchArea && !pointInSearchAreas([panoramaResult.info.lon, panoramaResult.info.lat], areas)) return;
+
           const key = `${panoramaResult.info.lat.toFixed(6)}_${panoramaResult.info.lon.toFixed(6)}`;
           if (seen.has(key)) return;
           seen.add(key);
@@ -1943,15 +2714,239 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
     forceRenderPanoramaLayer();
   };
 
-  // Export functionality
-  const handleExport = (format: 'csv' | 'json') => {
-    if (analysisResults.length === 0) {
-      alert('No analysis results to export');
+  // --- Projects: snapshot and restore of the whole search ---
+  const featureToSearchArea = (feature: Feature): SearchArea => ({
+    role: feature.get('role') === 'exclude' ? 'exclude' : 'include',
+    rings: (feature.getGeometry() as Polygon).getCoordinates()
+      .map(ring => ring.map(coord => toLonLat(coord) as [number, number]))
+  });
+
+  const getCorridor = (): StreetCorridor | null => {
+    const feature = vectorSourceRef.current?.getFeatures().find(f => f.get('role') === 'corridor');
+    if (!feature) return null;
+    return {
+      line: (feature.getGeometry() as LineString).getCoordinates().map(coord => toLonLat(coord) as [number, number]),
+      intervalM: feature.get('intervalM'),
+      widthM: feature.get('widthM')
+    };
+  };
+
+  // Drawn search areas and exclusion zones, rings in [lon, lat]
+  const getSearchAreas = (): SearchArea[] =>
+    (vectorSourceRef.current?.getFeatures() || [])
+      .filter(f => f.getGeometry()?.getType() === 'Polygon')
+      .map(featureToSearchArea);
+
+  const collectProjectData = (): ProjectData => {
+    const view = mapInstanceRef.current?.getView();
+    const center = view?.getCenter();
+
+    const searchAreas = getSearchAreas();
+
+    return {
+      polygon: searchAreas.find(area => area.role === 'include')?.rings ?? null,
+      searchAreas,
+      corridor: getCorridor(),
+      panoramas: panoramaWithDates,
+      analysisResults,
+      analysisJobId: serverJob?.id ?? null,
+      buildings,
+      mapView: {
+        center: center ? (toLonLat(center) as [number, number]) : [14.4378, 50.0755],
+        zoom: view?.getZoom() || 16
+      }
+    };
+  };
+
+  const restoreProject = (project: Project) => {
+    const map = mapInstanceRef.current;
+    const vectorSource = vectorSourceRef.current;
+    const panoSource = panoramaLayer?.getSource();
+    if (!map || !vectorSource || !panoSource) {
+      alert('Mapa ještě není připravena, zkuste to prosím znovu.');
+      return;
+    }
+
+    console.log(`📂 Restoring project "${project.name}" (${project.panoramas.length} panoramas)`);
+
+    // Stop drawing, the restored polygon replaces whatever was there
+    if (isDrawingMode && drawInteractionRef.current) {
+      map.removeInteraction(drawInteractionRef.current);
+      setIsDrawingMode(false);
+    }
+
+    // Projects saved before multiple areas only have the single polygon
+    const searchAreas: SearchArea[] = project.searchAreas
+      || (project.polygon ? [{ role: 'include', rings: project.polygon }] : []);
+    vectorSource.clear();
+    searchAreas.forEach(area => {
+      const polygon = new Polygon(area.rings.map(ring => ring.map(coord => fromLonLat(coord))));
+      vectorSource.addFeature(new Feature({ geometry: polygon, role: area.role }));
+    });
+    if (project.corridor) {
+      const { line, intervalM, widthM } = project.corridor;
+      vectorSource.addFeature(new Feature({
+        geometry: new LineString(line.map(coord => fromLonLat(coord))),
+        role: 'corridor',
+        intervalM,
+        widthM
+      }));
+    }
+    setHasPolygon(searchAreas.length > 0 || !!project.corridor);
+
+    // Rebuild panorama features, named after their saved results
+    panoSource.clear();
+    seen.clear();
+    const resultsByKey: Record<string, AnalysisResult> = {};
+    project.analysisResults.forEach(result => {
+      resultsByKey[`${result.coordinates[1].toFixed(6)}_${result.coordinates[0].toFixed(6)}`] = result;
+    });
+
+    const features = project.panoramas.map((pano, index) => {
+      const key = `${pano.lat.toFixed(6)}_${pano.lon.toFixed(6)}`;
+      seen.add(key);
+      return new Feature({
+        geometry: new Point(fromLonLat([pano.lon, pano.lat])),
+        name: resultsByKey[key]?.name || `Panorama ${index + 1}`,
+        coordinates: [pano.lon, pano.lat],
+        date: pano.date,
+        type: 'real-panorama',
+        panoramaInfo: pano
+      });
+    });
+    if (features.length > 0) {
+      panoSource.addFeatures(features);
+    }
+
+    setPanoramaLocations(project.panoramas.map(({ lon, lat }) => ({ lon, lat })));
+    setPanoramaWithDates(project.panoramas);
+    // Deals saved with the project that this browser does not know yet join the store
+    project.analysisResults.forEach(result => {
+      if (result.deal && !deals[dealKey(result)]) persistDeal(dealPoint(result), result.deal);
+    });
+
+    // Saved AI output may predate the current schema - re-validate instead of trusting it
+    setAnalysisResults(project.analysisResults.map(result =>
+      result.aiAnalysis ? { ...result, aiAnalysis: normalizeAiAnalysis(result.aiAnalysis) } : result
+    ));
+    setBuildings(project.buildings || []);
+    setSelectedForAnalysis(new Set());
+    setShowAnalysisPanel(project.analysisResults.length > 0);
+
+    map.getView().animate({
+      center: fromLonLat(project.mapView.center),
+      zoom: project.mapView.zoom,
+      duration: 300
+    });
+
+    // Pick up a server job that was still running when the project was saved
+    serverJobPollRef.current?.abort();
+    setServerJob(null);
+    if (project.analysisJobId) {
+      trackServerJob(project.analysisJobId);
+    }
+
+    setCurrentProject({ id: project.id, name: project.name });
+    forceRenderPanoramaLayer();
+  };
+
+  const handleSaveProjectAs = async (name: string) => {
+    const project = await projectStore.create(name, collectProjectData());
+    setCurrentProject({ id: project.id, name: project.name });
+    console.log(`💾 Project "${project.name}" created`);
+  };
+
+  const handleSaveProject = async () => {
+    if (!currentProject) {
+      setShowProjectManager(true);
+      return;
+    }
+    try {
+      await projectStore.save(currentProject.id, collectProjectData());
+      console.log(`💾 Project "${currentProject.name}" saved`);
+    } catch (error) {
+      console.error('Uložení projektu selhalo:', error);
+      alert(`Uložení projektu selhalo: ${(error as Error).message}`);
+    }
+  };
+
+  // Autosave the open project whenever its results change. The data is read through a
+  // ref so the save sees the latest map view and areas, not those of the render that
+  // scheduled it.
+  const collectProjectDataRef = useRef(collectProjectData);
+  collectProjectDataRef.current = collectProjectData;
+  const serverJobId = serverJob?.id;
+  useEffect(() => {
+    if (!currentProject) return;
+    const timer = setTimeout(() => {
+      projectStore.save(currentProject.id, collectProjectDataRef.current())
+        .catch(error => console.warn('⚠️ Project autosave failed:', error));
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [currentProject, analysisResults, panoramaWithDates, serverJobId, buildings]);
+
+  // PDF report for people without the app. Built entirely client-side: the map is a
+  // canvas snapshot and thumbnails come from the panorama cache (missing ones are left blank).
+  const handleGenerateReport = async () => {
+    if (filteredResults.length === 0) {
+      alert('Filtru neodpovídají žádné výsledky pro report');
+      return;
+    }
+
+    try {
+      const map = mapInstanceRef.current;
+      // Frame all search areas and exclusion zones
+      const areaSource = vectorSourceRef.current;
+      const areaExtent = areaSource && areaSource.getFeatures().length > 0 ? areaSource.getExtent() : null;
+      const mapImage = map ? await captureMapSnapshot(map, areaExtent) : null;
+
+      const panoramaApi = new PanoramaApiService(process.env.REACT_APP_MAPY_API_KEY || '');
+      const pdf = await generateAnalysisReport({
+        title: currentProject?.name || 'Neuložený projekt',
+        results: await annotationStore.attachToResults(filteredResults),
+        mapImage,
+        // The analysed image first, then the current view settings and the plain default view
+        loadThumbnail: async result => {
+          const analysis = result.aiAnalysis && !isAiAnalysisError(result.aiAnalysis) ? result.aiAnalysis : null;
+          const candidates = [analysis?.views?.[0], viewsForResult(result)[0], undefined];
+          for (const view of candidates) {
+            const imageView = { ...DEFAULT_IMAGE_OPTIONS, ...view };
+            const blob = await panoramaApi.getCachedPanoramaImage(result.coordinates[0], result.coordinates[1], imageView);
+            if (blob) return { blob, view: imageView };
+          }
+          return null;
+        },
+        onProgress: (done, total) => console.log(`📄 Report page ${done}/${total}`)
+      });
+
+      downloadFile(pdf, 'property-analysis-report.pdf', 'application/pdf');
+    } catch (error) {
+      console.error('Generování reportu selhalo:', error);
+      alert(`Generování reportu selhalo: ${(error as Error).message}`);
+    }
+  };
+
+  // Export functionality - exports what the panel filter lets through, with the
+  // panorama annotations drawn in the viewer
+  const handleExport = async (format: AnalysisExportFormat, tabularOptions: TabularExportOptions = DEFAULT_TABULAR_EXPORT_OPTIONS) => {
+    if (filteredResults.length === 0) {
+      alert('No analysis results to export (check the panel filter)');
       return;
     }
+    const exportedResults = await annotationStore.attachToResults(filteredResults).catch(error => {
+      console.warn('⚠️ Annotations not available for export:', error);
+      return filteredResults;
+    });
 
-    if (format === 'json') {
-      const dataStr = JSON.stringify(analysisResults, null, 2);
+    // Geo formats carry the search polygon and the full checklist per point
+    if (format === 'geojson') {
+      downloadFile(toGeoJson(exportedResults, getSearchAreas()), 'property-analysis-results.geojson', 'application/geo+json');
+    } else if (format === 'kml') {
+      downloadFile(toKml(exportedResults, getSearchAreas()), 'property-analysis-results.kml', 'application/vnd.google-earth.kml+xml');
+    } else if (format === 'gpx') {
+      downloadFile(toGpx(exportedResults, getSearchAreas()), 'property-analysis-results.gpx', 'application/gpx+xml');
+    } else if (format === 'json') {
+      const dataStr = JSON.stringify(exportedResults, null, 2);
       const dataBlob = new Blob([dataStr], { type: 'application/json' });
       const url = URL.createObjectURL(dataBlob);
       const link = document.createElement('a');
@@ -1959,28 +2954,13 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
       link.download = 'property-analysis-results.json';
       link.click();
     } else if (format === 'csv') {
-      const headers = ['ID', 'Name', 'Latitude', 'Longitude', 'Condition', 'Confidence', 'Issues', 'Recommendation', 'Estimated Value'];
-      const csvContent = [
-        headers.join(','),
-        ...analysisResults.map(result => [
-          result.id,
-          `"${result.name}"`,
-          result.coordinates[1],
-          result.coordinates[0],
-          result.condition,
-          (result.confidence * 100).toFixed(1) + '%',
-          `"${result.issues.join('; ')}"`,
-          `"${result.recommendation}"`,
-          result.estimatedValue
-        ].join(','))
-      ].join('\n');
-      
-      const dataBlob = new Blob([csvContent], { type: 'text/csv' });
-      const url = URL.createObjectURL(dataBlob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = 'property-analysis-results.csv';
-      link.click();
+      downloadFile(toCsv(exportedResults, tabularOptions), 'property-analysis-results.csv', 'text/csv;charset=utf-8');
+    } else if (format === 'xlsx') {
+      downloadFile(
+        toXlsx(exportedResults, tabularOptions),
+        'property-analysis-results.xlsx',
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      );
     }
   };
 
@@ -2027,6 +3007,13 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
                     Nalezeno {analysisResults.length} panoramat
                   </div>
                 )}
+                <button
+                  onClick={handleStopSearch}
+                  className="mt-4 px-4 py-2 text-sm font-medium bg-red-600 text-white hover:bg-red-700 transition-colors"
+                >
+                  ⏹️ Zastavit hledání
+                </button>
+                <div className="text-xs text-gray-500 mt-2">Nalezená panoramata zůstanou na mapě</div>
               </div>
             )}
           </div>
@@ -2038,12 +3025,15 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
         <div className="flex-shrink-0">
           <h1 className="text-2xl font-bold text-white">Flip<span className="text-electric-blue">akt</span></h1>
           <p className="text-xs text-gray-400">Property Analysis Tool</p>
+          {currentProject && (
+            <p className="text-xs text-electric-blue mt-1 truncate" title={currentProject.name}>📁 {currentProject.name}</p>
+          )}
         </div>
 
         {/* Controls */}
         <div className="flex-grow flex flex-col space-y-2">
             <button
-                onClick={handleDrawArea}
+                onClick={() => handleDrawArea('include')}
                 className={`w-full px-4 py-3 font-medium transition-all duration-300 flex items-center gap-3 text-left ${
                   isDrawingMode
                     ? 'bg-electric-blue text-white'
@@ -2053,8 +3043,87 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
                 </svg>
-                <span>{isDrawingMode ? 'Kreslení...' : 'Vymezit oblast'}</span>
+                <span>{isDrawingMode ? DRAW_MODE_LABELS[drawMode] : 'Vymezit oblast'}</span>
             </button>
+            <div className="flex gap-2">
+              <button
+                onClick={() => handleDrawArea('hole')}
+                className="flex-1 px-3 py-2 text-sm font-medium transition-all duration-300 bg-gray-800 text-gray-200 hover:bg-gray-700"
+                title="Vyřízne díru do nakreslené oblasti hledání"
+              >
+                ✂️ Díra
+              </button>
+              <button
+                onClick={() => handleDrawArea('exclude')}
+                className="flex-1 px-3 py-2 text-sm font-medium transition-all duration-300 bg-gray-800 text-gray-200 hover:bg-gray-700"
+                title="Zóna, ve které se panoramata nehledají (přes všechny oblasti)"
+              >
+                ⛔ Vyloučit
+              </button>
+              <button
+                onClick={handleClearAreas}
+                className="px-3 py-2 text-sm font-medium transition-all duration-300 bg-gray-800 text-gray-200 hover:bg-gray-700"
+                title="Smazat všechny oblasti a vyloučené zóny"
+              >
+                🗑️
+              </button>
+            </div>
+            <button
+                onClick={handleDrawCorridor}
+                className={`w-full px-4 py-2 text-sm font-medium transition-all duration-300 text-left ${
+                  isDrawingCorridor ? 'bg-yellow-500 text-gray-900' : 'bg-gray-800 text-gray-200 hover:bg-gray-700'
+                }`}
+                title="Nakreslete čáru podél ulice (double-click ukončí) - najdou se panoramata v koridoru"
+              >
+                🛣️ {isDrawingCorridor ? 'Kreslení trasy...' : 'Hledat podél ulice'}
+            </button>
+            <div className="flex gap-2 text-xs text-gray-400">
+              <label className="flex-1">
+                Krok (m)
+                <input
+                  type="number"
+                  min={5}
+                  max={50}
+                  value={corridorSettings.intervalM}
+                  onChange={(e) => setCorridorSettings(prev => ({ ...prev, intervalM: Math.max(5, Number(e.target.value) || CORRIDOR_DEFAULTS.intervalM) }))}
+                  className="w-full bg-gray-800 border border-gray-700 px-2 py-1 text-white focus:border-electric-blue outline-none"
+                />
+              </label>
+              <label className="flex-1">
+                Šířka koridoru (m)
+                <input
+                  type="number"
+                  min={10}
+                  max={200}
+                  value={corridorSettings.widthM}
+                  onChange={(e) => setCorridorSettings(prev => ({ ...prev, widthM: Math.max(10, Number(e.target.value) || CORRIDOR_DEFAULTS.widthM) }))}
+                  className="w-full bg-gray-800 border border-gray-700 px-2 py-1 text-white focus:border-electric-blue outline-none"
+                />
+              </label>
+            </div>
+            {searchCheckpoint && !isAnalyzing && (
+              <div className="bg-gray-900 border border-yellow-600/50 p-2 text-xs">
+                <div className="text-yellow-400 font-medium">Přerušené hledání</div>
+                <div className="text-gray-400 mt-1">
+                  {searchCheckpoint.discovery.panoramas.length} panoramat nalezeno, {searchCheckpoint.discovery.pending.length} buněk zbývá
+                  ({new Date(searchCheckpoint.updatedAt).toLocaleString('cs-CZ')})
+                </div>
+                <div className="flex gap-2 mt-2">
+                  <button
+                    onClick={handleResumeSearch}
+                    className="flex-1 px-2 py-1 font-medium bg-yellow-500 text-gray-900 hover:bg-yellow-400 transition-colors"
+                  >
+                    ▶️ Pokračovat
+                  </button>
+                  <button
+                    onClick={handleDiscardCheckpoint}
+                    className="px-2 py-1 bg-gray-800 text-gray-200 hover:bg-gray-700 transition-colors"
+                  >
+                    Zahodit
+                  </button>
+                </div>
+              </div>
+            )}
              <button
                 onClick={loadPanoramasInView}
                 className="w-full px-4 py-3 font-medium transition-all duration-300 flex items-center gap-3 text-left bg-gray-800 text-gray-200 hover:bg-gray-700"
@@ -2065,6 +3134,84 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
                 <span>Načíst panoramata</span>
             </button>
             
+            <div className="flex gap-2">
+              <button
+                onClick={() => setIsTargetingMode(prev => !prev)}
+                className={`flex-1 px-3 py-2 text-sm font-medium transition-all duration-300 ${
+                  isTargetingMode ? 'bg-yellow-500 text-gray-900' : 'bg-gray-800 text-gray-200 hover:bg-gray-700'
+                }`}
+                title="Klikněte do mapy na budovu - kamera nejbližšího panoramatu se na ni natočí"
+              >
+                🎯 {isTargetingMode ? 'Klikněte na budovu' : 'Zamířit na budovu'}
+              </button>
+              <button
+                onClick={() => buildingFileInputRef.current?.click()}
+                className="px-3 py-2 text-sm font-medium transition-all duration-300 bg-gray-800 text-gray-200 hover:bg-gray-700"
+                title="Importovat půdorysy budov (GeoJSON, např. výřez z OSM nebo RÚIAN)"
+              >
+                🏢{buildings.length > 0 ? ` ${buildings.length}` : ''}
+              </button>
+              <input
+                ref={buildingFileInputRef}
+                type="file"
+                accept=".geojson,.json,application/geo+json,application/json"
+                onChange={handleImportBuildings}
+                className="hidden"
+              />
+              <button
+                onClick={handleImportTargets}
+                disabled={analysisResults.length === 0}
+                className="px-3 py-2 text-sm font-medium transition-all duration-300 bg-gray-800 text-gray-200 hover:bg-gray-700 disabled:opacity-50"
+                title="Seznam cílových adres nebo souřadnic pro dávkovou analýzu"
+              >
+                📋 Cíle
+              </button>
+            </div>
+
+            {analysisResults.some(result => result.analysisStatus === 'completed') && (
+              <div className="bg-gray-900 border border-gray-800 p-3 text-xs space-y-2">
+                <div className="font-bold text-gray-300">Mapa příležitostí</div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setShowHeatmap(prev => !prev)}
+                    className={`flex-1 px-2 py-1 transition-colors ${showHeatmap ? 'bg-electric-blue text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+                  >
+                    🔥 Heatmapa
+                  </button>
+                  <button
+                    onClick={() => setShowGrid(prev => !prev)}
+                    className={`flex-1 px-2 py-1 transition-colors ${showGrid ? 'bg-electric-blue text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+                    title="Průměrné skóre v buňkách mřížky"
+                  >
+                    ▦ Mřížka
+                  </button>
+                </div>
+                {(showHeatmap || showGrid) && (
+                  <select
+                    value={opportunityMetric}
+                    onChange={(e) => setOpportunityMetric(e.target.value as OpportunityMetric)}
+                    className="w-full bg-gray-800 border border-gray-700 px-2 py-1 text-white focus:border-electric-blue outline-none appearance-none"
+                    title="Čím vážit heatmapu a mřížku"
+                  >
+                    {OPPORTUNITY_METRICS.map(metric => (
+                      <option key={metric.value} value={metric.value}>{metric.label}</option>
+                    ))}
+                  </select>
+                )}
+                {showGrid && (
+                  <select
+                    value={gridCellSize}
+                    onChange={(e) => setGridCellSize(Number(e.target.value))}
+                    className="w-full bg-gray-800 border border-gray-700 px-2 py-1 text-white focus:border-electric-blue outline-none appearance-none"
+                  >
+                    {GRID_CELL_SIZES_M.map(size => (
+                      <option key={size} value={size}>Buňka {size} m</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            )}
+
             {panoramaLocations.length > 0 && (
               <button
                 onClick={() => setShowPanoramaGallery(true)}
@@ -2078,6 +3225,19 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
                 </span>
               </button>
             )}
+            {selectedForAnalysis.size > 0 && (
+                <select
+                    value={analysisViewMode}
+                    onChange={(e) => setAnalysisViewMode(e.target.value as AnalysisViewMode)}
+                    disabled={isAiAnalyzing}
+                    className="w-full bg-gray-800 border border-gray-700 px-3 py-2 text-white text-sm focus:border-electric-blue outline-none appearance-none"
+                    title="Kolik směrů se z každého panoramatu pošle do analýzy"
+                >
+                    {ANALYSIS_VIEW_MODES.map(mode => (
+                        <option key={mode.value} value={mode.value}>{mode.label}</option>
+                    ))}
+                </select>
+            )}
             {selectedForAnalysis.size > 0 && (
                 <button
                     onClick={handleRunAiAnalysis}
@@ -2088,6 +3248,85 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
                     <span>{isAiAnalyzing ? 'Analyzuji...' : `Spustit AI Analýzu (${selectedForAnalysis.size})`}</span>
                 </button>
             )}
+            {selectedForAnalysis.size > 0 && (
+                <button
+                    onClick={handleRunServerAnalysis}
+                    className="w-full px-4 py-3 font-medium transition-all duration-300 flex items-center gap-3 text-left bg-gray-800 text-gray-200 hover:bg-gray-700 disabled:opacity-50"
+                    disabled={serverJob?.status === 'queued' || serverJob?.status === 'running'}
+                    title="Analýza poběží na serveru i po zavření prohlížeče"
+                >
+                    <span>🛰️</span>
+                    <span>Analyzovat na serveru ({selectedForAnalysis.size})</span>
+                </button>
+            )}
+            {serverJob && (
+              <div className="bg-gray-900 border border-gray-800 p-3 text-xs space-y-2">
+                <div className="flex justify-between text-gray-300">
+                  <span>
+                    {serverJob.status === 'completed' ? 'Serverová analýza dokončena'
+                      : serverJob.status === 'cancelled' ? 'Serverová analýza zrušena'
+                      : 'Serverová analýza běží'}
+                  </span>
+                  <span className="font-mono">
+                    {serverJob.progress.completed + serverJob.progress.failed}/{serverJob.progress.total}
+                  </span>
+                </div>
+                <div className="w-full bg-gray-700 h-1.5">
+                  <div
+                    className="bg-electric-blue h-1.5 transition-all duration-300"
+                    style={{ width: `${((serverJob.progress.completed + serverJob.progress.failed) / Math.max(1, serverJob.progress.total)) * 100}%` }}
+                  />
+                </div>
+                {serverJob.progress.failed > 0 && (
+                  <div className="text-red-300">{serverJob.progress.failed} selhalo</div>
+                )}
+                {(serverJob.status === 'queued' || serverJob.status === 'running') ? (
+                  <button onClick={handleCancelServerJob} className="w-full px-2 py-1 bg-gray-800 hover:bg-red-700 text-red-300 transition-colors">Zastavit</button>
+                ) : (
+                  <button onClick={() => setServerJob(null)} className="w-full px-2 py-1 bg-gray-800 hover:bg-gray-700 transition-colors">Skrýt</button>
+                )}
+              </div>
+            )}
+            {isAiAnalyzing && aiBatchProgress && (
+              <div className="bg-gray-900 border border-gray-800 p-3 text-xs space-y-2">
+                <div className="flex justify-between text-gray-300">
+                  <span>{aiBatchState === 'paused' ? 'AI analýza pozastavena' : 'AI analýza běží'}</span>
+                  <span className="font-mono">
+                    {aiBatchProgress.completed + aiBatchProgress.failed}/{aiBatchProgress.total}
+                  </span>
+                </div>
+                <div className="w-full bg-gray-700 h-1.5">
+                  <div
+                    className="bg-green-500 h-1.5 transition-all duration-300"
+                    style={{ width: `${((aiBatchProgress.completed + aiBatchProgress.failed) / Math.max(1, aiBatchProgress.total)) * 100}%` }}
+                  />
+                </div>
+                <div className="flex gap-2">
+                  {aiBatchState === 'paused' ? (
+                    <button onClick={() => analysisBatchRef.current?.resume()} className="flex-1 px-2 py-1 bg-gray-800 hover:bg-gray-700 transition-colors">Pokračovat</button>
+                  ) : (
+                    <button onClick={() => analysisBatchRef.current?.pause()} className="flex-1 px-2 py-1 bg-gray-800 hover:bg-gray-700 transition-colors">Pozastavit</button>
+                  )}
+                  <button onClick={() => analysisBatchRef.current?.cancel()} className="flex-1 px-2 py-1 bg-gray-800 hover:bg-red-700 text-red-300 transition-colors">Zastavit</button>
+                </div>
+              </div>
+            )}
+
+            <div className="flex gap-2 pt-2">
+              <button
+                onClick={() => setShowProjectManager(true)}
+                className="flex-1 px-3 py-2 text-sm font-medium transition-all duration-300 bg-gray-800 text-gray-200 hover:bg-gray-700"
+              >
+                📁 Projekty
+              </button>
+              <button
+                onClick={handleSaveProject}
+                disabled={panoramaWithDates.length === 0 && !hasPolygon}
+                className="flex-1 px-3 py-2 text-sm font-medium transition-all duration-300 bg-gray-800 text-gray-200 hover:bg-gray-700 disabled:opacity-50"
+              >
+                💾 Uložit
+              </button>
+            </div>
         </div>
         
         {/* Status Panel */}
@@ -2096,6 +3335,14 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
           <div className="space-y-1">
               <div>Panorama bodů: <span className="font-mono text-green-400 float-right">{panoramaLocations.length}</span></div>
               <div>Polygon: <span className={`font-mono float-right ${hasPolygon ? "text-green-400" : "text-gray-500"}`}>{hasPolygon ? "Vymezen" : "Není"}</span></div>
+              {discoveryStats && (
+                <div title={`Pevná mřížka ${GRID_SPACING_M} m by potřebovala ${discoveryStats.gridCalls} dotazů`}>
+                  Dotazy API: <span className="font-mono text-green-400 float-right">
+                    {discoveryStats.calls} / {discoveryStats.gridCalls}
+                    {discoveryStats.gridCalls > discoveryStats.calls && ` (−${Math.round((1 - discoveryStats.calls / discoveryStats.gridCalls) * 100)} %)`}
+                  </span>
+                </div>
+              )}
               <div>API Klíč: <span className={`font-mono float-right ${process.env.REACT_APP_MAPY_API_KEY ? "text-green-400" : "text-red-400"}`}>{process.env.REACT_APP_MAPY_API_KEY ? "Dostupný" : "Chybí"}</span></div>
               <div>JS Chyby: <span className={`font-mono float-right ${jsErrors.length === 0 ? "text-green-400" : "text-red-400"}`}>{jsErrors.length}</span></div>
           </div>
@@ -2122,6 +3369,8 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
             className="w-full h-full"
           />
 
+          {panoramaLocations.length > 0 && <MapLegend />}
+
           {/* Analysis Panel Toggle Button */}
           {analysisResults.length > 0 && (
             <button
@@ -2138,10 +3387,59 @@ const MapView: React.FC<MapViewProps> = ({ onBack }) => {
           {showAnalysisPanel && (
             <AnalysisPanel 
               results={analysisResults} 
+              buildingResults={buildingResults}
+              filter={analysisFilter}
+              onFilterChange={setAnalysisFilter}
               onExport={handleExport}
+              onGenerateReport={handleGenerateReport}
+              onLookupCadastre={handleLookupCadastre}
+              dealStages={dealStages}
+              onDealChange={handleDealChange}
+              onOpenPipeline={() => setShowDealPipeline(true)}
+            />
+          )}
+
+          {/* Deal pipeline kanban, under the map next to the analysis panel */}
+          {showDealPipeline && (
+            <DealPipelineBoard
+              results={analysisResults}
+              stages={dealStages}
+              onStagesChange={handleDealStagesChange}
+              onDealChange={handleDealChange}
+              filter={analysisFilter}
+              onFilterChange={setAnalysisFilter}
+              besidePanel={showAnalysisPanel}
+              onClose={() => setShowDealPipeline(false)}
+            />
+          )}
+
+          {/* Project Manager */}
+          {showProjectManager && (
+            <ProjectManager
+              currentProjectId={currentProject?.id || null}
+              onOpen={restoreProject}
+              onSaveAs={handleSaveProjectAs}
+              onCurrentRenamed={(name) => setCurrentProject(prev => prev ? { ...prev, name } : prev)}
+              onCurrentDeleted={() => setCurrentProject(null)}
+              onClose={() => setShowProjectManager(false)}
             />
           )}
 
+          {/* Panorama aimed at a clicked building */}
+          {targetedPanorama && (
+            <div className="absolute inset-0 z-50 bg-dark-bg">
+              <PanoramaViewer
+                key={`${targetedPanorama.panorama.lon}_${targetedPanorama.panorama.lat}_${targetedPanorama.view.yaw}`}
+                lon={targetedPanorama.panorama.lon}
+                lat={targetedPanorama.panorama.lat}
+                date={targetedPanorama.panorama.date}
+                apiKey={process.env.REACT_APP_MAPY_API_KEY || ''}
+                initialView={targetedPanorama.view}
+                onClose={() => setTargetedPanorama(null)}
+              />
+            </div>
+          )}
+
           {/* Panorama Gallery */}
           {showPanoramaGallery && (
             <div className="absolute inset-0 z-50 bg-dark-bg">
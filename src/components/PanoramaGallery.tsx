@@ -2,6 +2,9 @@ import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { PanoramaImage, PanoramaLocation, PanoramaControlsState, PANORAMA_DEFAULTS } from '../types/panoramaViewer';
 import { PanoramaApiService } from '../utils/panoramaApi';
 import PanoramaViewer from './PanoramaViewer';
+import { AnalysisPipeline, AnalysisBatch } from '../utils/analysisPipeline';
+import { buildAnalysisViews } from '../utils/analysisViews';
+import { AiAnalysis, AnalysisBatchState, AnalysisViewMode, ANALYSIS_VIEW_MODES, isAiAnalysisError } from '../types/analysis';
 
 interface PanoramaGalleryProps {
   locations: PanoramaLocation[];
@@ -51,7 +54,10 @@ const PanoramaGallery: React.FC<PanoramaGalleryProps> = ({
   });
   const [isAiAnalyzing, setIsAiAnalyzing] = useState(false);
   const [aiAnalysisProgress, setAiAnalysisProgress] = useState({ current: 0, total: 0 });
-  const [analysisResults, setAnalysisResults] = useState<Map<string, any>>(new Map());
+  const [aiBatchState, setAiBatchState] = useState<AnalysisBatchState | null>(null);
+  const analysisBatchRef = useRef<AnalysisBatch<string> | null>(null);
+  const [analysisResults, setAnalysisResults] = useState<Map<string, AiAnalysis>>(new Map());
+  const [viewMode, setViewMode] = useState<AnalysisViewMode>('single');
 
   const [batchDownloadStatus, setBatchDownloadStatus] = useState<{
     active: boolean;
@@ -65,6 +71,9 @@ const PanoramaGallery: React.FC<PanoramaGalleryProps> = ({
     current: 0
   });
 
+  // Bytes of panorama images kept in the browser (IndexedDB tier), null = unknown
+  const [diskCacheBytes, setDiskCacheBytes] = useState<number | null>(null);
+
   // Refs
   const panoramaApiRef = useRef<PanoramaApiService | null>(null);
   const isMounted = useRef(true);
@@ -79,6 +88,7 @@ const PanoramaGallery: React.FC<PanoramaGalleryProps> = ({
 
     return () => {
       isMounted.current = false;
+      analysisBatchRef.current?.cancel();
       if (panoramaApiRef.current) {
         panoramaApiRef.current.clearCache();
       }
@@ -138,8 +148,19 @@ const PanoramaGallery: React.FC<PanoramaGalleryProps> = ({
   const loadAllThumbnails = useCallback(async () => {
     const promises = locations.map(location => loadThumbnail(location));
     await Promise.all(promises);
+    if (isMounted.current && panoramaApiRef.current) {
+      setDiskCacheBytes(panoramaApiRef.current.getCacheStats().disk.totalSize);
+    }
   }, [locations, loadThumbnail]);
 
+  // Drop the images stored in the browser, e.g. when the storage is needed elsewhere
+  const clearPanoramaCache = async () => {
+    if (!panoramaApiRef.current) return;
+    if (!window.confirm('Smazat panoramata uložená v prohlížeči? Při dalším otevření se stáhnou znovu.')) return;
+    await panoramaApiRef.current.clearPersistentCache();
+    setDiskCacheBytes(panoramaApiRef.current.getCacheStats().disk.totalSize);
+  };
+
   // Toggle selection for AI analysis
   const toggleSelection = (key: string, event: React.MouseEvent) => {
     event.stopPropagation(); // Prevent opening detail view
@@ -165,82 +186,55 @@ const PanoramaGallery: React.FC<PanoramaGalleryProps> = ({
     setSelectedForAnalysis(new Set());
   };
 
-  // Run batch AI analysis
+  // Run batch AI analysis through the shared pipeline; results arrive per item
   const runBatchAiAnalysis = async () => {
     if (selectedForAnalysis.size === 0) {
       alert('Vyberte alespoň jedno panorama pro analýzu.');
       return;
     }
 
-    setIsAiAnalyzing(true);
-    setAiAnalysisProgress({ current: 0, total: selectedForAnalysis.size });
-    const results = new Map<string, any>();
-
-    let currentIndex = 0;
-
-    for (const key of Array.from(selectedForAnalysis)) {
-      const location = locations.find(loc => createLocationKey(loc) === key);
-      if (!location || !panoramaApiRef.current) continue;
-
-      currentIndex++;
-      setAiAnalysisProgress({ current: currentIndex, total: selectedForAnalysis.size });
-
-      try {
-        // Fetch panorama image
-        const panoImageResponse = await panoramaApiRef.current.fetchPanoramaImage(
-          location.lon,
-          location.lat,
-          {
-            width: 1024,
-            height: 800,
-            yaw: 0,
-            pitch: 0,
-            fov: 90
-          }
-        );
-
-        if (!panoImageResponse.success || !panoImageResponse.imageUrl) {
-          results.set(key, { error: 'Nepodařilo se načíst obrázek pro analýzu.' });
-          continue;
-        }
+    const items = locations
+      .filter(loc => selectedForAnalysis.has(createLocationKey(loc)))
+      .map(loc => ({
+        id: createLocationKey(loc),
+        lon: loc.lon,
+        lat: loc.lat,
+        views: buildAnalysisViews(viewMode, loc, locations)
+      }));
 
-        // Convert to base64
-        const blob = await fetch(panoImageResponse.imageUrl).then(r => r.blob());
-        const reader = new FileReader();
-        const dataUrl = await new Promise<string>((resolve, reject) => {
-          reader.onloadend = () => resolve(reader.result as string);
-          reader.onerror = reject;
-          reader.readAsDataURL(blob);
-        });
+    const pipeline = new AnalysisPipeline(apiKey);
+    const batch = pipeline.runBatch<string>(items);
+    analysisBatchRef.current = batch;
 
-        // Call AI analysis API
-        const response = await fetch('/api/analyze-property', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            imageUrl: dataUrl,
-            coordinates: [location.lon, location.lat]
-          })
-        });
+    setIsAiAnalyzing(true);
+    setAiBatchState('running');
+    setAiAnalysisProgress({ current: 0, total: items.length });
 
-        if (!response.ok) {
-          const errorData = await response.json();
-          results.set(key, { error: errorData.error || 'AI analýza selhala.' });
-          continue;
-        }
+    batch.subscribe(event => {
+      if (!isMounted.current) return;
+      const { completed, failed, total } = event.progress;
+      setAiAnalysisProgress({ current: completed + failed, total });
 
-        const result = await response.json();
-        results.set(key, result);
+      if (event.type === 'batch') {
+        setAiBatchState(event.state);
+        return;
+      }
 
-      } catch (error) {
-        console.error(`Chyba při AI analýze ${key}:`, error);
-        results.set(key, { error: (error as Error).message });
+      if (event.status === 'completed' && event.result) {
+        const result = event.result;
+        setAnalysisResults(prev => new Map(prev).set(event.id, result));
+      } else if (event.status === 'failed' && event.error) {
+        const error = event.error;
+        console.error(`Chyba při AI analýze ${event.id}:`, error);
+        setAnalysisResults(prev => new Map(prev).set(event.id, error));
       }
-    }
+    });
 
-    setAnalysisResults(results);
-    setIsAiAnalyzing(false);
-    setAiAnalysisProgress({ current: 0, total: 0 });
+    await batch.done;
+    if (isMounted.current) {
+      setIsAiAnalyzing(false);
+      setAiAnalysisProgress({ current: 0, total: 0 });
+    }
   };
 
   if (selectedPanorama) {
@@ -271,17 +265,26 @@ const PanoramaGallery: React.FC<PanoramaGalleryProps> = ({
             </div>
           </div>
 
-          {onClose && (
+          <div className="flex items-center gap-2">
             <button
-              onClick={onClose}
-              className="p-2 hover:bg-gray-800 transition-colors rounded"
-              title="Zavřít galerii"
+              onClick={clearPanoramaCache}
+              className="px-3 py-1 text-xs bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded transition-colors"
+              title="Smazat panoramata uložená v prohlížeči"
             >
-              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-              </svg>
+              🧹 Vymazat mezipaměť{diskCacheBytes !== null && ` (${(diskCacheBytes / 1024 / 1024).toFixed(1)} MB)`}
             </button>
-          )}
+            {onClose && (
+              <button
+                onClick={onClose}
+                className="p-2 hover:bg-gray-800 transition-colors rounded"
+                title="Zavřít galerii"
+              >
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            )}
+          </div>
         </div>
 
         {/* AI Analysis Controls */}
@@ -305,6 +308,18 @@ const PanoramaGallery: React.FC<PanoramaGalleryProps> = ({
               </span>
             </div>
 
+            <div className="flex items-center gap-2">
+            <select
+              value={viewMode}
+              onChange={(e) => setViewMode(e.target.value as AnalysisViewMode)}
+              disabled={isAiAnalyzing}
+              className="bg-gray-800 border border-gray-700 px-2 py-2 text-white text-xs focus:border-electric-blue outline-none rounded"
+              title="Kolik směrů se z každého panoramatu pošle do analýzy"
+            >
+              {ANALYSIS_VIEW_MODES.map(mode => (
+                <option key={mode.value} value={mode.value}>{mode.label}</option>
+              ))}
+            </select>
             <button
               onClick={runBatchAiAnalysis}
               disabled={isAiAnalyzing || selectedCount === 0}
@@ -313,7 +328,7 @@ const PanoramaGallery: React.FC<PanoramaGalleryProps> = ({
               {isAiAnalyzing ? (
                 <>
                   <div className="w-4 h-4 border-2 border-white/20 border-t-white rounded-full animate-spin"></div>
-                  Analyzuji... ({aiAnalysisProgress.current}/{aiAnalysisProgress.total})
+                  {aiBatchState === 'paused' ? 'Pozastaveno' : 'Analyzuji...'} ({aiAnalysisProgress.current}/{aiAnalysisProgress.total})
                 </>
               ) : (
                 <>
@@ -321,15 +336,39 @@ const PanoramaGallery: React.FC<PanoramaGalleryProps> = ({
                 </>
               )}
             </button>
+            </div>
           </div>
 
           {/* Progress Bar */}
           {isAiAnalyzing && (
-            <div className="w-full bg-gray-800 rounded-full h-2 overflow-hidden">
-              <div
-                className="bg-green-500 h-full transition-all duration-300"
-                style={{ width: `${(aiAnalysisProgress.current / aiAnalysisProgress.total) * 100}%` }}
-              />
+            <div className="flex items-center gap-3">
+              <div className="flex-1 bg-gray-800 rounded-full h-2 overflow-hidden">
+                <div
+                  className="bg-green-500 h-full transition-all duration-300"
+                  style={{ width: `${(aiAnalysisProgress.current / Math.max(1, aiAnalysisProgress.total)) * 100}%` }}
+                />
+              </div>
+              {aiBatchState === 'paused' ? (
+                <button
+                  onClick={() => analysisBatchRef.current?.resume()}
+                  className="px-3 py-1 text-xs bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded transition-colors"
+                >
+                  Pokračovat
+                </button>
+              ) : (
+                <button
+                  onClick={() => analysisBatchRef.current?.pause()}
+                  className="px-3 py-1 text-xs bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded transition-colors"
+                >
+                  Pozastavit
+                </button>
+              )}
+              <button
+                onClick={() => analysisBatchRef.current?.cancel()}
+                className="px-3 py-1 text-xs bg-gray-800 hover:bg-red-700 border border-gray-700 text-red-300 rounded transition-colors"
+              >
+                Zastavit
+              </button>
             </div>
           )}
 
@@ -383,7 +422,7 @@ const PanoramaGallery: React.FC<PanoramaGalleryProps> = ({
                   {/* Analysis Status Badge */}
                   {analysisResult && (
                     <div className="absolute top-2 right-2 z-10 px-2 py-1 rounded text-xs font-bold bg-green-600 text-white">
-                      {analysisResult.error ? '❌ Chyba' : '✅ Analyzováno'}
+                      {isAiAnalysisError(analysisResult) ? '❌ Chyba' : '✅ Analyzováno'}
                     </div>
                   )}
 
@@ -428,7 +467,7 @@ const PanoramaGallery: React.FC<PanoramaGalleryProps> = ({
                   </div>
 
                   {/* Analysis Score */}
-                  {analysisResult && !analysisResult.error && analysisResult.souhrn && (
+                  {analysisResult && !isAiAnalysisError(analysisResult) && (
                     <div className="pt-2 border-t border-gray-800">
                       <div className="flex items-center justify-between">
                         <span className="text-gray-400">Potenciál:</span>
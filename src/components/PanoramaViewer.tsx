@@ -1,21 +1,49 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { PanoramaImage, PanoramaControlsState, PANORAMA_DEFAULTS } from '../types/panoramaViewer';
 import { PanoramaApiService } from '../utils/panoramaApi';
+import { AnalysisPipeline, AnalysisBatch } from '../utils/analysisPipeline';
+import { AiAnalysis, isAiAnalysisError } from '../types/analysis';
+import {
+  ANNOTATION_CATEGORIES,
+  AnnotationCategory,
+  AnnotationShape,
+  AnnotationView,
+  PanoramaAnnotation,
+  annotationCategoryLabel
+} from '../types/annotation';
+import { annotationStore, generateAnnotationId } from '../utils/annotationStore';
+import { projectAnnotation } from '../utils/panoramaProjection';
 
 interface PanoramaViewerProps {
   lon: number;
   lat: number;
   date: string;
   apiKey: string;
+  initialView?: Partial<PanoramaControlsState>; // e.g. camera aimed at a chosen building
   onClose?: () => void;
   className?: string;
 }
 
+type ImagePoint = [number, number];
+
+// A drawn shape waiting for its category and comment
+interface PendingAnnotation {
+  shape: AnnotationShape;
+  points: ImagePoint[];
+  view: AnnotationView;
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const categoryColor = (category: AnnotationCategory) =>
+  ANNOTATION_CATEGORIES.find(item => item.key === category)?.color || '#00D4FF';
+
 const PanoramaViewer: React.FC<PanoramaViewerProps> = ({
   lon,
   lat,
   date,
   apiKey,
+  initialView,
   onClose,
   className = ''
 }) => {
@@ -25,7 +53,8 @@ const PanoramaViewer: React.FC<PanoramaViewerProps> = ({
     pitch: PANORAMA_DEFAULTS.defaultPitch,
     fov: PANORAMA_DEFAULTS.defaultFov,
     width: PANORAMA_DEFAULTS.defaultWidth,
-    height: 800
+    height: 800,
+    ...initialView
   });
 
   const [imageState, setImageState] = useState({
@@ -36,18 +65,32 @@ const PanoramaViewer: React.FC<PanoramaViewerProps> = ({
   });
 
   const [isDownloading, setIsDownloading] = useState(false);
-  const [aiAnalysis, setAiAnalysis] = useState<any | null>(null);
+  const [aiAnalysis, setAiAnalysis] = useState<AiAnalysis | null>(null);
   const [isAiAnalyzing, setIsAiAnalyzing] = useState(false);
+
+  // Annotations - drawn in image coordinates of the view they were made in, re-projected
+  // into whatever view is shown
+  const [imageView, setImageView] = useState<AnnotationView | null>(null);
+  const [annotations, setAnnotations] = useState<PanoramaAnnotation[]>([]);
+  const [annotationTool, setAnnotationTool] = useState<AnnotationShape | null>(null);
+  const [draftPoints, setDraftPoints] = useState<ImagePoint[]>([]);
+  const [pendingAnnotation, setPendingAnnotation] = useState<PendingAnnotation | null>(null);
+  const [annotationCategory, setAnnotationCategory] = useState<AnnotationCategory>('stav_fasady');
+  const [annotationComment, setAnnotationComment] = useState('');
   
   // Refs
   const panoramaApiRef = useRef<PanoramaApiService | null>(null);
   const updateTimeoutRef = useRef<NodeJS.Timeout | undefined>(undefined);
+  const analysisBatchRef = useRef<AnalysisBatch<string> | null>(null);
+  const overlayRef = useRef<SVGSVGElement>(null);
+  const isDrawingRef = useRef(false);
 
   // Initialize API service
   useEffect(() => {
     panoramaApiRef.current = new PanoramaApiService(apiKey);
     
     return () => {
+      analysisBatchRef.current?.cancel();
       if (panoramaApiRef.current) {
         panoramaApiRef.current.clearCache();
       }
@@ -61,9 +104,10 @@ const PanoramaViewer: React.FC<PanoramaViewerProps> = ({
     setImageState(prev => ({ ...prev, loading: true, error: null }));
 
     try {
-      const response = await panoramaApiRef.current.fetchPanoramaImage(lon, lat, controls);
+      const response = await panoramaApiRef.current.fetchPanoramaImage(lon, lat, controls, undefined, 'interactive');
       
       if (response.success && response.imageUrl) {
+        setImageView({ yaw: controls.yaw, pitch: controls.pitch, fov: controls.fov, width: controls.width, height: controls.height });
         setImageState(prev => ({
           ...prev,
           url: response.imageUrl!,
@@ -91,6 +135,12 @@ const PanoramaViewer: React.FC<PanoramaViewerProps> = ({
     updateImage();
   }, [lon, lat]); // Only re-trigger if the location fundamentally changes
 
+  useEffect(() => {
+    annotationStore.listForPanorama(lon, lat)
+      .then(setAnnotations)
+      .catch(error => console.warn('⚠️ Failed to load annotations:', error));
+  }, [lon, lat]);
+
   // Debounced update effect for controls changes
   useEffect(() => {
     const handler = setTimeout(() => {
@@ -112,40 +162,107 @@ const PanoramaViewer: React.FC<PanoramaViewerProps> = ({
     setIsAiAnalyzing(true);
     setAiAnalysis(null);
 
-    try {
-      const blob = await fetch(imageState.url).then(r => r.blob());
-      const reader = new FileReader();
-      const dataUrl = await new Promise<string>((resolve, reject) => {
-        reader.onloadend = () => resolve(reader.result as string);
-        reader.onerror = reject;
-        reader.readAsDataURL(blob);
-      });
-
-      const response = await fetch('/api/analyze-property', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          imageUrl: dataUrl,
-          coordinates: [lon, lat]
-        })
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'AI analýza selhala.');
+    // Analyse exactly the view the user is looking at
+    const pipeline = new AnalysisPipeline(apiKey);
+    const batch = pipeline.runBatch<string>([{ id: 'viewer', lon, lat, imageUrl: imageState.url }]);
+    analysisBatchRef.current = batch;
+
+    batch.subscribe(event => {
+      if (event.type !== 'item') return;
+      if (event.status === 'completed' && event.result) {
+        setAiAnalysis(event.result);
+      } else if (event.status === 'failed' && event.error) {
+        console.error(`Chyba při AI analýze:`, event.error);
+        setAiAnalysis(event.error);
       }
+    });
+
+    await batch.done;
+    setIsAiAnalyzing(false);
+  };
+
 
-      const result = await response.json();
-      setAiAnalysis(result);
+  // --- Annotation drawing ---
 
+  const toImagePoint = (event: React.PointerEvent<SVGSVGElement>): ImagePoint | null => {
+    const ctm = overlayRef.current?.getScreenCTM();
+    if (!ctm || !imageView) return null;
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(ctm.inverse());
+    return [clamp01(point.x / imageView.width), clamp01(point.y / imageView.height)];
+  };
+
+  const handleOverlayPointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    const point = toImagePoint(event);
+    if (!annotationTool || pendingAnnotation || !point) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    isDrawingRef.current = true;
+    setDraftPoints(annotationTool === 'box' ? [point, point] : [point]);
+  };
+
+  const handleOverlayPointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const point = toImagePoint(event);
+    if (!isDrawingRef.current || !point) return;
+    setDraftPoints(prev => {
+      if (annotationTool === 'box') return [prev[0], point];
+      const last = prev[prev.length - 1];
+      return Math.hypot(point[0] - last[0], point[1] - last[1]) > 0.003 ? [...prev, point] : prev;
+    });
+  };
+
+  const handleOverlayPointerUp = () => {
+    if (!isDrawingRef.current || !annotationTool || !imageView) return;
+    isDrawingRef.current = false;
+    const [first, last] = [draftPoints[0], draftPoints[draftPoints.length - 1]];
+    // Ignore clicks - a box needs some size, a stroke some length
+    const tooSmall = annotationTool === 'box'
+      ? Math.abs(first[0] - last[0]) < 0.01 || Math.abs(first[1] - last[1]) < 0.01
+      : draftPoints.length < 3;
+    if (!tooSmall) {
+      setPendingAnnotation({ shape: annotationTool, points: draftPoints, view: imageView });
+    }
+    setDraftPoints([]);
+  };
+
+  const handleSaveAnnotation = async () => {
+    if (!pendingAnnotation) return;
+    const annotation: PanoramaAnnotation = {
+      id: generateAnnotationId(),
+      lon,
+      lat,
+      ...pendingAnnotation,
+      category: annotationCategory,
+      comment: annotationComment.trim(),
+      createdAt: new Date().toISOString()
+    };
+    try {
+      await annotationStore.save(annotation);
+      setAnnotations(prev => [...prev, annotation]);
+      setPendingAnnotation(null);
+      setAnnotationComment('');
     } catch (error) {
-      console.error(`Chyba při AI analýze:`, error);
-      setAiAnalysis({ error: (error as Error).message });
-    } finally {
-      setIsAiAnalyzing(false);
+      console.error('❌ Failed to save annotation:', error);
+      alert(`Anotaci se nepodařilo uložit: ${(error as Error).message}`);
+    }
+  };
+
+  const handleDeleteAnnotation = async (id: string) => {
+    if (!window.confirm('Smazat anotaci?')) return;
+    try {
+      await annotationStore.delete(id);
+      setAnnotations(prev => prev.filter(annotation => annotation.id !== id));
+    } catch (error) {
+      console.error('❌ Failed to delete annotation:', error);
+      alert(`Anotaci se nepodařilo smazat: ${(error as Error).message}`);
     }
   };
 
+  // Reopen the exact view an annotation was drawn in
+  const showAnnotationView = (annotation: PanoramaAnnotation) => {
+    setControls(prev => ({ ...prev, ...annotation.view }));
+  };
+
+  const toSvgPoints = (points: ImagePoint[], view: AnnotationView) =>
+    points.map(([x, y]) => `${x * view.width},${y * view.height}`).join(' ');
 
   // Control handlers
   const handleControlChange = (key: keyof PanoramaControlsState, value: number) => {
@@ -155,15 +272,16 @@ const PanoramaViewer: React.FC<PanoramaViewerProps> = ({
     }));
   };
 
-  const resetControls = () => {
+  const resetControls = useCallback(() => {
     setControls({
       yaw: PANORAMA_DEFAULTS.defaultYaw,
       pitch: PANORAMA_DEFAULTS.defaultPitch,
       fov: PANORAMA_DEFAULTS.defaultFov,
       width: PANORAMA_DEFAULTS.defaultWidth,
-      height: 800
+      height: 800,
+      ...initialView
     });
-  };
+  }, [initialView]);
 
   // Download handler
   const handleDownload = async () => {
@@ -193,7 +311,7 @@ const PanoramaViewer: React.FC<PanoramaViewerProps> = ({
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeydown = (e: KeyboardEvent) => {
-      if (e.target instanceof HTMLInputElement) return;
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLSelectElement) return;
 
       const step = 10;
       switch (e.key) {
@@ -230,7 +348,7 @@ const PanoramaViewer: React.FC<PanoramaViewerProps> = ({
 
     document.addEventListener('keydown', handleKeydown);
     return () => document.removeEventListener('keydown', handleKeydown);
-  }, [controls, onClose]);
+  }, [controls, onClose, resetControls]);
 
   return (
     <div className={`panorama-viewer bg-dark-bg text-white flex flex-col h-full ${className}`}>
@@ -279,12 +397,60 @@ const PanoramaViewer: React.FC<PanoramaViewerProps> = ({
               </button>
             </div>
           ) : imageState.url ? (
-            <div className="w-full h-full flex items-center justify-center">
+            <div className="w-full h-full relative">
               <img
                 src={imageState.url}
                 alt={`Panorama at ${lat.toFixed(6)}, ${lon.toFixed(6)}`}
-                className="max-w-full max-h-full object-contain"
+                className="w-full h-full object-contain"
               />
+              {/* Annotation layer - letterboxed exactly like the object-contain image */}
+              {imageView && (
+                <svg
+                  ref={overlayRef}
+                  viewBox={`0 0 ${imageView.width} ${imageView.height}`}
+                  preserveAspectRatio="xMidYMid meet"
+                  className={`absolute inset-0 w-full h-full ${annotationTool && !pendingAnnotation ? 'cursor-crosshair' : 'pointer-events-none'}`}
+                  onPointerDown={handleOverlayPointerDown}
+                  onPointerMove={handleOverlayPointerMove}
+                  onPointerUp={handleOverlayPointerUp}
+                >
+                  {annotations.map((annotation, index) => {
+                    const outline = projectAnnotation(annotation, imageView);
+                    if (!outline) return null;
+                    const color = categoryColor(annotation.category);
+                    const Shape = annotation.shape === 'box' ? 'polygon' : 'polyline';
+                    return (
+                      <g key={annotation.id}>
+                        <Shape points={toSvgPoints(outline, imageView)} fill="none" stroke={color} strokeWidth={3} vectorEffect="non-scaling-stroke" />
+                        <text x={outline[0][0] * imageView.width + 6} y={outline[0][1] * imageView.height + 26} fill={color} fontSize={24} fontWeight="bold">
+                          {index + 1}
+                        </text>
+                      </g>
+                    );
+                  })}
+                  {pendingAnnotation && (() => {
+                    const outline = projectAnnotation(pendingAnnotation, imageView);
+                    const Shape = pendingAnnotation.shape === 'box' ? 'polygon' : 'polyline';
+                    return outline && (
+                      <Shape points={toSvgPoints(outline, imageView)} fill="none" stroke={categoryColor(annotationCategory)} strokeWidth={3} strokeDasharray="8 6" vectorEffect="non-scaling-stroke" />
+                    );
+                  })()}
+                  {draftPoints.length > 0 && (annotationTool === 'box' ? (
+                    <rect
+                      x={Math.min(draftPoints[0][0], draftPoints[1][0]) * imageView.width}
+                      y={Math.min(draftPoints[0][1], draftPoints[1][1]) * imageView.height}
+                      width={Math.abs(draftPoints[1][0] - draftPoints[0][0]) * imageView.width}
+                      height={Math.abs(draftPoints[1][1] - draftPoints[0][1]) * imageView.height}
+                      fill="none"
+                      stroke="#ffffff"
+                      strokeWidth={2}
+                      vectorEffect="non-scaling-stroke"
+                    />
+                  ) : (
+                    <polyline points={toSvgPoints(draftPoints, imageView)} fill="none" stroke="#ffffff" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+                  ))}
+                </svg>
+              )}
             </div>
           ) : null}
         </div>
@@ -338,6 +504,73 @@ const PanoramaViewer: React.FC<PanoramaViewerProps> = ({
 
           <div className="border-t border-gray-800"></div>
 
+          {/* Annotations Panel */}
+          <div>
+            <h4 className="text-lg font-bold text-white mb-3">Anotace</h4>
+            <div className="flex gap-2 text-sm">
+              {([['box', '▭ Obdélník'], ['freehand', '✏️ Od ruky']] as [AnnotationShape, string][]).map(([shape, label]) => (
+                <button
+                  key={shape}
+                  onClick={() => setAnnotationTool(annotationTool === shape ? null : shape)}
+                  disabled={imageState.loading || !!imageState.error}
+                  className={`flex-1 px-3 py-2 border border-gray-700 transition-colors disabled:opacity-50 ${annotationTool === shape ? 'bg-electric-blue text-white' : 'bg-gray-800 hover:bg-gray-700'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {annotationTool && !pendingAnnotation && (
+              <p className="text-xs text-gray-400 mt-2">Vyznačte vadu tažením myši v obrázku.</p>
+            )}
+
+            {pendingAnnotation && (
+              <div className="mt-3 space-y-2 text-sm bg-gray-900 border border-gray-800 p-3">
+                <select
+                  value={annotationCategory}
+                  onChange={(e) => setAnnotationCategory(e.target.value as AnnotationCategory)}
+                  className="w-full bg-gray-800 border border-gray-700 px-2 py-1 text-white focus:border-electric-blue outline-none appearance-none"
+                >
+                  {ANNOTATION_CATEGORIES.map(category => (
+                    <option key={category.key} value={category.key}>{category.label}</option>
+                  ))}
+                </select>
+                <textarea
+                  value={annotationComment}
+                  onChange={(e) => setAnnotationComment(e.target.value)}
+                  rows={2}
+                  placeholder="Komentář, např. opadaná omítka u vchodu"
+                  className="w-full bg-gray-800 border border-gray-700 px-2 py-1 text-white focus:border-electric-blue outline-none resize-none"
+                />
+                <div className="flex gap-2">
+                  <button onClick={handleSaveAnnotation} className="flex-1 px-3 py-1 bg-electric-blue hover:bg-electric-blue/80 transition-colors">Uložit</button>
+                  <button onClick={() => setPendingAnnotation(null)} className="flex-1 px-3 py-1 bg-gray-800 hover:bg-gray-700 border border-gray-700 transition-colors">Zrušit</button>
+                </div>
+              </div>
+            )}
+
+            {annotations.length > 0 && (
+              <ul className="mt-3 space-y-1 text-xs">
+                {annotations.map((annotation, index) => (
+                  <li key={annotation.id} className="flex items-start gap-2">
+                    <button
+                      onClick={() => showAnnotationView(annotation)}
+                      className="flex-1 text-left hover:bg-gray-800 px-1"
+                      title={`Zobrazit pohled, ve kterém byla anotace nakreslena (yaw ${annotation.view.yaw}°, pitch ${annotation.view.pitch}°, FOV ${annotation.view.fov}°)`}
+                    >
+                      <span className="font-bold" style={{ color: categoryColor(annotation.category) }}>
+                        {index + 1}. {annotationCategoryLabel(annotation.category)}
+                      </span>
+                      {annotation.comment && <span className="text-gray-300"> – {annotation.comment}</span>}
+                    </button>
+                    <button onClick={() => handleDeleteAnnotation(annotation.id)} className="text-gray-500 hover:text-red-400" title="Smazat anotaci">🗑️</button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="border-t border-gray-800"></div>
+
           {/* AI Analysis Panel */}
           <div>
             <h4 className="text-lg font-bold text-white mb-3">AI Analýza</h4>
@@ -350,11 +583,16 @@ const PanoramaViewer: React.FC<PanoramaViewerProps> = ({
                 ? 'Analyzuji...' 
                 : (aiAnalysis ? 'Spustit analýzu znovu' : 'Spustit AI Analýzu')}
             </button>
-            {isAiAnalyzing && <div className="text-center text-sm text-gray-400 mt-2">Analýza může trvat několik sekund...</div>}
+            {isAiAnalyzing && (
+              <div className="text-center text-sm text-gray-400 mt-2">
+                Analýza může trvat několik sekund...
+                <button onClick={() => analysisBatchRef.current?.cancel()} className="ml-2 text-red-300 hover:text-red-200 underline">Zrušit</button>
+              </div>
+            )}
 
             {aiAnalysis && (
               <div className="mt-4 space-y-3 text-xs bg-gray-900 border border-gray-800 p-3">
-                {aiAnalysis.error ? (
+                {isAiAnalysisError(aiAnalysis) ? (
                   <div className="text-red-400">Chyba: {aiAnalysis.error}</div>
                 ) : (
                   <>
@@ -368,7 +606,7 @@ const PanoramaViewer: React.FC<PanoramaViewerProps> = ({
                         {Object.entries(aiAnalysis.checklist).map(([key, value]) => (
                           <div key={key} className="flex justify-between">
                             <span className="text-gray-400 capitalize">{key.replace(/_/g, ' ')}:</span>
-                            <span className="font-mono text-white">{value as any}</span>
+                            <span className="font-mono text-white">{value}</span>
                           </div>
                         ))}
                       </div>
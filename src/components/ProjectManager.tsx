@@ -0,0 +1,191 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Project, ProjectSummary } from '../types/project';
+import { projectStore } from '../utils/projectStore';
+
+interface ProjectManagerProps {
+  currentProjectId: string | null;
+  onOpen: (project: Project) => void;
+  onSaveAs: (name: string) => Promise<void>;
+  onCurrentRenamed: (name: string) => void;
+  onCurrentDeleted: () => void;
+  onClose: () => void;
+}
+
+const ProjectManager: React.FC<ProjectManagerProps> = ({
+  currentProjectId,
+  onOpen,
+  onSaveAs,
+  onCurrentRenamed,
+  onCurrentDeleted,
+  onClose
+}) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setProjects(await projectStore.list());
+    } catch (error) {
+      console.error('Načtení projektů selhalo:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Run a store action with per-row busy state and a refresh afterwards
+  const runAction = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    try {
+      await action();
+      await refresh();
+    } catch (error) {
+      console.error('Operace s projektem selhala:', error);
+      alert(`Operace s projektem selhala: ${(error as Error).message}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleOpen = (id: string) => runAction(id, async () => {
+    const project = await projectStore.get(id);
+    if (!project) throw new Error('Projekt nebyl nalezen.');
+    onOpen(project);
+    onClose();
+  });
+
+  const handleRename = (summary: ProjectSummary) => {
+    const name = prompt('Nový název projektu:', summary.name);
+    if (!name || name.trim() === summary.name) return;
+    runAction(summary.id, async () => {
+      const renamed = await projectStore.rename(summary.id, name);
+      if (summary.id === currentProjectId) onCurrentRenamed(renamed.name);
+    });
+  };
+
+  const handleDuplicate = (summary: ProjectSummary) =>
+    runAction(summary.id, async () => {
+      await projectStore.duplicate(summary.id);
+    });
+
+  const handleDelete = (summary: ProjectSummary) => {
+    if (!window.confirm(`Opravdu smazat projekt "${summary.name}"?`)) return;
+    runAction(summary.id, async () => {
+      await projectStore.delete(summary.id);
+      if (summary.id === currentProjectId) onCurrentDeleted();
+    });
+  };
+
+  const handleSaveAs = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    await runAction('new', async () => {
+      await onSaveAs(newName.trim());
+      setNewName('');
+    });
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 bg-dark-bg/80 flex items-center justify-center" onClick={onClose}>
+      <div
+        className="w-[32rem] max-h-[80vh] bg-dark-card border border-gray-800 flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-800">
+          <h2 className="text-xl font-bold text-white">Projekty</h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-800 transition-colors" title="Zavřít">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Save current state as a new project */}
+        <form onSubmit={handleSaveAs} className="p-4 border-b border-gray-800 flex gap-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Název nového projektu"
+            className="flex-1 bg-gray-800 border border-gray-700 px-3 py-2 text-white text-sm focus:border-electric-blue outline-none"
+          />
+          <button
+            type="submit"
+            disabled={!newName.trim() || busyId !== null}
+            className="px-4 py-2 text-sm font-medium bg-electric-blue hover:bg-electric-blue/80 disabled:opacity-50 transition-colors"
+          >
+            Uložit jako nový
+          </button>
+        </form>
+
+        {/* Project list */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {isLoading ? (
+            <div className="text-center text-gray-400 py-8">Načítám projekty...</div>
+          ) : projects.length === 0 ? (
+            <div className="text-center text-gray-500 py-8">Zatím žádné uložené projekty</div>
+          ) : (
+            projects.map(project => (
+              <div
+                key={project.id}
+                className={`bg-gray-900 border p-3 ${project.id === currentProjectId ? 'border-electric-blue' : 'border-gray-800'}`}
+              >
+                <div className="flex items-start justify-between">
+                  <div>
+                    <h4 className="font-semibold text-white">{project.name}</h4>
+                    <div className="text-xs text-gray-500 mt-1">
+                      {project.panoramaCount} panoramat · {project.analyzedCount} analyzováno ·
+                      upraveno {new Date(project.updatedAt).toLocaleString()}
+                    </div>
+                  </div>
+                  {project.id === currentProjectId && (
+                    <span className="text-xs bg-electric-blue/20 text-electric-blue px-2 py-0.5">Otevřený</span>
+                  )}
+                </div>
+                <div className="flex gap-2 mt-3 text-xs">
+                  <button
+                    onClick={() => handleOpen(project.id)}
+                    disabled={busyId !== null}
+                    className="px-3 py-1 bg-green-600 hover:bg-green-500 disabled:opacity-50 transition-colors"
+                  >
+                    Otevřít
+                  </button>
+                  <button
+                    onClick={() => handleRename(project)}
+                    disabled={busyId !== null}
+                    className="px-3 py-1 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 transition-colors"
+                  >
+                    Přejmenovat
+                  </button>
+                  <button
+                    onClick={() => handleDuplicate(project)}
+                    disabled={busyId !== null}
+                    className="px-3 py-1 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 transition-colors"
+                  >
+                    Duplikovat
+                  </button>
+                  <button
+                    onClick={() => handleDelete(project)}
+                    disabled={busyId !== null}
+                    className="px-3 py-1 ml-auto bg-gray-800 hover:bg-red-700 text-red-300 disabled:opacity-50 transition-colors"
+                  >
+                    Smazat
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectManager;
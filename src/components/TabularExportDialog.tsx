@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { TABULAR_COLUMNS, DEFAULT_TABULAR_EXPORT_OPTIONS, TabularExportOptions } from '../utils/tabularExport';
+
+interface TabularExportDialogProps {
+  onExport: (format: 'csv' | 'xlsx', options: TabularExportOptions) => void;
+  onClose: () => void;
+}
+
+// Column choice is remembered between exports
+const STORAGE_KEY = 'flipakt-tabular-export';
+
+const loadOptions = (): TabularExportOptions => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (saved && Array.isArray(saved.columns)) {
+      return { ...DEFAULT_TABULAR_EXPORT_OPTIONS, ...saved };
+    }
+  } catch {
+    // Corrupted settings - fall back to defaults
+  }
+  return DEFAULT_TABULAR_EXPORT_OPTIONS;
+};
+
+const TabularExportDialog: React.FC<TabularExportDialogProps> = ({ onExport, onClose }) => {
+  const [options, setOptions] = useState<TabularExportOptions>(loadOptions);
+
+  const toggleColumn = (id: string) => {
+    setOptions(prev => ({
+      ...prev,
+      // Keep the canonical column order regardless of click order
+      columns: prev.columns.includes(id)
+        ? prev.columns.filter(column => column !== id)
+        : TABULAR_COLUMNS.map(column => column.id).filter(column => column === id || prev.columns.includes(column))
+    }));
+  };
+
+  const handleExport = (format: 'csv' | 'xlsx') => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+    onExport(format, options);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center" onClick={onClose}>
+      <div className="bg-dark-card border border-gray-800 w-96 max-h-[80vh] overflow-y-auto p-4" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold text-white">Export tabulky</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+        </div>
+
+        <div className="flex items-center justify-between mb-2 text-sm">
+          <span className="text-gray-400">Sloupce</span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setOptions(prev => ({ ...prev, columns: TABULAR_COLUMNS.map(column => column.id) }))}
+              className="px-2 py-0.5 text-xs bg-gray-800 hover:bg-gray-700 text-gray-200"
+            >
+              Vše
+            </button>
+            <button
+              onClick={() => setOptions(prev => ({ ...prev, columns: DEFAULT_TABULAR_EXPORT_OPTIONS.columns }))}
+              className="px-2 py-0.5 text-xs bg-gray-800 hover:bg-gray-700 text-gray-200"
+            >
+              Výchozí
+            </button>
+          </div>
+        </div>
+        <div className="grid grid-cols-1 gap-1 mb-4">
+          {TABULAR_COLUMNS.map(column => (
+            <label key={column.id} className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={options.columns.includes(column.id)}
+                onChange={() => toggleColumn(column.id)}
+                className="accent-electric-blue"
+              />
+              {column.label}
+            </label>
+          ))}
+        </div>
+
+        <label className="text-sm text-gray-400 mb-1 block">Oddělovač CSV</label>
+        <select
+          value={options.delimiter}
+          onChange={(e) => setOptions(prev => ({ ...prev, delimiter: e.target.value as TabularExportOptions['delimiter'] }))}
+          className="w-full bg-gray-800 border border-gray-700 px-3 py-2 text-white text-sm focus:border-electric-blue outline-none appearance-none mb-4"
+        >
+          <option value=",">Čárka (RFC 4180)</option>
+          <option value=";">Středník (české Excel)</option>
+        </select>
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => handleExport('csv')}
+            disabled={options.columns.length === 0}
+            className="flex-1 px-3 py-2 text-sm bg-gray-800 text-gray-200 hover:bg-gray-700 disabled:opacity-50 transition-colors"
+          >
+            Stáhnout CSV
+          </button>
+          <button
+            onClick={() => handleExport('xlsx')}
+            disabled={options.columns.length === 0}
+            className="flex-1 px-3 py-2 text-sm bg-green-600 text-white hover:bg-green-500 disabled:opacity-50 transition-colors"
+          >
+            Stáhnout XLSX
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TabularExportDialog;
@@ -0,0 +1,13 @@
+// Types for panoramaUrl.js - shared with /api
+
+export const STATIC_PANORAMA_BASE_URL: string;
+
+export interface StaticPanoramaOptions {
+  yaw?: number; // degrees
+  pitch?: number; // degrees
+  fov?: number; // degrees
+  width?: number;
+  height?: number;
+}
+
+export function buildStaticPanoramaUrl(lon: number, lat: number, options: StaticPanoramaOptions, apiKey: string): string;
@@ -0,0 +1,43 @@
+// Mapy.cz Static Panorama API URL builder.
+// Plain ES module so the batch job runner in /api requests exactly the same images as the client.
+
+export const STATIC_PANORAMA_BASE_URL = 'https://api.mapy.cz/v1/static/pano';
+
+// IMPORTANT: Max dimensions are 1024x1024 pixels!
+// yaw: 0–2π radians (or "auto"/"point")
+// pitch: ±π radians
+// fov: π/2 to π/20 radians (API is VERY strict about these limits!)
+// Options are in degrees, the API wants radians.
+export function buildStaticPanoramaUrl(lon, lat, options, apiKey) {
+  const width = Math.min(options.width || 1024, 1024); // Max 1024px!
+  const height = Math.min(options.height || 800, 1024); // Max 1024px!
+
+  // Convert degrees to radians for yaw (0-360° → 0-2π)
+  const yawDegrees = options.yaw !== undefined ? options.yaw : 0;
+  const yawRadians = (yawDegrees * Math.PI) / 180;
+
+  // Convert degrees to radians for pitch (-90 to 90° → -π to π)
+  const pitchDegrees = options.pitch !== undefined ? options.pitch : 0;
+  const pitchRadians = (pitchDegrees * Math.PI) / 180;
+
+  // Convert FOV degrees to radians
+  // CRITICAL: API rejects values >= Math.PI/2, so we cap at 1.57 (just under π/2)
+  const fovDegrees = options.fov || 90;
+  const fovRadians = (fovDegrees * Math.PI) / 180;
+  const minFov = Math.PI / 20; // ~0.157 radians (9°)
+  const maxFov = 1.57; // Safely under π/2 (1.5708), API strictly rejects >= π/2
+  const safeFov = Math.min(Math.max(fovRadians, minFov), maxFov);
+
+  const params = new URLSearchParams({
+    lon: lon.toString(),
+    lat: lat.toString(),
+    width: width.toString(),
+    height: height.toString(),
+    yaw: yawRadians.toFixed(4),
+    pitch: pitchRadians.toFixed(4),
+    fov: safeFov.toFixed(4),
+    apikey: apiKey
+  });
+
+  return `${STATIC_PANORAMA_BASE_URL}?${params.toString()}`;
+}
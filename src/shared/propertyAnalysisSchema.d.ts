@@ -0,0 +1,78 @@
+// Types for propertyAnalysisSchema.js - the runtime validator shared with /api
+
+export const PROPERTY_ANALYSIS_SCHEMA_VERSION: 1;
+
+export type ChecklistKey =
+  | 'stav_fasady'
+  | 'stav_oken_dveri'
+  | 'stav_strechy'
+  | 'okoli_nemovitosti'
+  | 'celkovy_dojem';
+
+export const CHECKLIST_KEYS: ChecklistKey[];
+export const CHECKLIST_SCORE_RANGE: { min: number; max: number };
+export const POTENTIAL_SCORE_RANGE: { min: number; max: number };
+export const MAX_ANALYSIS_VIEWS: number;
+
+// Checklist scores 0-10, 10 = worst
+export type PropertyChecklist = Record<ChecklistKey, number>;
+
+export interface PropertySummary {
+  pozitiva: string[];
+  negativa: string[];
+  doporuceni: string;
+  potencial_prodeje_skore: number; // 0-100
+}
+
+// 1-based number of the view that supported each checklist score, null = not visible
+export type PropertyChecklistEvidence = Record<ChecklistKey, number | null>;
+
+export interface PropertyAnalysis {
+  schemaVersion: typeof PROPERTY_ANALYSIS_SCHEMA_VERSION;
+  checklist: PropertyChecklist;
+  checklist_pohled?: PropertyChecklistEvidence; // Present for multi-view analyses
+  souhrn: PropertySummary;
+  stari_a_styl: string;
+}
+
+// Camera direction of one analysed image, in degrees
+export interface AnalysisView {
+  yaw: number;
+  pitch: number;
+  fov: number;
+}
+
+// What /api/analyze-property returns: the analysis plus request metadata
+export interface PropertyAnalysisResponse extends PropertyAnalysis {
+  coordinates: [number, number];
+  imageUrl?: string;
+  views?: AnalysisView[]; // Views in the order the checklist_pohled numbers refer to
+  timestamp: string;
+}
+
+export interface ValidationOptions {
+  viewCount?: number;
+}
+
+export type SchemaIssueCode = 'missing' | 'type' | 'range' | 'version';
+
+export interface SchemaIssue {
+  path: string;
+  code: SchemaIssueCode;
+  message: string;
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: SchemaIssue[] };
+
+export class PropertyAnalysisSchemaError extends Error {
+  code: 'SCHEMA_VALIDATION_FAILED';
+  issues: SchemaIssue[];
+  readonly hasRangeIssue: boolean;
+  constructor(issues: SchemaIssue[]);
+}
+
+export function validatePropertyAnalysis<T extends PropertyAnalysis = PropertyAnalysis>(value: unknown, options?: ValidationOptions): ValidationResult<T>;
+
+export function parsePropertyAnalysis<T extends PropertyAnalysis = PropertyAnalysis>(value: unknown, options?: ValidationOptions): T;
@@ -0,0 +1,140 @@
+// Shared schema for AI property analysis output.
+// Plain ES module on purpose: imported by the Vercel functions in /api and by the React client.
+// Types live next to it in propertyAnalysisSchema.d.ts - keep both in sync when bumping the version.
+
+export const PROPERTY_ANALYSIS_SCHEMA_VERSION = 1;
+
+// Checklist items, scored 0-10 where 10 is the worst state
+export const CHECKLIST_KEYS = [
+  'stav_fasady',
+  'stav_oken_dveri',
+  'stav_strechy',
+  'okoli_nemovitosti',
+  'celkovy_dojem'
+];
+
+export const CHECKLIST_SCORE_RANGE = { min: 0, max: 10 };
+export const POTENTIAL_SCORE_RANGE = { min: 0, max: 100 };
+
+// Most images one multi-view analysis may combine
+export const MAX_ANALYSIS_VIEWS = 6;
+
+export class PropertyAnalysisSchemaError extends Error {
+  constructor(issues) {
+    super(`AI analýza neodpovídá schématu v${PROPERTY_ANALYSIS_SCHEMA_VERSION}: ` +
+      issues.map(issue => `${issue.path} (${issue.message})`).join('; '));
+    this.name = 'PropertyAnalysisSchemaError';
+    this.code = 'SCHEMA_VALIDATION_FAILED';
+    this.issues = issues;
+  }
+
+  // True when the shape was fine but a score fell outside its range
+  get hasRangeIssue() {
+    return this.issues.some(issue => issue.code === 'range');
+  }
+}
+
+const isPlainObject = value => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function checkScore(value, path, range, issues) {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    issues.push({ path, code: value === undefined ? 'missing' : 'type', message: 'očekáváno číslo' });
+  } else if (value < range.min || value > range.max) {
+    issues.push({ path, code: 'range', message: `mimo rozsah ${range.min}-${range.max}: ${value}` });
+  }
+}
+
+function checkString(value, path, issues) {
+  if (typeof value !== 'string') {
+    issues.push({ path, code: value === undefined ? 'missing' : 'type', message: 'očekáván text' });
+  }
+}
+
+// checklist_pohled: for every checklist item the 1-based number of the view that
+// supported the score, or null when no view showed it clearly
+function checkViewEvidence(value, viewCount, issues) {
+  if (value === undefined) {
+    if (viewCount > 1) {
+      issues.push({ path: 'checklist_pohled', code: 'missing', message: 'očekáván objekt pro více pohledů' });
+    }
+    return;
+  }
+  if (!isPlainObject(value)) {
+    issues.push({ path: 'checklist_pohled', code: 'type', message: 'očekáván objekt' });
+    return;
+  }
+
+  CHECKLIST_KEYS.forEach(key => {
+    const path = `checklist_pohled.${key}`;
+    const view = value[key];
+    if (view === null || view === undefined) return;
+    if (!Number.isInteger(view)) {
+      issues.push({ path, code: 'type', message: 'očekáváno číslo pohledu nebo null' });
+    } else if (view < 1 || (viewCount > 0 && view > viewCount)) {
+      issues.push({ path, code: 'range', message: `mimo rozsah 1-${viewCount || MAX_ANALYSIS_VIEWS}: ${view}` });
+    }
+  });
+}
+
+function checkStringArray(value, path, issues) {
+  if (!Array.isArray(value)) {
+    issues.push({ path, code: value === undefined ? 'missing' : 'type', message: 'očekáváno pole textů' });
+    return;
+  }
+  value.forEach((item, index) => checkString(item, `${path}[${index}]`, issues));
+}
+
+// Validate an analysis object. Unknown extra fields are allowed and preserved
+// (the API envelope adds coordinates, timestamp, ...). A missing schemaVersion is
+// read as v1 - results saved before versioning had exactly this shape.
+// `viewCount` is the number of images analysed together; defaults to the length of
+// the envelope's `views` array. With more than one view, checklist_pohled is required.
+export function validatePropertyAnalysis(value, options = {}) {
+  const issues = [];
+
+  if (!isPlainObject(value)) {
+    return { ok: false, issues: [{ path: '$', code: 'type', message: 'očekáván objekt' }] };
+  }
+
+  const version = value.schemaVersion === undefined ? PROPERTY_ANALYSIS_SCHEMA_VERSION : value.schemaVersion;
+  if (version !== PROPERTY_ANALYSIS_SCHEMA_VERSION) {
+    issues.push({ path: 'schemaVersion', code: 'version', message: `nepodporovaná verze ${version}` });
+  }
+
+  if (!isPlainObject(value.checklist)) {
+    issues.push({ path: 'checklist', code: value.checklist === undefined ? 'missing' : 'type', message: 'očekáván objekt' });
+  } else {
+    CHECKLIST_KEYS.forEach(key => checkScore(value.checklist[key], `checklist.${key}`, CHECKLIST_SCORE_RANGE, issues));
+  }
+
+  if (!isPlainObject(value.souhrn)) {
+    issues.push({ path: 'souhrn', code: value.souhrn === undefined ? 'missing' : 'type', message: 'očekáván objekt' });
+  } else {
+    checkStringArray(value.souhrn.pozitiva, 'souhrn.pozitiva', issues);
+    checkStringArray(value.souhrn.negativa, 'souhrn.negativa', issues);
+    checkString(value.souhrn.doporuceni, 'souhrn.doporuceni', issues);
+    checkScore(value.souhrn.potencial_prodeje_skore, 'souhrn.potencial_prodeje_skore', POTENTIAL_SCORE_RANGE, issues);
+  }
+
+  checkString(value.stari_a_styl, 'stari_a_styl', issues);
+
+  const viewCount = options.viewCount !== undefined
+    ? options.viewCount
+    : Array.isArray(value.views) ? value.views.length : 0;
+  checkViewEvidence(value.checklist_pohled, viewCount, issues);
+
+  if (issues.length > 0) {
+    return { ok: false, issues };
+  }
+
+  return { ok: true, value: { ...value, schemaVersion: PROPERTY_ANALYSIS_SCHEMA_VERSION } };
+}
+
+// Validate or throw PropertyAnalysisSchemaError
+export function parsePropertyAnalysis(value, options = {}) {
+  const result = validatePropertyAnalysis(value, options);
+  if (!result.ok) {
+    throw new PropertyAnalysisSchemaError(result.issues);
+  }
+  return result.value;
+}
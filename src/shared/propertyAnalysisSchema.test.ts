@@ -0,0 +1,113 @@
+import {
+  PROPERTY_ANALYSIS_SCHEMA_VERSION,
+  PropertyAnalysisSchemaError,
+  parsePropertyAnalysis,
+  validatePropertyAnalysis
+} from './propertyAnalysisSchema';
+
+const validAnalysis = () => ({
+  checklist: {
+    stav_fasady: 7,
+    stav_oken_dveri: 5,
+    stav_strechy: 3,
+    okoli_nemovitosti: 2,
+    celkovy_dojem: 6
+  },
+  souhrn: {
+    pozitiva: ['Klidná ulice'],
+    negativa: ['Opadaná omítka'],
+    doporuceni: 'Prověřit vlastníka',
+    potencial_prodeje_skore: 72
+  },
+  stari_a_styl: 'Činžovní dům, 30. léta'
+});
+
+const issuePaths = (value: unknown, viewCount?: number) => {
+  const result = validatePropertyAnalysis(value, viewCount === undefined ? {} : { viewCount });
+  return result.ok ? [] : result.issues.map(issue => `${issue.path}:${issue.code}`);
+};
+
+describe('validatePropertyAnalysis', () => {
+  test('accepts a v1 analysis without schemaVersion and stamps the version', () => {
+    const result = validatePropertyAnalysis({ ...validAnalysis(), timestamp: 'kept' });
+    expect(result).toEqual({
+      ok: true,
+      value: { ...validAnalysis(), timestamp: 'kept', schemaVersion: PROPERTY_ANALYSIS_SCHEMA_VERSION }
+    });
+  });
+
+  test('rejects non-objects', () => {
+    expect(issuePaths(null)).toEqual(['$:type']);
+    expect(issuePaths([validAnalysis()])).toEqual(['$:type']);
+  });
+
+  test('rejects an unknown schema version', () => {
+    expect(issuePaths({ ...validAnalysis(), schemaVersion: 2 })).toEqual(['schemaVersion:version']);
+  });
+
+  test('reports missing, mistyped and out-of-range fields by path', () => {
+    const analysis = validAnalysis();
+    const value = {
+      ...analysis,
+      checklist: { ...analysis.checklist, stav_fasady: 11, stav_strechy: '3', celkovy_dojem: undefined },
+      souhrn: { ...analysis.souhrn, pozitiva: ['ok', 5], potencial_prodeje_skore: -1 },
+      stari_a_styl: undefined
+    };
+    expect(issuePaths(value)).toEqual([
+      'checklist.stav_fasady:range',
+      'checklist.stav_strechy:type',
+      'checklist.celkovy_dojem:missing',
+      'souhrn.pozitiva[1]:type',
+      'souhrn.potencial_prodeje_skore:range',
+      'stari_a_styl:missing'
+    ]);
+  });
+
+  test('requires view evidence only for multi-view analyses', () => {
+    expect(issuePaths(validAnalysis(), 1)).toEqual([]);
+    expect(issuePaths(validAnalysis(), 3)).toEqual(['checklist_pohled:missing']);
+    expect(issuePaths({ ...validAnalysis(), views: [{}, {}] })).toEqual(['checklist_pohled:missing']);
+  });
+
+  test('checks view numbers against the view count', () => {
+    const evidence = {
+      stav_fasady: 1,
+      stav_oken_dveri: null,
+      stav_strechy: 4,
+      okoli_nemovitosti: 1.5,
+      celkovy_dojem: 0
+    };
+    expect(issuePaths({ ...validAnalysis(), checklist_pohled: evidence }, 3)).toEqual([
+      'checklist_pohled.stav_strechy:range',
+      'checklist_pohled.okoli_nemovitosti:type',
+      'checklist_pohled.celkovy_dojem:range'
+    ]);
+  });
+});
+
+const parseError = (value: unknown) => {
+  try {
+    parsePropertyAnalysis(value);
+  } catch (error) {
+    return error;
+  }
+  return null;
+};
+
+describe('parsePropertyAnalysis', () => {
+  test('throws a schema error listing the issues', () => {
+    const analysis = validAnalysis();
+    const error = parseError({ ...analysis, checklist: { ...analysis.checklist, stav_fasady: 42 } });
+    expect(error).toBeInstanceOf(PropertyAnalysisSchemaError);
+    const schemaError = error as PropertyAnalysisSchemaError;
+    expect(schemaError.code).toBe('SCHEMA_VALIDATION_FAILED');
+    expect(schemaError.hasRangeIssue).toBe(true);
+    expect(schemaError.message).toContain('checklist.stav_fasady');
+  });
+
+  test('a shape error is not a range issue', () => {
+    const error = parseError({ ...validAnalysis(), souhrn: 'x' });
+    expect(error).toBeInstanceOf(PropertyAnalysisSchemaError);
+    expect((error as PropertyAnalysisSchemaError).hasRangeIssue).toBe(false);
+  });
+});
@@ -0,0 +1,20 @@
+// Street address of a result, from the /api/reverse-geocode proxy
+export interface PropertyAddress {
+  label: string; // Mapy.cz name of the place, e.g. "Vodičkova 681/14"
+  street: string | null;
+  houseNumber: string | null; // č.p./č.o. as printed, e.g. "681/14"
+  municipality: string | null;
+  district: string | null; // Municipality part / city district, when it differs from the municipality
+  zip: string | null;
+  location?: [number, number] | null; // [lon, lat] of the address point, usually on the building
+}
+
+// "Vodičkova 681/14, Nové Město, Praha" - falls back to the label for places without a street
+export const formatAddress = (address: PropertyAddress): string => {
+  const streetLine = address.street
+    ? [address.street, address.houseNumber].filter(Boolean).join(' ')
+    : address.label;
+  return [streetLine, address.district, address.municipality]
+    .filter((part, index, parts): part is string => !!part && parts.indexOf(part) === index)
+    .join(', ');
+};
@@ -0,0 +1,213 @@
+// Shared types for property analysis results
+import { AnalysisView, ChecklistKey, PropertyAnalysisResponse, SchemaIssue } from '../shared/propertyAnalysisSchema';
+import { PropertyAddress, formatAddress } from './address';
+import { CadastralParcel } from './cadastre';
+import { DealRecord, DealStageId } from './dealPipeline';
+import { PanoramaAnnotation } from './annotation';
+
+export type AnalysisStatus = 'pending' | 'analyzing' | 'completed' | 'failed';
+
+// Stored instead of the analysis when the request or schema validation failed
+export interface AiAnalysisError {
+  error: string;
+  code?: string;
+  issues?: SchemaIssue[];
+}
+
+export type AiAnalysis = PropertyAnalysisResponse | AiAnalysisError;
+
+export const isAiAnalysisError = (analysis: AiAnalysis): analysis is AiAnalysisError =>
+  'error' in analysis;
+
+export interface AnalysisResult {
+  id: number;
+  name: string;
+  coordinates: [number, number]; // [lon, lat]
+  condition: string;
+  confidence: number;
+  issues: string[];
+  recommendation: string;
+  estimatedValue: number;
+  panoramaDate?: string;
+  target?: [number, number]; // [lon, lat] of the building the camera is aimed at
+  streetBearing?: number; // Street direction from a corridor search - views look perpendicular to it
+  corridorDistance?: number; // Metres along the corridor line, for ordering along the street
+  address?: PropertyAddress | null; // Address of the target (or the panorama spot); null = none found
+  cadastre?: CadastralParcel | null; // Parcel looked up on demand; null = none found
+  deal?: DealRecord; // Acquisition pipeline state, missing = not in the pipeline
+  annotations?: PanoramaAnnotation[]; // Defects marked in the viewer - attached from the annotation store for exports
+  aiAnalysis?: AiAnalysis; // AI analysis result or the error that prevented it
+  analysisStatus: AnalysisStatus;
+}
+
+// The property a result is about: the aimed-at building, else the address point, else the panorama spot
+export const resultPropertyPoint = (result: AnalysisResult): [number, number] =>
+  result.target || result.address?.location || result.coordinates;
+
+// Address when known, otherwise the generic "Panorama N" name
+export const resultDisplayName = (result: AnalysisResult) =>
+  result.address ? formatAddress(result.address) : result.name;
+
+export type AnalysisExportFormat = 'csv' | 'xlsx' | 'json' | 'geojson' | 'kml' | 'gpx';
+
+// --- Result filter (shared by AnalysisPanel, the map and exports) ---
+
+export interface AnalysisFilter {
+  minScore: number; // Minimum potencial_prodeje_skore, 0 = off
+  checklistMin: Partial<Record<ChecklistKey, number>>; // Minimum neglect per item, 0/missing = off
+  statuses: AnalysisStatus[];
+  dateFrom: string; // Panorama capture date YYYY-MM-DD, '' = open
+  dateTo: string;
+  text: string; // Searched in doporučení
+  dealStages: DealStageId[]; // Pipeline stages (NO_DEAL_STAGE = outside the pipeline), [] = all
+  mapMode: 'dim' | 'hide'; // What happens to filtered-out markers
+}
+
+export const DEFAULT_ANALYSIS_FILTER: AnalysisFilter = {
+  minScore: 0,
+  checklistMin: {},
+  statuses: ['pending', 'analyzing', 'completed', 'failed'],
+  dateFrom: '',
+  dateTo: '',
+  text: '',
+  dealStages: [],
+  mapMode: 'dim'
+};
+
+// --- Analysis pipeline ---
+
+export interface AnalysisPipelineOptions {
+  concurrency: number; // Worker pool size
+  maxRetries: number; // Retries on 429/5xx and network errors
+  baseDelayMs: number; // First backoff delay, doubled on every retry
+  maxDelayMs: number;
+  endpoint: string;
+}
+
+export const ANALYSIS_PIPELINE_DEFAULTS: AnalysisPipelineOptions = {
+  concurrency: 3,
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  endpoint: '/api/analyze-property'
+};
+
+// --- Multi-view analysis ---
+
+// Which headings are captured for one panorama
+export type AnalysisViewMode = 'single' | 'four-way' | 'street-perpendicular';
+
+export const ANALYSIS_VIEW_MODES: { value: AnalysisViewMode; label: string }[] = [
+  { value: 'single', label: '1 pohled (0°)' },
+  { value: 'four-way', label: '4 pohledy (0/90/180/270°)' },
+  { value: 'street-perpendicular', label: '2 pohledy kolmo k ulici' }
+];
+
+export interface AnalysisItem<Id = string | number> {
+  id: Id;
+  lon: number;
+  lat: number;
+  imageOptions?: Partial<{ yaw: number; pitch: number; fov: number; width: number; height: number }>;
+  views?: AnalysisView[]; // Several headings analysed together in one request
+  imageUrl?: string; // Already loaded (blob) image - skips the panorama fetch
+}
+
+export type AnalysisItemStatus =
+  | 'queued'
+  | 'fetching-image'
+  | 'analyzing'
+  | 'retrying'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export type AnalysisBatchState = 'running' | 'paused' | 'cancelled' | 'completed';
+
+export interface AnalysisBatchProgress {
+  total: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  inFlight: number;
+}
+
+export type AnalysisPipelineEvent<Id = string | number> =
+  | {
+      type: 'item';
+      id: Id;
+      status: AnalysisItemStatus;
+      attempt?: number;
+      retryInMs?: number;
+      result?: PropertyAnalysisResponse;
+      error?: AiAnalysisError;
+      progress: AnalysisBatchProgress;
+    }
+  | {
+      type: 'batch';
+      state: AnalysisBatchState;
+      progress: AnalysisBatchProgress;
+    };
+
+// --- Server-side batch jobs (/api/analysis-jobs) ---
+
+export type AnalysisJobStatus = 'queued' | 'running' | 'completed' | 'cancelled';
+
+export type AnalysisJobItemStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface AnalysisJobView {
+  yaw: number;
+  pitch: number;
+  fov: number;
+  width: number;
+  height: number;
+}
+
+export interface AnalysisJobItem {
+  index: number;
+  ref: string | number; // Caller's id, e.g. AnalysisResult.id
+  lon: number;
+  lat: number;
+  views: AnalysisJobView[];
+  status: AnalysisJobItemStatus;
+  attempts: number;
+  result?: unknown; // Validated on the client with normalizeAiAnalysis
+  error?: AiAnalysisError;
+}
+
+export interface AnalysisJobProgress {
+  total: number;
+  pending: number;
+  running: number;
+  completed: number;
+  failed: number;
+}
+
+export interface AnalysisJobSummary {
+  id: string;
+  status: AnalysisJobStatus;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+  cancelledAt?: string;
+  options: { concurrency: number };
+  progress: AnalysisJobProgress;
+}
+
+export interface AnalysisJob extends AnalysisJobSummary {
+  items: AnalysisJobItem[];
+}
+
+export interface AnalysisJobRequest {
+  items: {
+    ref: string | number;
+    lon: number;
+    lat: number;
+    view?: Partial<AnalysisJobView>;
+    views?: Partial<AnalysisJobView>[];
+  }[];
+  view?: Partial<AnalysisJobView>;
+  concurrency?: number;
+}
+
+export const isAnalysisJobFinished = (job: AnalysisJobSummary) =>
+  job.status === 'completed' || job.status === 'cancelled';
@@ -0,0 +1,44 @@
+// Defect annotations drawn over a panorama view in PanoramaViewer
+import { ChecklistKey } from '../shared/propertyAnalysisSchema';
+
+// Checklist items that can be pointed at in the image (celkový dojem cannot)
+export type AnnotationCategory = Exclude<ChecklistKey, 'celkovy_dojem'>;
+
+export const ANNOTATION_CATEGORIES: { key: AnnotationCategory; label: string; color: string }[] = [
+  { key: 'stav_fasady', label: 'fasáda', color: '#F59E0B' },
+  { key: 'stav_oken_dveri', label: 'okna/dveře', color: '#00D4FF' },
+  { key: 'stav_strechy', label: 'střecha', color: '#EF4444' },
+  { key: 'okoli_nemovitosti', label: 'okolí', color: '#10B981' }
+];
+
+export type AnnotationShape = 'box' | 'freehand';
+
+// The image the annotation was drawn on; width/height give the aspect ratio
+export interface AnnotationView {
+  yaw: number; // degrees
+  pitch: number; // degrees
+  fov: number; // horizontal, degrees
+  width: number;
+  height: number;
+}
+
+export interface PanoramaAnnotation {
+  id: string;
+  lon: number; // Panorama the annotation belongs to
+  lat: number;
+  shape: AnnotationShape;
+  points: [number, number][]; // Image coordinates 0-1 in `view`; a box is two opposite corners
+  view: AnnotationView;
+  category: AnnotationCategory;
+  comment: string;
+  createdAt: string;
+}
+
+export const annotationCategoryLabel = (category: AnnotationCategory) =>
+  ANNOTATION_CATEGORIES.find(item => item.key === category)?.label || category;
+
+// "fasáda: opadaná omítka; střecha: chybí tašky" for exports
+export const describeAnnotations = (annotations: PanoramaAnnotation[]) =>
+  annotations
+    .map(annotation => `${annotationCategoryLabel(annotation.category)}${annotation.comment ? `: ${annotation.comment}` : ''}`)
+    .join('; ');
@@ -0,0 +1,32 @@
+// Types for imported building footprints and per-building aggregated results
+import { ChecklistKey } from '../shared/propertyAnalysisSchema';
+
+export interface BuildingFootprint {
+  id: string;
+  name: string;
+  rings: [number, number][][]; // Outer ring first, [lon, lat]
+  centroid: [number, number]; // [lon, lat]
+  properties: Record<string, unknown>; // Original GeoJSON properties
+}
+
+// Merge of all completed analyses of panoramas that see the building
+export interface BuildingAggregate {
+  analyzedCount: number;
+  checklist: Partial<Record<ChecklistKey, number>>; // Average per item, only items some view showed
+  potentialAverage: number;
+  potentialMax: number;
+  pozitiva: string[];
+  negativa: string[];
+  doporuceni: string; // From the analysis with the highest potential
+}
+
+export interface BuildingResult {
+  building: BuildingFootprint;
+  panoramaIds: number[]; // AnalysisResult ids of panoramas that see the building
+  aggregate: BuildingAggregate | null; // Null until at least one panorama is analysed
+}
+
+export const BUILDING_LINK_DEFAULTS = {
+  maxDistanceM: 40, // Panorama to nearest footprint edge
+  targetSnapDistanceM: 15 // Target point outside every footprint still belongs to one this close
+};
@@ -0,0 +1,10 @@
+// Cadastral parcel under a result, from the /api/cadastre adapter
+export interface CadastralParcel {
+  parcelNumber: string; // e.g. "2067" or "1234/5"
+  parcelId: string | null; // ISKN parcel id, used for the viewer link
+  cadastralArea: string | null; // Katastrální území
+  cadastralAreaCode: string | null;
+  buildingNumber: string | null; // Číslo popisné / evidenční of the building on the parcel
+  landUse: string | null; // Druh pozemku
+  viewerUrl: string | null; // Deep link to Nahlížení do KN (parcel and LV)
+}
@@ -0,0 +1,41 @@
+// Types for the deal pipeline - what the team did with a property after the analysis
+
+export type DealStageId = string;
+
+export interface DealStage {
+  id: DealStageId;
+  label: string;
+  color: string; // Column and badge colour
+  closed?: boolean; // Final stage - due dates no longer apply
+}
+
+export interface DealNote {
+  text: string;
+  createdAt: string; // ISO timestamp
+}
+
+export interface DealStageChange {
+  from: DealStageId | null; // null when the property entered the pipeline
+  to: DealStageId;
+  changedAt: string; // ISO timestamp
+}
+
+export interface DealRecord {
+  stage: DealStageId;
+  notes: DealNote[];
+  tags: string[];
+  dueDate: string; // YYYY-MM-DD, '' = none
+  history: DealStageChange[];
+}
+
+export const DEFAULT_DEAL_STAGES: DealStage[] = [
+  { id: 'new', label: 'Nový', color: '#9CA3AF' },
+  { id: 'reviewing', label: 'Posuzuje se', color: '#00D4FF' },
+  { id: 'contacted', label: 'Kontaktován vlastník', color: '#6B46C1' },
+  { id: 'offer', label: 'Podána nabídka', color: '#F59E0B' },
+  { id: 'won', label: 'Získáno', color: '#10B981', closed: true },
+  { id: 'lost', label: 'Ztraceno', color: '#EF4444', closed: true }
+];
+
+// Stage filter value for results that are not in the pipeline
+export const NO_DEAL_STAGE = 'none';
@@ -43,6 +43,7 @@ export interface PanoramaLocation {
 export interface PanoramaApiResponse {
   success: boolean;
   error?: string;
+  status?: number; // HTTP status of a failed fetch, missing for network errors
   imageUrl?: string;
 }
 
@@ -54,6 +55,32 @@ export interface ImageCache {
   };
 }
 
+export interface DiskCacheEntry {
+  key: string;
+  size: number;
+  timestamp: number;
+  lastAccess: number;
+}
+
+export interface DiskCacheOptions {
+  dbName: string;
+  maxBytes: number; // Byte budget for the whole disk tier
+  ttl: number; // ms, entries older than this are treated as misses
+}
+
+export interface CacheTierStats {
+  count: number;
+  totalSize: number;
+}
+
+export interface PanoramaCacheStats extends CacheTierStats {
+  memory: CacheTierStats;
+  disk: CacheTierStats & {
+    available: boolean;
+    maxBytes: number;
+  };
+}
+
 export interface PanoramaControlsState {
   yaw: number;
   pitch: number;
@@ -62,6 +89,11 @@ export interface PanoramaControlsState {
   height: number;
 }
 
+// Image request options; with a target, yaw/pitch/fov are aimed at that point
+export type PanoramaRequestOptions = Partial<PanoramaControlsState> & {
+  target?: { lon: number; lat: number };
+};
+
 export const PANORAMA_DEFAULTS: PanoramaViewerSettings = {
   defaultYaw: 0,
   defaultPitch: 0,
@@ -73,4 +105,10 @@ export const PANORAMA_DEFAULTS: PanoramaViewerSettings = {
   minFov: 10,
   maxFov: 120,
   downloadFormats: ['jpg', 'png']
-};
\ No newline at end of file
+};
+
+export const PANORAMA_DISK_CACHE_DEFAULTS: DiskCacheOptions = {
+  dbName: 'flipakt-panorama-cache',
+  maxBytes: 200 * 1024 * 1024, // 200 MB
+  ttl: 7 * 24 * 60 * 60 * 1000 // 7 days - static panos change rarely
+};
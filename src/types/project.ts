@@ -0,0 +1,38 @@
+// Types for saved search projects
+import { AnalysisResult } from './analysis';
+import { BuildingFootprint } from './building';
+import { PanoramaLocation } from './panoramaViewer';
+import { SearchArea, StreetCorridor } from './searchArea';
+
+export interface ProjectMapView {
+  center: [number, number]; // [lon, lat]
+  zoom: number;
+}
+
+// Everything needed to restore MapView to the state it was saved in
+export interface ProjectData {
+  polygon: [number, number][][] | null; // First search area's rings in [lon, lat], outer ring first
+  searchAreas?: SearchArea[]; // All search areas and exclusion zones
+  corridor?: StreetCorridor | null; // Street corridor the panoramas were searched along
+  panoramas: PanoramaLocation[];
+  analysisResults: AnalysisResult[];
+  analysisJobId?: string | null; // Server-side analysis job to resume polling on open
+  buildings?: BuildingFootprint[]; // Imported building footprints
+  mapView: ProjectMapView;
+}
+
+export interface Project extends ProjectData {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  panoramaCount: number;
+  analyzedCount: number;
+}
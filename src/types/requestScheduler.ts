@@ -0,0 +1,32 @@
+// Types for the shared Mapy.cz request scheduler
+
+// Lanes in the order they are served: viewer loads, user-started lookups, scans and batches
+export type RequestPriority = 'interactive' | 'normal' | 'background';
+
+export const REQUEST_PRIORITIES: RequestPriority[] = ['interactive', 'normal', 'background'];
+
+export interface RequestSchedulerOptions {
+  ratePerSecond: number; // Token bucket refill rate
+  burst: number; // Token bucket capacity
+  maxInFlight: number;
+  maxRetries: number; // Retries of a request answered with 429
+  backoffBaseMs: number; // First backoff, doubled on every further 429 in a row
+  backoffMaxMs: number;
+}
+
+export interface RequestSchedulerStats {
+  queued: Record<RequestPriority, number>;
+  inFlight: number;
+  completed: number;
+  rateLimited: number; // 429 responses seen
+  pausedUntil: number | null; // Backoff end (ms timestamp) while paused
+}
+
+export const REQUEST_SCHEDULER_DEFAULTS: RequestSchedulerOptions = {
+  ratePerSecond: 20,
+  burst: 40,
+  maxInFlight: 8,
+  maxRetries: 4,
+  backoffBaseMs: 1000,
+  backoffMaxMs: 30000
+};
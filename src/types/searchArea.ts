@@ -0,0 +1,19 @@
+// Types for the drawn search areas
+
+// 'include' areas are searched, 'exclude' zones (own portfolio, industrial areas...) are skipped
+export type SearchAreaRole = 'include' | 'exclude';
+
+export interface SearchArea {
+  role: SearchAreaRole;
+  rings: [number, number][][]; // Outer ring first, holes after, [lon, lat]
+}
+
+// What the next drawn polygon becomes; 'hole' is cut into the search area it lies in
+export type SearchAreaDrawMode = SearchAreaRole | 'hole';
+
+// A street drawn as a polyline - panoramas are searched within widthM around it
+export interface StreetCorridor {
+  line: [number, number][]; // [lon, lat]
+  intervalM: number; // Spacing of the test points along the line
+  widthM: number; // Full corridor width, half on each side
+}
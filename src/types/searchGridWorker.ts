@@ -0,0 +1,25 @@
+// Messages between MapView and the search grid Web Worker
+import { SearchArea } from './searchArea';
+import { DiscoveryCell } from '../utils/panoramaDiscovery';
+
+export type SearchGridTask =
+  // Stream grid points over the search areas in chunks
+  | { type: 'grid'; areas: SearchArea[]; spacingM: number; maxPoints: number; chunkSize: number }
+  // Stream the root cells of the quadtree discovery that touch the search areas
+  | { type: 'cells'; areas: SearchArea[]; rootCellM: number; chunkSize: number }
+  // Number of grid points without sending them
+  | { type: 'count'; areas: SearchArea[]; spacingM: number }
+  // Indices of found panoramas to keep: inside the areas (when given) and not within
+  // minDistanceM of an earlier kept one
+  | { type: 'filter'; points: [number, number][]; areas: SearchArea[] | null; minDistanceM: number };
+
+// Responses carry the id of the request they answer
+export type SearchGridRequest = SearchGridTask & { id: number };
+
+export type SearchGridResponse =
+  | { id: number; type: 'points'; points: { lon: number; lat: number }[] }
+  | { id: number; type: 'cells'; cells: DiscoveryCell[] }
+  | { id: number; type: 'done'; total: number }
+  | { id: number; type: 'count'; count: number }
+  | { id: number; type: 'filtered'; keep: number[] }
+  | { id: number; type: 'error'; message: string };
@@ -0,0 +1,48 @@
+import { CHECKLIST_KEYS } from '../shared/propertyAnalysisSchema';
+import { AnalysisFilter, AnalysisResult, DEFAULT_ANALYSIS_FILTER, isAiAnalysisError } from '../types/analysis';
+import { dealStageOf } from './dealPipeline';
+
+// Case and diacritics insensitive ("strecha" finds "střecha")
+const normalizeText = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+export const matchesFilter = (result: AnalysisResult, filter: AnalysisFilter): boolean => {
+  if (!filter.statuses.includes(result.analysisStatus)) return false;
+  if (filter.dealStages.length > 0 && !filter.dealStages.includes(dealStageOf(result))) return false;
+
+  const analysis = result.aiAnalysis && !isAiAnalysisError(result.aiAnalysis) ? result.aiAnalysis : null;
+
+  // Score and checklist thresholds only let analysed results through
+  if (filter.minScore > 0 && (!analysis || analysis.souhrn.potencial_prodeje_skore < filter.minScore)) {
+    return false;
+  }
+  for (const key of CHECKLIST_KEYS) {
+    const min = filter.checklistMin[key] || 0;
+    if (min > 0 && (!analysis || analysis.checklist[key] < min)) return false;
+  }
+
+  // panoramaDate is "YYYY-MM-DD hh:mm:ss" - the date part compares as a string
+  const date = result.panoramaDate?.slice(0, 10);
+  if ((filter.dateFrom || filter.dateTo) && !date) return false;
+  if (date && filter.dateFrom && date < filter.dateFrom) return false;
+  if (date && filter.dateTo && date > filter.dateTo) return false;
+
+  if (filter.text.trim()) {
+    const recommendation = analysis ? analysis.souhrn.doporuceni : result.recommendation;
+    if (!normalizeText(recommendation || '').includes(normalizeText(filter.text.trim()))) return false;
+  }
+
+  return true;
+};
+
+export const filterResults = (results: AnalysisResult[], filter: AnalysisFilter) =>
+  results.filter(result => matchesFilter(result, filter));
+
+// Number of active criteria, for the filter bar badge
+export const countActiveFilters = (filter: AnalysisFilter): number =>
+  (filter.minScore > 0 ? 1 : 0) +
+  CHECKLIST_KEYS.filter(key => (filter.checklistMin[key] || 0) > 0).length +
+  (filter.statuses.length < DEFAULT_ANALYSIS_FILTER.statuses.length ? 1 : 0) +
+  (filter.dateFrom || filter.dateTo ? 1 : 0) +
+  (filter.text.trim() ? 1 : 0) +
+  (filter.dealStages.length > 0 ? 1 : 0);
@@ -0,0 +1,77 @@
+import { AnalysisJob } from '../types/analysis';
+import { cancelAnalysisJob, pollAnalysisJob, submitAnalysisJob } from './analysisJobsApi';
+
+const originalFetch = global.fetch;
+
+const job = (status: AnalysisJob['status']) => ({ id: 'job_1', status, items: [] }) as unknown as AnalysisJob;
+
+const jsonResponse = (status: number, body: unknown) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  json: async () => body
+});
+
+const mockFetch = (...responses: (ReturnType<typeof jsonResponse> | Error)[]) => {
+  const fetchMock = jest.fn(async () => {
+    const response = responses.shift();
+    if (!response) throw new Error('No more responses');
+    if (response instanceof Error) throw response;
+    return response;
+  });
+  global.fetch = fetchMock as unknown as typeof fetch;
+  return fetchMock;
+};
+
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+afterAll(() => {
+  global.fetch = originalFetch;
+});
+
+test('submits and cancels jobs on the jobs endpoint', async () => {
+  const fetchMock = mockFetch(jsonResponse(202, { id: 'job_1' }), jsonResponse(200, { id: 'job_1', status: 'cancelled' }));
+
+  await expect(submitAnalysisJob({ items: [{ ref: 1, lon: 14.42, lat: 50.08 }] })).resolves.toEqual({ id: 'job_1' });
+  await cancelAnalysisJob('job_1');
+
+  expect(fetchMock.mock.calls).toEqual([
+    ['/api/analysis-jobs', expect.objectContaining({ method: 'POST' })],
+    ['/api/analysis-jobs?id=job_1', { method: 'DELETE' }]
+  ]);
+});
+
+test('surfaces the server error message', async () => {
+  mockFetch(jsonResponse(400, { error: 'Příliš mnoho položek' }), jsonResponse(500, 'not json'));
+  await expect(submitAnalysisJob({ items: [] })).rejects.toThrow('Příliš mnoho položek');
+  await expect(cancelAnalysisJob('job_1')).rejects.toThrow('HTTP 500');
+});
+
+test('polls until the job finishes, riding out failed polls', async () => {
+  const fetchMock = mockFetch(
+    jsonResponse(200, job('running')),
+    new TypeError('Failed to fetch'),
+    jsonResponse(200, job('completed'))
+  );
+  const updates: string[] = [];
+
+  const finished = await pollAnalysisJob('job_1', update => updates.push(update.status), new AbortController().signal, 1);
+
+  expect(finished?.status).toBe('completed');
+  expect(updates).toEqual(['running', 'completed']);
+  expect(fetchMock).toHaveBeenCalledTimes(3);
+  expect(console.warn).toHaveBeenCalledTimes(1);
+});
+
+test('stops polling when the signal aborts', async () => {
+  mockFetch(jsonResponse(200, job('running')));
+  const controller = new AbortController();
+
+  const polling = pollAnalysisJob('job_1', () => controller.abort(), controller.signal, 60000);
+  await expect(polling).resolves.toBeNull();
+});
@@ -0,0 +1,69 @@
+import {
+  AnalysisJob,
+  AnalysisJobRequest,
+  AnalysisJobSummary,
+  isAnalysisJobFinished
+} from '../types/analysis';
+
+const JOBS_ENDPOINT = '/api/analysis-jobs';
+const DEFAULT_POLL_INTERVAL_MS = 3000;
+
+async function readJobResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `Požadavek na server selhal (HTTP ${response.status}).`);
+  }
+  return response.json();
+}
+
+// Submit a batch to be analysed on the server. Polls and a server cron drive it; the
+// stored results can be fetched later, also from another tab.
+export async function submitAnalysisJob(request: AnalysisJobRequest): Promise<AnalysisJobSummary> {
+  const response = await fetch(JOBS_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request)
+  });
+  return readJobResponse<AnalysisJobSummary>(response);
+}
+
+export async function getAnalysisJob(id: string, signal?: AbortSignal): Promise<AnalysisJob> {
+  const response = await fetch(`${JOBS_ENDPOINT}?id=${encodeURIComponent(id)}`, { signal });
+  return readJobResponse<AnalysisJob>(response);
+}
+
+export async function cancelAnalysisJob(id: string): Promise<AnalysisJobSummary> {
+  const response = await fetch(`${JOBS_ENDPOINT}?id=${encodeURIComponent(id)}`, { method: 'DELETE' });
+  return readJobResponse<AnalysisJobSummary>(response);
+}
+
+// Poll a job until it finishes or the signal aborts. Transient poll failures are
+// logged and retried on the next tick - the job itself lives on the server.
+export async function pollAnalysisJob(
+  id: string,
+  onUpdate: (job: AnalysisJob) => void,
+  signal: AbortSignal,
+  intervalMs = DEFAULT_POLL_INTERVAL_MS
+): Promise<AnalysisJob | null> {
+  while (!signal.aborted) {
+    try {
+      const job = await getAnalysisJob(id, signal);
+      onUpdate(job);
+      if (isAnalysisJobFinished(job)) return job;
+    } catch (error) {
+      if (signal.aborted) break;
+      console.warn(`⚠️ Polling job ${id} failed:`, error);
+    }
+
+    // onUpdate may have aborted already - the abort event would not fire again
+    if (signal.aborted) break;
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(resolve, intervalMs);
+      signal.addEventListener('abort', () => {
+        clearTimeout(timer);
+        resolve();
+      }, { once: true });
+    });
+  }
+  return null;
+}
@@ -0,0 +1,187 @@
+import { AnalysisItemStatus } from '../types/analysis';
+import { AnalysisBatch, AnalysisPipeline } from './analysisPipeline';
+import { PanoramaApiService } from './panoramaApi';
+
+jest.mock('./panoramaApi');
+
+const originalFetch = global.fetch;
+const fetchPanoramaImage = PanoramaApiService.prototype.fetchPanoramaImage as jest.Mock;
+const releaseImageUrl = PanoramaApiService.prototype.releaseImageUrl as jest.Mock;
+
+const ANALYSIS = {
+  checklist: { stav_fasady: 7, stav_oken_dveri: 5, stav_strechy: 3, okoli_nemovitosti: 2, celkovy_dojem: 6 },
+  souhrn: { pozitiva: [], negativa: [], doporuceni: 'Prověřit', potencial_prodeje_skore: 70 },
+  stari_a_styl: 'Činžák',
+  coordinates: [14.42, 50.08],
+  timestamp: '2025-03-10T12:00:00Z'
+};
+
+const apiResponse = (status: number, body: unknown = ANALYSIS) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  headers: { get: () => null },
+  json: async () => body
+});
+
+// Blob URLs answer with an image, the analysis endpoint with the queued responses
+const mockFetch = (analysisResponses: ReturnType<typeof apiResponse>[]) => {
+  const fetchMock = jest.fn(async (url: string) => {
+    if (url.startsWith('blob:')) return { blob: async () => new Blob(['image']) };
+    const response = analysisResponses.shift();
+    if (!response) throw new Error(`Unexpected request to ${url}`);
+    return response;
+  });
+  global.fetch = fetchMock as unknown as typeof fetch;
+  return fetchMock;
+};
+
+const analysisRequests = (fetchMock: jest.Mock) =>
+  fetchMock.mock.calls.filter(([url]) => url === '/api/analyze-property');
+
+const ITEM = { id: 1, lon: 14.42, lat: 50.08 };
+
+const createPipeline = () => new AnalysisPipeline('key', { baseDelayMs: 1, maxDelayMs: 1, maxRetries: 2 });
+
+const collectStatuses = () => {
+  const statuses: string[] = [];
+  const onStatus = (status: AnalysisItemStatus, extra?: { attempt?: number }) =>
+    statuses.push(`${status}:${extra?.attempt ?? ''}`);
+  return { statuses, onStatus };
+};
+
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  fetchPanoramaImage.mockResolvedValue({ success: true, imageUrl: 'blob:pano-1' });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  fetchPanoramaImage.mockReset();
+  releaseImageUrl.mockReset();
+});
+
+afterAll(() => {
+  global.fetch = originalFetch;
+});
+
+test('sends the panorama as a data URL and releases the fetched blob URL', async () => {
+  const fetchMock = mockFetch([apiResponse(200)]);
+  const result = await createPipeline().process(ITEM, new AbortController().signal);
+
+  expect(result.souhrn.potencial_prodeje_skore).toBe(70);
+  const [request] = analysisRequests(fetchMock);
+  const body = JSON.parse(request[1].body);
+  expect(body.coordinates).toEqual([14.42, 50.08]);
+  expect(body.imageUrl).toMatch(/^data:/);
+  expect(releaseImageUrl).toHaveBeenCalledWith('blob:pano-1');
+});
+
+test('retries a failed image load inside the retry loop', async () => {
+  fetchPanoramaImage
+    .mockResolvedValueOnce({ success: false, status: 503, error: 'HTTP 503' })
+    .mockResolvedValueOnce({ success: true, imageUrl: 'blob:pano-2' });
+  mockFetch([apiResponse(200)]);
+  const { statuses, onStatus } = collectStatuses();
+
+  await createPipeline().process(ITEM, new AbortController().signal, onStatus);
+
+  expect(statuses).toEqual(['fetching-image:0', 'retrying:1', 'fetching-image:1', 'analyzing:1']);
+  expect(releaseImageUrl).toHaveBeenCalledTimes(1);
+  expect(releaseImageUrl).toHaveBeenCalledWith('blob:pano-2');
+});
+
+test('does not retry an image the server refused', async () => {
+  fetchPanoramaImage.mockResolvedValue({ success: false, status: 404, error: 'HTTP 404' });
+  const fetchMock = mockFetch([]);
+
+  await expect(createPipeline().process(ITEM, new AbortController().signal)).rejects.toThrow('Nepodařilo se načíst obrázek');
+  expect(fetchPanoramaImage).toHaveBeenCalledTimes(1);
+  expect(fetchMock).not.toHaveBeenCalled();
+});
+
+test('retries an overloaded analysis without fetching the image again', async () => {
+  const fetchMock = mockFetch([apiResponse(503), apiResponse(200)]);
+  await createPipeline().process(ITEM, new AbortController().signal);
+
+  expect(analysisRequests(fetchMock)).toHaveLength(2);
+  expect(fetchPanoramaImage).toHaveBeenCalledTimes(1);
+});
+
+test('gives up after maxRetries', async () => {
+  const fetchMock = mockFetch([apiResponse(500), apiResponse(500), apiResponse(500)]);
+  await expect(createPipeline().process(ITEM, new AbortController().signal)).rejects.toThrow('HTTP 500');
+  expect(analysisRequests(fetchMock)).toHaveLength(3);
+});
+
+test('does not retry client or schema errors', async () => {
+  const fetchMock = mockFetch([apiResponse(400, { error: 'Špatný požadavek' })]);
+  await expect(createPipeline().process(ITEM, new AbortController().signal)).rejects.toThrow('Špatný požadavek');
+
+  mockFetch([apiResponse(200, { ...ANALYSIS, checklist: {} })]);
+  await expect(createPipeline().process(ITEM, new AbortController().signal)).rejects.toThrow('neodpovídá schématu');
+  expect(analysisRequests(fetchMock)).toHaveLength(1);
+});
+
+test("reads the caller's image without fetching or releasing it", async () => {
+  mockFetch([apiResponse(200)]);
+  await createPipeline().process({ ...ITEM, imageUrl: 'blob:caller' }, new AbortController().signal);
+
+  expect(fetchPanoramaImage).not.toHaveBeenCalled();
+  expect(releaseImageUrl).not.toHaveBeenCalled();
+});
+
+test('aborting while waiting for a retry rejects with an AbortError', async () => {
+  mockFetch([apiResponse(503)]);
+  const controller = new AbortController();
+  const pipeline = new AnalysisPipeline('key', { baseDelayMs: 60000, maxDelayMs: 60000 });
+  const { statuses, onStatus } = collectStatuses();
+
+  const processing = pipeline.process(ITEM, controller.signal, status => {
+    onStatus(status);
+    if (status === 'retrying') controller.abort();
+  });
+
+  await expect(processing).rejects.toMatchObject({ name: 'AbortError' });
+  expect(statuses).toContain('retrying:');
+});
+
+test('a batch reports every item and resolves with the totals', async () => {
+  mockFetch([apiResponse(200), apiResponse(400), apiResponse(200)]);
+  const batch = createPipeline().runBatch([ITEM, { ...ITEM, id: 2 }, { ...ITEM, id: 3 }]);
+  const finished: string[] = [];
+  batch.subscribe(event => {
+    if (event.type === 'item' && (event.status === 'completed' || event.status === 'failed')) {
+      finished.push(`${event.id}:${event.status}`);
+    }
+  });
+
+  const progress = await batch.done;
+  expect(progress).toMatchObject({ total: 3, completed: 2, failed: 1, cancelled: 0 });
+  expect(finished.sort()).toEqual(['1:completed', '2:failed', '3:completed']);
+  expect(batch.getState()).toBe('completed');
+});
+
+test('an item paused mid-flight is retried even when resume comes before its abort settles', async () => {
+  // Like a FileReader read, the first attempt only notices the abort a moment later
+  const process = jest.fn()
+    .mockImplementationOnce((item: unknown, signal: AbortSignal) => new Promise((resolve, reject) => {
+      signal.addEventListener('abort', () => setTimeout(() => reject(new Error('Aborted')), 5));
+    }))
+    .mockResolvedValueOnce(ANALYSIS);
+  const pipeline = { options: { concurrency: 1 }, process } as unknown as AnalysisPipeline;
+  const batch = new AnalysisBatch([ITEM], pipeline);
+  const statuses: string[] = [];
+  batch.subscribe(event => {
+    if (event.type === 'item') statuses.push(event.status);
+  });
+
+  await new Promise(resolve => setTimeout(resolve, 0));
+  expect(process).toHaveBeenCalledTimes(1);
+  batch.pause();
+  batch.resume();
+
+  const progress = await batch.done;
+  expect(progress).toMatchObject({ total: 1, completed: 1, cancelled: 0, failed: 0 });
+  expect(process).toHaveBeenCalledTimes(2);
+  expect(statuses).toEqual(['queued', 'queued', 'completed']);
+});
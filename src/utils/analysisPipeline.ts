@@ -0,0 +1,328 @@
+import { PanoramaApiService } from './panoramaApi';
+import { readAnalysisResponse, toAiAnalysisError } from './propertyAnalysis';
+import { AnalysisView, PropertyAnalysisResponse } from '../shared/propertyAnalysisSchema';
+import {
+  AnalysisItem,
+  AnalysisItemStatus,
+  AnalysisBatchState,
+  AnalysisBatchProgress,
+  AnalysisPipelineEvent,
+  AnalysisPipelineOptions,
+  ANALYSIS_PIPELINE_DEFAULTS
+} from '../types/analysis';
+
+// Image parameters used for analysis when the item does not specify its own
+export const DEFAULT_IMAGE_OPTIONS = { width: 1024, height: 800, yaw: 0, pitch: 0, fov: 90 };
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+const createAbortError = () => {
+  const error = new Error('Aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+// setTimeout that rejects as soon as the signal aborts
+const sleep = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal.aborted) {
+    reject(createAbortError());
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(createAbortError());
+  };
+  signal.addEventListener('abort', onAbort, { once: true });
+});
+
+const blobToDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve(reader.result as string);
+  reader.onerror = reject;
+  reader.readAsDataURL(blob);
+});
+
+// Error carrying the HTTP status so the retry loop can decide what to do
+class AnalysisHttpError extends Error {
+  constructor(public status: number, message: string, public retryAfterMs?: number) {
+    super(message);
+    this.name = 'AnalysisHttpError';
+  }
+}
+
+type Listener<Id> = (event: AnalysisPipelineEvent<Id>) => void;
+
+type ImagePayload = { imageUrl: string } | { images: (AnalysisView & { imageUrl: string })[] };
+
+// One batch of analyses. Workers pull from a shared queue; pause aborts in-flight
+// requests and puts their items back at the front, cancel aborts and drops everything.
+export class AnalysisBatch<Id = string | number> {
+  private queue: AnalysisItem<Id>[];
+  private inFlight = new Map<Id, AbortController>();
+  // Aborted by pause - their items go back in the queue even if resume came first
+  private pausedControllers = new Set<AbortController>();
+  private listeners = new Set<Listener<Id>>();
+  private state: AnalysisBatchState = 'running';
+  private progress: AnalysisBatchProgress;
+  private resolveDone!: (progress: AnalysisBatchProgress) => void;
+
+  readonly done: Promise<AnalysisBatchProgress>;
+
+  constructor(
+    items: AnalysisItem<Id>[],
+    private pipeline: AnalysisPipeline
+  ) {
+    this.queue = [...items];
+    this.progress = { total: items.length, completed: 0, failed: 0, cancelled: 0, inFlight: 0 };
+    this.done = new Promise(resolve => {
+      this.resolveDone = resolve;
+    });
+
+    // Start on the next tick so callers can subscribe first
+    Promise.resolve().then(() => {
+      this.queue.forEach(item => this.emitItem(item.id, 'queued'));
+      this.pump();
+      this.checkDone();
+    });
+  }
+
+  subscribe(listener: Listener<Id>): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getState(): AnalysisBatchState {
+    return this.state;
+  }
+
+  getProgress(): AnalysisBatchProgress {
+    return { ...this.progress, inFlight: this.inFlight.size };
+  }
+
+  pause() {
+    if (this.state !== 'running') return;
+    this.setState('paused');
+    this.inFlight.forEach(controller => {
+      this.pausedControllers.add(controller);
+      controller.abort();
+    });
+  }
+
+  resume() {
+    if (this.state !== 'paused') return;
+    this.setState('running');
+    this.pump();
+  }
+
+  cancel() {
+    if (this.state === 'cancelled' || this.state === 'completed') return;
+    this.setState('cancelled');
+    this.pausedControllers.clear();
+    this.inFlight.forEach(controller => controller.abort());
+
+    const remaining = this.queue.splice(0);
+    remaining.forEach(item => {
+      this.progress.cancelled++;
+      this.emitItem(item.id, 'cancelled');
+    });
+    this.checkDone();
+  }
+
+  private emit(event: AnalysisPipelineEvent<Id>) {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Analysis pipeline listener failed:', error);
+      }
+    });
+  }
+
+  private emitItem(id: Id, status: AnalysisItemStatus, extra: Partial<Extract<AnalysisPipelineEvent<Id>, { type: 'item' }>> = {}) {
+    this.emit({ type: 'item', id, status, ...extra, progress: this.getProgress() });
+  }
+
+  private setState(state: AnalysisBatchState) {
+    this.state = state;
+    this.emit({ type: 'batch', state, progress: this.getProgress() });
+  }
+
+  private pump() {
+    while (this.state === 'running' && this.inFlight.size < this.pipeline.options.concurrency && this.queue.length > 0) {
+      const item = this.queue.shift()!;
+      this.runItem(item);
+    }
+  }
+
+  private async runItem(item: AnalysisItem<Id>) {
+    const controller = new AbortController();
+    this.inFlight.set(item.id, controller);
+
+    try {
+      const result = await this.pipeline.process(item, controller.signal, (status, extra) =>
+        this.emitItem(item.id, status, extra)
+      );
+      this.inFlight.delete(item.id);
+      this.progress.completed++;
+      this.emitItem(item.id, 'completed', { result });
+    } catch (error) {
+      this.inFlight.delete(item.id);
+
+      if (this.pausedControllers.has(controller) && this.state !== 'cancelled') {
+        // Paused mid-flight - retry the item first when resumed (or now, if already resumed)
+        this.queue.unshift(item);
+        this.emitItem(item.id, 'queued');
+      } else if (controller.signal.aborted) {
+        this.progress.cancelled++;
+        this.emitItem(item.id, 'cancelled');
+      } else {
+        this.progress.failed++;
+        this.emitItem(item.id, 'failed', { error: toAiAnalysisError(error) });
+      }
+    } finally {
+      this.pausedControllers.delete(controller);
+      this.pump();
+      this.checkDone();
+    }
+  }
+
+  private checkDone() {
+    if (this.inFlight.size > 0) return;
+
+    if (this.state === 'running' && this.queue.length === 0) {
+      this.setState('completed');
+      this.resolveDone(this.getProgress());
+    } else if (this.state === 'cancelled') {
+      this.resolveDone(this.getProgress());
+    }
+  }
+}
+
+// Single entry point for "fetch panorama -> data URL -> /api/analyze-property"
+export class AnalysisPipeline {
+  readonly options: AnalysisPipelineOptions;
+  private panoramaApi: PanoramaApiService;
+
+  constructor(apiKey: string, options: Partial<AnalysisPipelineOptions> = {}) {
+    this.options = { ...ANALYSIS_PIPELINE_DEFAULTS, ...options };
+    this.panoramaApi = new PanoramaApiService(apiKey);
+  }
+
+  runBatch<Id = string | number>(items: AnalysisItem<Id>[]): AnalysisBatch<Id> {
+    return new AnalysisBatch<Id>(items, this);
+  }
+
+  // Analyse one item end to end, including retries. A failed image load is retried the
+  // same way as a failed analysis; images already loaded are not fetched again.
+  async process<Id>(
+    item: AnalysisItem<Id>,
+    signal: AbortSignal,
+    onStatus: (status: AnalysisItemStatus, extra?: { attempt?: number; retryInMs?: number }) => void = () => {}
+  ): Promise<PropertyAnalysisResponse> {
+    let payload: ImagePayload | null = null;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        if (!payload) {
+          onStatus('fetching-image', { attempt });
+          payload = await this.loadImagePayload(item, signal);
+        }
+        onStatus('analyzing', { attempt });
+
+        const response = await fetch(this.options.endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            ...payload,
+            coordinates: [item.lon, item.lat]
+          }),
+          signal
+        });
+
+        if (isRetryableStatus(response.status)) {
+          const retryAfter = Number(response.headers.get('Retry-After'));
+          throw new AnalysisHttpError(
+            response.status,
+            `HTTP ${response.status}`,
+            Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined
+          );
+        }
+
+        return await readAnalysisResponse(response);
+      } catch (error) {
+        if (signal.aborted) throw createAbortError();
+
+        // Retry server overload and network failures, never client or schema errors
+        const retryable = error instanceof AnalysisHttpError || error instanceof TypeError;
+        if (!retryable || attempt >= this.options.maxRetries) throw error;
+
+        const backoff = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+        const jittered = backoff / 2 + Math.random() * backoff / 2;
+        const retryInMs = error instanceof AnalysisHttpError && error.retryAfterMs
+          ? Math.min(this.options.maxDelayMs, error.retryAfterMs)
+          : jittered;
+
+        console.warn(`⏳ Analysis of ${item.id} failed (${(error as Error).message}), retry ${attempt + 1} in ${Math.round(retryInMs)}ms`);
+        onStatus('retrying', { attempt: attempt + 1, retryInMs });
+        await sleep(retryInMs, signal);
+      }
+    }
+  }
+
+  // Request body images: `imageUrl` for one view, `images` when several headings are
+  // analysed together (the server then links each checklist score to a view)
+  private async loadImagePayload<Id>(item: AnalysisItem<Id>, signal: AbortSignal): Promise<ImagePayload> {
+    const views = item.views || [];
+    const withView = (view?: AnalysisView): AnalysisItem<Id> =>
+      view ? { ...item, imageOptions: { ...item.imageOptions, ...view } } : item;
+
+    if (views.length <= 1) {
+      return { imageUrl: await this.loadImageAsDataUrl(withView(views[0]), signal) };
+    }
+
+    const images = await Promise.all(views.map(async view => ({
+      imageUrl: await this.loadImageAsDataUrl(withView(view), signal),
+      ...view
+    })));
+    return { images };
+  }
+
+  private async loadImageAsDataUrl<Id>(item: AnalysisItem<Id>, signal: AbortSignal): Promise<string> {
+    if (item.imageUrl) {
+      // The caller's image - the caller owns and revokes its URL
+      return blobToDataUrl(await fetch(item.imageUrl, { signal }).then(r => r.blob()));
+    }
+
+    const panoImageResponse = await this.panoramaApi.fetchPanoramaImage(
+      item.lon,
+      item.lat,
+      { ...DEFAULT_IMAGE_OPTIONS, ...item.imageOptions },
+      signal,
+      'background'
+    );
+    if (signal.aborted) throw createAbortError();
+
+    if (!panoImageResponse.success || !panoImageResponse.imageUrl) {
+      // 429/5xx and network failures (no status) are worth another try, other 4xx are not
+      const { status, error } = panoImageResponse;
+      if (status === undefined || isRetryableStatus(status)) {
+        throw new AnalysisHttpError(status ?? 0, `Nepodařilo se načíst obrázek pro analýzu (${error})`);
+      }
+      throw new Error('Nepodařilo se načíst obrázek pro analýzu.');
+    }
+
+    // The blob URL is only needed to read the image once
+    const imageUrl = panoImageResponse.imageUrl;
+    try {
+      return blobToDataUrl(await fetch(imageUrl, { signal }).then(r => r.blob()));
+    } finally {
+      this.panoramaApi.releaseImageUrl(imageUrl);
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { AnalysisResult, isAiAnalysisError } from '../types/analysis';
+
+// Numbers of the "Přehled" block - shared by the panel and the PDF report so they always agree
+export interface AnalysisSummary {
+  total: number;
+  acquisitionCandidates: number; // condition === 'neglected'
+  avgConfidence: number; // 0-1
+  totalValue: number; // CZK
+}
+
+export const summarizeResults = (results: AnalysisResult[]): AnalysisSummary => ({
+  total: results.length,
+  acquisitionCandidates: results.filter(r => r.condition === 'neglected').length,
+  avgConfidence: results.length > 0 ? results.reduce((acc, r) => acc + r.confidence, 0) / results.length : 0,
+  totalValue: results.reduce((acc, r) => acc + r.estimatedValue, 0)
+});
+
+export const potentialScore = (result: AnalysisResult): number | null =>
+  result.aiAnalysis && !isAiAnalysisError(result.aiAnalysis) ? result.aiAnalysis.souhrn.potencial_prodeje_skore : null;
+
+// Best potential first; unanalysed results after them, by confidence
+export const rankResults = (results: AnalysisResult[]): AnalysisResult[] =>
+  [...results].sort((a, b) => {
+    const scoreA = potentialScore(a);
+    const scoreB = potentialScore(b);
+    if (scoreA !== null && scoreB !== null) return scoreB - scoreA;
+    if (scoreA !== null) return -1;
+    if (scoreB !== null) return 1;
+    return b.confidence - a.confidence;
+  });
@@ -0,0 +1,81 @@
+import { AnalysisView } from '../shared/propertyAnalysisSchema';
+import { AnalysisViewMode } from '../types/analysis';
+
+const DEFAULT_PITCH = 0;
+const DEFAULT_FOV = 90;
+
+// Panoramas further apart than this are not treated as the same street
+const STREET_NEIGHBOUR_MAX_DISTANCE_M = 60;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+const normalizeYaw = (yaw: number) => ((Math.round(yaw) % 360) + 360) % 360;
+
+// Equirectangular approximation - plenty for distances of a few hundred metres
+export const distanceInMeters = (a: { lon: number; lat: number }, b: { lon: number; lat: number }) => {
+  const x = toRadians(b.lon - a.lon) * Math.cos(toRadians((a.lat + b.lat) / 2));
+  const y = toRadians(b.lat - a.lat);
+  return Math.sqrt(x * x + y * y) * 6371000;
+};
+
+// Initial bearing from a to b in degrees, 0 = north, clockwise
+export const bearingInDegrees = (a: { lon: number; lat: number }, b: { lon: number; lat: number }) => {
+  const lat1 = toRadians(a.lat);
+  const lat2 = toRadians(b.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  return normalizeYaw((Math.atan2(y, x) * 180) / Math.PI);
+};
+
+// Panoramas are captured along streets, so the direction to the nearest other
+// panorama approximates the street direction. Null when the point is isolated.
+export const estimateStreetBearing = (
+  point: { lon: number; lat: number },
+  neighbours: { lon: number; lat: number }[]
+): number | null => {
+  let nearest: { lon: number; lat: number } | null = null;
+  let nearestDistance = STREET_NEIGHBOUR_MAX_DISTANCE_M;
+
+  for (let i = 0; i < neighbours.length; i++) {
+    const distance = distanceInMeters(point, neighbours[i]);
+    if (distance > 0.5 && distance < nearestDistance) {
+      nearest = neighbours[i];
+      nearestDistance = distance;
+    }
+  }
+
+  return nearest ? bearingInDegrees(point, nearest) : null;
+};
+
+const view = (yaw: number): AnalysisView => ({ yaw: normalizeYaw(yaw), pitch: DEFAULT_PITCH, fov: DEFAULT_FOV });
+
+// Both sides of a street with the given direction
+export const streetPerpendicularViews = (streetBearing: number): AnalysisView[] =>
+  [streetBearing + 90, streetBearing + 270].map(view);
+
+// Headings to capture for one panorama. `neighbours` are the other panoramas of the
+// search, used to find the street direction for the perpendicular mode.
+export const buildAnalysisViews = (
+  mode: AnalysisViewMode,
+  point: { lon: number; lat: number },
+  neighbours: { lon: number; lat: number }[] = []
+): AnalysisView[] => {
+  switch (mode) {
+    case 'four-way':
+      return [0, 90, 180, 270].map(view);
+    case 'street-perpendicular':
+      // Without a neighbour assume an east-west street
+      return streetPerpendicularViews(estimateStreetBearing(point, neighbours) ?? 90);
+    case 'single':
+    default:
+      return [view(0)];
+  }
+};
+
+// "pohled 2 (90°)" label for a 1-based view number from checklist_pohled
+export const formatViewLabel = (viewNumber: number | null | undefined, views?: AnalysisView[]) => {
+  if (!viewNumber) return 'nevidět';
+  const viewInfo = views?.[viewNumber - 1];
+  return viewInfo ? `pohled ${viewNumber} (${Math.round(viewInfo.yaw)}°)` : `pohled ${viewNumber}`;
+};
@@ -0,0 +1,79 @@
+import { AnalysisResult } from '../types/analysis';
+import { PanoramaAnnotation } from '../types/annotation';
+import { requestToPromise, transactionDone, openDatabase } from './idb';
+
+const DB_NAME = 'flipakt-annotations';
+const DB_VERSION = 1;
+const ANNOTATION_STORE = 'annotations';
+const PANORAMA_INDEX = 'panorama';
+
+type StoredAnnotation = PanoramaAnnotation & { panoramaKey: string };
+
+// Same coordinate key MapView matches results and panorama features by
+const panoramaKey = (lon: number, lat: number) => `${lat.toFixed(6)}_${lon.toFixed(6)}`;
+
+export const generateAnnotationId = (): string =>
+  `ann_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+// Panorama annotations persisted in IndexedDB, indexed by panorama coordinates, so they
+// are there whenever the same panorama is opened again - from the map, the gallery or a project
+export class AnnotationStore {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DB_NAME, DB_VERSION, db => {
+        if (!db.objectStoreNames.contains(ANNOTATION_STORE)) {
+          const store = db.createObjectStore(ANNOTATION_STORE, { keyPath: 'id' });
+          store.createIndex(PANORAMA_INDEX, 'panoramaKey');
+        }
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async requireDb(): Promise<IDBDatabase> {
+    const db = await this.open();
+    if (!db) {
+      throw new Error('Úložiště anotací (IndexedDB) není v tomto prohlížeči dostupné.');
+    }
+    return db;
+  }
+
+  // Oldest first
+  async listForPanorama(lon: number, lat: number): Promise<PanoramaAnnotation[]> {
+    const db = await this.open();
+    if (!db) return [];
+
+    const tx = db.transaction(ANNOTATION_STORE, 'readonly');
+    const index = tx.objectStore(ANNOTATION_STORE).index(PANORAMA_INDEX);
+    const stored = await requestToPromise(index.getAll(panoramaKey(lon, lat)) as IDBRequest<StoredAnnotation[]>);
+    return stored
+      .map(({ panoramaKey: _key, ...annotation }) => annotation)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async save(annotation: PanoramaAnnotation): Promise<PanoramaAnnotation> {
+    const db = await this.requireDb();
+    const tx = db.transaction(ANNOTATION_STORE, 'readwrite');
+    const stored: StoredAnnotation = { ...annotation, panoramaKey: panoramaKey(annotation.lon, annotation.lat) };
+    tx.objectStore(ANNOTATION_STORE).put(stored);
+    await transactionDone(tx);
+    return annotation;
+  }
+
+  async delete(id: string): Promise<void> {
+    const db = await this.requireDb();
+    const tx = db.transaction(ANNOTATION_STORE, 'readwrite');
+    tx.objectStore(ANNOTATION_STORE).delete(id);
+    await transactionDone(tx);
+  }
+
+  // Results with the annotations of their panorama, for exports and the report
+  async attachToResults(results: AnalysisResult[]): Promise<AnalysisResult[]> {
+    const lists = await Promise.all(results.map(result => this.listForPanorama(result.coordinates[0], result.coordinates[1])));
+    return results.map((result, i) => (lists[i].length > 0 ? { ...result, annotations: lists[i] } : result));
+  }
+}
+
+export const annotationStore = new AnnotationStore();
@@ -0,0 +1,224 @@
+import { CHECKLIST_KEYS, PropertyAnalysisResponse } from '../shared/propertyAnalysisSchema';
+import { AnalysisResult, isAiAnalysisError } from '../types/analysis';
+import { BuildingAggregate, BuildingFootprint, BuildingResult, BUILDING_LINK_DEFAULTS } from '../types/building';
+import { bearingInDegrees } from './analysisViews';
+import { aimViewAtTarget } from './panoramaTargeting';
+
+type LonLat = [number, number];
+
+// The part of a GeoJSON building feature (OSM export or RÚIAN extract) that is read
+interface BuildingGeoJsonFeature {
+  id?: string | number;
+  geometry?: {
+    type: string;
+    coordinates: unknown;
+  } | null;
+  properties?: Record<string, unknown> | null;
+}
+
+const EARTH_RADIUS_M = 6371000;
+
+// Local metric projection around a reference latitude - fine at building scale
+const toLocalMeters = (point: LonLat, origin: LonLat): [number, number] => {
+  const rad = Math.PI / 180;
+  return [
+    (point[0] - origin[0]) * rad * EARTH_RADIUS_M * Math.cos(origin[1] * rad),
+    (point[1] - origin[1]) * rad * EARTH_RADIUS_M
+  ];
+};
+
+export const pointInRing = (point: LonLat, ring: LonLat[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > point[1]) !== (yj > point[1]) && point[0] < ((xj - xi) * (point[1] - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export const pointInBuilding = (point: LonLat, building: BuildingFootprint): boolean =>
+  pointInRing(point, building.rings[0]) && !building.rings.slice(1).some(hole => pointInRing(point, hole));
+
+// Distance in metres from a point to the footprint outline (0 inside)
+export const distanceToBuilding = (point: LonLat, building: BuildingFootprint): number => {
+  if (pointInBuilding(point, building)) return 0;
+
+  let best = Infinity;
+  building.rings.forEach(ring => {
+    for (let i = 0; i < ring.length - 1; i++) {
+      const [ax, ay] = toLocalMeters(ring[i], point);
+      const [bx, by] = toLocalMeters(ring[i + 1], point);
+      const dx = bx - ax;
+      const dy = by - ay;
+      const lengthSq = dx * dx + dy * dy;
+      const t = lengthSq > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSq)) : 0;
+      const px = ax + t * dx;
+      const py = ay + t * dy;
+      best = Math.min(best, Math.sqrt(px * px + py * py));
+    }
+  });
+  return best;
+};
+
+const ringCentroid = (ring: LonLat[]): LonLat => {
+  const points = ring.length > 1 && ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1]
+    ? ring.slice(0, -1)
+    : ring;
+  const sum = points.reduce((acc, [lon, lat]) => [acc[0] + lon, acc[1] + lat], [0, 0]);
+  return [sum[0] / points.length, sum[1] / points.length];
+};
+
+const pickBuildingName = (properties: Record<string, unknown>, index: number): string => {
+  const street = properties['addr:street'] || properties.ulice;
+  const number = properties['addr:housenumber'] || properties.cislo_domovni;
+  if (street && number) return `${street} ${number}`;
+  if (properties.name) return String(properties.name);
+  if (number) return `č.p. ${number}`;
+  return `Budova ${index + 1}`;
+};
+
+// Parse a GeoJSON FeatureCollection (OSM or RÚIAN extract) into footprints in lon/lat.
+// MultiPolygons keep their largest part - one footprint per building.
+export const parseBuildingGeoJson = (text: string): BuildingFootprint[] => {
+  const data = JSON.parse(text);
+  const features: BuildingGeoJsonFeature[] = data.type === 'FeatureCollection' ? data.features : data.type === 'Feature' ? [data] : [];
+
+  const buildings: BuildingFootprint[] = [];
+  features.forEach((feature, index) => {
+    const geometry = feature?.geometry;
+    if (!geometry) return;
+
+    let rings: LonLat[][] | null = null;
+    if (geometry.type === 'Polygon') {
+      rings = geometry.coordinates as LonLat[][];
+    } else if (geometry.type === 'MultiPolygon') {
+      rings = (geometry.coordinates as LonLat[][][])
+        .reduce((largest, polygon) => (polygon[0].length > largest[0].length ? polygon : largest));
+    }
+    if (!rings || rings.length === 0 || rings[0].length < 3) return;
+
+    const properties = feature.properties || {};
+    buildings.push({
+      id: String(feature.id ?? properties.id ?? properties['@id'] ?? `building-${index}`),
+      name: pickBuildingName(properties, index),
+      rings: rings.map(ring => ring.map(([lon, lat]) => [lon, lat] as LonLat)),
+      centroid: ringCentroid(rings[0]),
+      properties
+    });
+  });
+
+  return buildings;
+};
+
+// Directions the panorama was (or will be) analysed in
+const viewsOfResult = (result: AnalysisResult) => {
+  const panorama = { lon: result.coordinates[0], lat: result.coordinates[1] };
+  if (result.target) {
+    return [aimViewAtTarget(panorama, { lon: result.target[0], lat: result.target[1] })];
+  }
+  if (result.aiAnalysis && !isAiAnalysisError(result.aiAnalysis)) {
+    return result.aiAnalysis.views || [{ yaw: 0, pitch: 0, fov: 90 }];
+  }
+  return null; // Not analysed yet - any direction
+};
+
+const angleDifference = (a: number, b: number) => {
+  const diff = Math.abs(a - b) % 360;
+  return diff > 180 ? 360 - diff : diff;
+};
+
+// Does the panorama see the building: close enough and inside one of its analysed views
+const panoramaSeesBuilding = (result: AnalysisResult, building: BuildingFootprint, maxDistanceM: number) => {
+  if (distanceToBuilding(result.coordinates, building) > maxDistanceM) return false;
+
+  const views = viewsOfResult(result);
+  if (!views) return true;
+
+  const panorama = { lon: result.coordinates[0], lat: result.coordinates[1] };
+  const bearing = bearingInDegrees(panorama, { lon: building.centroid[0], lat: building.centroid[1] });
+  return views.some(view => angleDifference(view.yaw, bearing) <= view.fov / 2);
+};
+
+// Building a targeted result is aimed at: the footprint containing the target, else the nearest close one
+const buildingForTarget = (target: LonLat, buildings: BuildingFootprint[]) => {
+  let best: BuildingFootprint | null = null;
+  let bestDistance = BUILDING_LINK_DEFAULTS.targetSnapDistanceM;
+  buildings.forEach(building => {
+    const distance = distanceToBuilding(target, building);
+    if (distance <= bestDistance) {
+      best = building;
+      bestDistance = distance;
+    }
+  });
+  return best as BuildingFootprint | null;
+};
+
+export const aggregateBuildingAnalyses = (analyses: PropertyAnalysisResponse[]): BuildingAggregate | null => {
+  if (analyses.length === 0) return null;
+
+  const checklist: BuildingAggregate['checklist'] = {};
+  CHECKLIST_KEYS.forEach(key => {
+    // Multi-view analyses say when no view showed an item - leave those out of the average
+    const scores = analyses
+      .filter(analysis => !analysis.checklist_pohled || analysis.checklist_pohled[key] !== null)
+      .map(analysis => analysis.checklist[key]);
+    if (scores.length > 0) {
+      checklist[key] = Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 10) / 10;
+    }
+  });
+
+  const potentials = analyses.map(analysis => analysis.souhrn.potencial_prodeje_skore);
+  const best = analyses[potentials.indexOf(Math.max(...potentials))];
+  const unique = (values: string[]) => values.filter((value, index) => values.indexOf(value) === index);
+
+  return {
+    analyzedCount: analyses.length,
+    checklist,
+    potentialAverage: Math.round(potentials.reduce((sum, score) => sum + score, 0) / potentials.length),
+    potentialMax: Math.max(...potentials),
+    pozitiva: unique(analyses.flatMap(analysis => analysis.souhrn.pozitiva)),
+    negativa: unique(analyses.flatMap(analysis => analysis.souhrn.negativa)),
+    doporuceni: best.souhrn.doporuceni
+  };
+};
+
+// Link every building to the panoramas that see it and merge their analyses.
+// A result aimed at a target belongs only to the targeted building.
+export const buildBuildingResults = (
+  buildings: BuildingFootprint[],
+  results: AnalysisResult[],
+  maxDistanceM = BUILDING_LINK_DEFAULTS.maxDistanceM
+): BuildingResult[] => {
+  const linked: Record<string, AnalysisResult[]> = {};
+  buildings.forEach(building => {
+    linked[building.id] = [];
+  });
+
+  results.forEach(result => {
+    if (result.target) {
+      const building = buildingForTarget(result.target, buildings);
+      if (building) linked[building.id].push(result);
+      return;
+    }
+    buildings.forEach(building => {
+      if (panoramaSeesBuilding(result, building, maxDistanceM)) {
+        linked[building.id].push(result);
+      }
+    });
+  });
+
+  return buildings.map(building => {
+    const analyses = linked[building.id]
+      .map(result => result.aiAnalysis)
+      .filter((analysis): analysis is PropertyAnalysisResponse => !!analysis && !isAiAnalysisError(analysis));
+
+    return {
+      building,
+      panoramaIds: linked[building.id].map(result => result.id),
+      aggregate: aggregateBuildingAnalyses(analyses)
+    };
+  });
+};
@@ -0,0 +1,18 @@
+import { CadastralParcel } from '../types/cadastre';
+
+const CADASTRE_ENDPOINT = '/api/cadastre';
+
+// Parcels under [lon, lat] points in input order; null where no parcel was found
+export async function lookupCadastralParcels(points: [number, number][]): Promise<(CadastralParcel | null)[]> {
+  const response = await fetch(CADASTRE_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ points: points.map(([lon, lat]) => ({ lon, lat })) })
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || errorData.error || `Dotaz do katastru selhal (HTTP ${response.status}).`);
+  }
+  const data = await response.json();
+  return data.parcels;
+}
@@ -0,0 +1,98 @@
+import { StreetCorridor } from '../types/searchArea';
+import { bearingInDegrees } from './analysisViews';
+
+type LonLat = [number, number];
+
+export const CORRIDOR_DEFAULTS: Omit<StreetCorridor, 'line'> = {
+  intervalM: 10,
+  widthM: 30
+};
+
+export interface CorridorSample {
+  lon: number;
+  lat: number;
+  along: number; // Metres from the start of the line
+}
+
+export interface CorridorPosition {
+  along: number; // Metres from the start of the line to the nearest point on it
+  offset: number; // Perpendicular distance from the line in metres
+  bearing: number; // Direction of the nearest segment, 0 = north, clockwise
+}
+
+const METERS_PER_DEG_LAT = 111320;
+
+// Local flat projection around the line - a street is at most a few kilometres long
+const createProjection = (line: LonLat[]) => {
+  const metersPerDegLon = METERS_PER_DEG_LAT * Math.cos((line[0][1] * Math.PI) / 180);
+  return {
+    toXY: ([lon, lat]: LonLat): [number, number] => [lon * metersPerDegLon, lat * METERS_PER_DEG_LAT],
+    toLonLat: ([x, y]: [number, number]): LonLat => [x / metersPerDegLon, y / METERS_PER_DEG_LAT]
+  };
+};
+
+const segmentBearing = (a: LonLat, b: LonLat) =>
+  bearingInDegrees({ lon: a[0], lat: a[1] }, { lon: b[0], lat: b[1] });
+
+// Test points every `intervalM` along the line. Corridors wider than the interval also
+// get parallel rows on both sides, so side streets and squares next to it are covered.
+export const sampleCorridor = (line: LonLat[], intervalM: number, widthM: number): CorridorSample[] => {
+  if (line.length < 2 || intervalM <= 0) return [];
+
+  const { toXY, toLonLat } = createProjection(line);
+  const rows = Math.floor(widthM / 2 / intervalM);
+  const samples: CorridorSample[] = [];
+  let segmentStart = 0;
+  let next = 0; // Distance along the line of the next station
+
+  for (let i = 0; i < line.length - 1; i++) {
+    const [x1, y1] = toXY(line[i]);
+    const [x2, y2] = toXY(line[i + 1]);
+    const length = Math.hypot(x2 - x1, y2 - y1);
+    if (length === 0) continue;
+
+    // Unit vectors along the segment and to its left
+    const ux = (x2 - x1) / length;
+    const uy = (y2 - y1) / length;
+
+    for (; next <= segmentStart + length; next += intervalM) {
+      const t = next - segmentStart;
+      for (let row = -rows; row <= rows; row++) {
+        const [lon, lat] = toLonLat([x1 + ux * t - uy * row * intervalM, y1 + uy * t + ux * row * intervalM]);
+        samples.push({ lon, lat, along: next });
+      }
+    }
+    segmentStart += length;
+  }
+
+  return samples;
+};
+
+// Where a point lies relative to the line: distance along it, offset from it and the
+// street direction at that place
+export const locateOnLine = (point: LonLat, line: LonLat[]): CorridorPosition | null => {
+  if (line.length < 2) return null;
+
+  const { toXY } = createProjection(line);
+  const [px, py] = toXY(point);
+  let best: CorridorPosition | null = null;
+  let segmentStart = 0;
+
+  for (let i = 0; i < line.length - 1; i++) {
+    const [x1, y1] = toXY(line[i]);
+    const [x2, y2] = toXY(line[i + 1]);
+    const dx = x2 - x1;
+    const dy = y2 - y1;
+    const lengthSq = dx * dx + dy * dy;
+    if (lengthSq === 0) continue;
+
+    const t = Math.max(0, Math.min(1, ((px - x1) * dx + (py - y1) * dy) / lengthSq));
+    const offset = Math.hypot(px - (x1 + t * dx), py - (y1 + t * dy));
+    if (!best || offset < best.offset) {
+      best = { along: segmentStart + t * Math.sqrt(lengthSq), offset, bearing: segmentBearing(line[i], line[i + 1]) };
+    }
+    segmentStart += Math.sqrt(lengthSq);
+  }
+
+  return best;
+};
@@ -0,0 +1,94 @@
+import { AnalysisResult } from '../types/analysis';
+import { DEFAULT_DEAL_STAGES, NO_DEAL_STAGE } from '../types/dealPipeline';
+import {
+  addDealNote,
+  createDeal,
+  createDealStage,
+  dealStageOf,
+  isDealOverdue,
+  loadDealStages,
+  moveDeal,
+  parseDealTags,
+  saveDealStages
+} from './dealPipeline';
+
+const NOW = new Date('2025-03-10T12:00:00Z');
+const LATER = new Date('2025-03-11T08:00:00Z');
+
+afterEach(() => {
+  localStorage.clear();
+  jest.restoreAllMocks();
+});
+
+describe('deal stages', () => {
+  test('load the defaults until stages are saved', () => {
+    expect(loadDealStages()).toBe(DEFAULT_DEAL_STAGES);
+    const stages = [{ id: 'a', label: 'A', color: '#000000' }];
+    saveDealStages(stages);
+    expect(loadDealStages()).toEqual(stages);
+  });
+
+  test('fall back to the defaults on a broken configuration', () => {
+    localStorage.setItem('flipakt-deal-stages', '{not json');
+    expect(loadDealStages()).toBe(DEFAULT_DEAL_STAGES);
+    localStorage.setItem('flipakt-deal-stages', JSON.stringify([{ id: 'a' }]));
+    expect(loadDealStages()).toBe(DEFAULT_DEAL_STAGES);
+    localStorage.setItem('flipakt-deal-stages', '[]');
+    expect(loadDealStages()).toBe(DEFAULT_DEAL_STAGES);
+  });
+
+  test('new stages get unique ids even within one millisecond', () => {
+    jest.spyOn(Date, 'now').mockReturnValue(NOW.getTime());
+    const ids = new Set(Array.from({ length: 50 }, () => createDealStage('Prohlídka').id));
+    expect(ids.size).toBe(50);
+    expect(createDealStage('Prohlídka')).toMatchObject({ label: 'Prohlídka', color: '#9CA3AF' });
+  });
+});
+
+describe('deal records', () => {
+  test('a new deal records its entry into the pipeline', () => {
+    expect(createDeal('new', NOW)).toEqual({
+      stage: 'new',
+      notes: [],
+      tags: [],
+      dueDate: '',
+      history: [{ from: null, to: 'new', changedAt: NOW.toISOString() }]
+    });
+  });
+
+  test('moving records the change and keeps the deal when the stage is the same', () => {
+    const deal = createDeal('new', NOW);
+    const moved = moveDeal(deal, 'offer', LATER);
+    expect(moved.stage).toBe('offer');
+    expect(moved.history[1]).toEqual({ from: 'new', to: 'offer', changedAt: LATER.toISOString() });
+    expect(deal.history).toHaveLength(1);
+    expect(moveDeal(moved, 'offer', LATER)).toBe(moved);
+  });
+
+  test('notes are appended with their time', () => {
+    const deal = addDealNote(addDealNote(createDeal('new', NOW), 'Volat', NOW), 'Nebere', LATER);
+    expect(deal.notes).toEqual([
+      { text: 'Volat', createdAt: NOW.toISOString() },
+      { text: 'Nebere', createdAt: LATER.toISOString() }
+    ]);
+  });
+
+  test('tags are trimmed, deduplicated and empty ones dropped', () => {
+    expect(parseDealTags(' sleva, rohový dům,, sleva ,')).toEqual(['sleva', 'rohový dům']);
+    expect(parseDealTags('')).toEqual([]);
+  });
+
+  test('results outside the pipeline filter under the no-deal stage', () => {
+    const result = { deal: undefined } as AnalysisResult;
+    expect(dealStageOf(result)).toBe(NO_DEAL_STAGE);
+    expect(dealStageOf({ ...result, deal: createDeal('won', NOW) })).toBe('won');
+  });
+
+  test('a deal is overdue after its due date unless its stage is closed', () => {
+    const deal = { ...createDeal('offer', NOW), dueDate: '2025-03-09' };
+    expect(isDealOverdue(deal, DEFAULT_DEAL_STAGES, NOW)).toBe(true);
+    expect(isDealOverdue({ ...deal, dueDate: '2025-03-10' }, DEFAULT_DEAL_STAGES, NOW)).toBe(false);
+    expect(isDealOverdue({ ...deal, dueDate: '' }, DEFAULT_DEAL_STAGES, NOW)).toBe(false);
+    expect(isDealOverdue({ ...deal, stage: 'won' }, DEFAULT_DEAL_STAGES, NOW)).toBe(false);
+  });
+});
@@ -0,0 +1,65 @@
+import { AnalysisResult } from '../types/analysis';
+import { DEFAULT_DEAL_STAGES, DealRecord, DealStage, DealStageId, NO_DEAL_STAGE } from '../types/dealPipeline';
+
+// Stage configuration is shared by all projects of the team
+const STORAGE_KEY = 'flipakt-deal-stages';
+
+export const loadDealStages = (): DealStage[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (Array.isArray(saved) && saved.length > 0 && saved.every(stage => stage?.id && stage?.label)) {
+      return saved;
+    }
+  } catch {
+    // Corrupted configuration - fall back to the defaults
+  }
+  return DEFAULT_DEAL_STAGES;
+};
+
+export const saveDealStages = (stages: DealStage[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stages));
+  } catch (error) {
+    console.warn('⚠️ Failed to save deal stages:', error);
+  }
+};
+
+export const createDealStage = (label: string): DealStage => ({
+  id: `stage-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  label,
+  color: '#9CA3AF'
+});
+
+export const createDeal = (stage: DealStageId, now = new Date()): DealRecord => ({
+  stage,
+  notes: [],
+  tags: [],
+  dueDate: '',
+  history: [{ from: null, to: stage, changedAt: now.toISOString() }]
+});
+
+// Move to another stage, recording the change
+export const moveDeal = (deal: DealRecord, stage: DealStageId, now = new Date()): DealRecord =>
+  deal.stage === stage
+    ? deal
+    : { ...deal, stage, history: [...deal.history, { from: deal.stage, to: stage, changedAt: now.toISOString() }] };
+
+export const addDealNote = (deal: DealRecord, text: string, now = new Date()): DealRecord => ({
+  ...deal,
+  notes: [...deal.notes, { text, createdAt: now.toISOString() }]
+});
+
+// "sleva, rohový dům, sleva" -> ['sleva', 'rohový dům']
+export const parseDealTags = (text: string): string[] =>
+  text
+    .split(',')
+    .map(tag => tag.trim())
+    .filter((tag, index, tags) => tag && tags.indexOf(tag) === index);
+
+// Stage id a result is filtered under
+export const dealStageOf = (result: AnalysisResult): DealStageId => result.deal?.stage ?? NO_DEAL_STAGE;
+
+export const isDealOverdue = (deal: DealRecord, stages: DealStage[], today = new Date()) =>
+  !!deal.dueDate &&
+  !stages.find(stage => stage.id === deal.stage)?.closed &&
+  deal.dueDate < today.toISOString().slice(0, 10);
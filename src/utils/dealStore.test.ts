@@ -0,0 +1,48 @@
+import { AnalysisResult } from '../types/analysis';
+import { DealRecord } from '../types/dealPipeline';
+import { attachDeals, dealKey, dealPointKey } from './dealStore';
+
+const result = (id: number, coordinates: [number, number], overrides: Partial<AnalysisResult> = {}): AnalysisResult => ({
+  id,
+  name: `Panorama ${id}`,
+  coordinates,
+  condition: '',
+  confidence: 0,
+  issues: [],
+  recommendation: '',
+  estimatedValue: 0,
+  analysisStatus: 'completed',
+  ...overrides
+});
+
+const deal = (stage: string): DealRecord => ({ stage, notes: [], tags: [], dueDate: '', history: [] });
+
+test('deals are keyed by the target building, else the panorama spot', () => {
+  expect(dealPointKey([14.4212346, 50.0812346])).toBe('50.081235_14.421235');
+  expect(dealKey(result(1, [14.42, 50.08]))).toBe('50.080000_14.420000');
+  expect(dealKey(result(1, [14.42, 50.08], { target: [14.43, 50.09] }))).toBe('50.090000_14.430000');
+  // The address point arrives later and must not move the deal
+  const address = { label: '', street: null, houseNumber: null, municipality: null, district: null, zip: null, location: [14.44, 50.1] as [number, number] };
+  expect(dealKey(result(1, [14.42, 50.08], { address }))).toBe('50.080000_14.420000');
+});
+
+test('attachDeals gives every result the deal of its property', () => {
+  const offer = deal('offer');
+  const results = [result(1, [14.42, 50.08]), result(2, [14.5, 50.1], { deal: deal('new') })];
+  const attached = attachDeals(results, { [dealKey(results[0])]: offer });
+
+  expect(attached[0].deal).toBe(offer);
+  expect(attached[1].deal).toBeUndefined();
+  expect(results[0].deal).toBeUndefined();
+});
+
+test('attachDeals returns the same array when nothing changed', () => {
+  const offer = deal('offer');
+  const results = [result(1, [14.42, 50.08], { deal: offer }), result(2, [14.5, 50.1])];
+  const deals = { [dealKey(results[0])]: offer };
+  expect(attachDeals(results, deals)).toBe(results);
+
+  const changed = attachDeals(results, { [dealKey(results[1])]: offer });
+  expect(changed).not.toBe(results);
+  expect(changed[1]).not.toBe(results[1]);
+});
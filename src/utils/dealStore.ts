@@ -0,0 +1,82 @@
+import { AnalysisResult } from '../types/analysis';
+import { DealRecord } from '../types/dealPipeline';
+import { requestToPromise, transactionDone, openDatabase } from './idb';
+
+const DB_NAME = 'flipakt-deals';
+const DB_VERSION = 1;
+const DEAL_STORE = 'deals';
+
+type StoredDeal = DealRecord & { key: string; lon: number; lat: number };
+
+// Same coordinate key MapView matches results and panorama features by
+export const dealPointKey = ([lon, lat]: [number, number]) => `${lat.toFixed(6)}_${lon.toFixed(6)}`;
+
+// The property a deal belongs to: the aimed-at building, else the panorama spot. Not the
+// address point - that arrives later and would move the deal under another key.
+export const dealPoint = (result: AnalysisResult): [number, number] => result.target || result.coordinates;
+
+export const dealKey = (result: AnalysisResult) => dealPointKey(dealPoint(result));
+
+// Deals persisted in IndexedDB by property coordinates, independent of the current search
+// results and projects - a new search or a reload finds them on the same properties again
+export class DealStore {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DB_NAME, DB_VERSION, db => {
+        if (!db.objectStoreNames.contains(DEAL_STORE)) {
+          db.createObjectStore(DEAL_STORE, { keyPath: 'key' });
+        }
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async requireDb(): Promise<IDBDatabase> {
+    const db = await this.open();
+    if (!db) {
+      throw new Error('Úložiště pipeline (IndexedDB) není v tomto prohlížeči dostupné.');
+    }
+    return db;
+  }
+
+  // All deals by dealKey
+  async listAll(): Promise<Record<string, DealRecord>> {
+    const db = await this.open();
+    if (!db) return {};
+
+    const tx = db.transaction(DEAL_STORE, 'readonly');
+    const stored = await requestToPromise(tx.objectStore(DEAL_STORE).getAll() as IDBRequest<StoredDeal[]>);
+    const deals: Record<string, DealRecord> = {};
+    stored.forEach(({ key, lon: _lon, lat: _lat, ...deal }) => { deals[key] = deal; });
+    return deals;
+  }
+
+  async save(point: [number, number], deal: DealRecord): Promise<void> {
+    const db = await this.requireDb();
+    const tx = db.transaction(DEAL_STORE, 'readwrite');
+    const stored: StoredDeal = { ...deal, key: dealPointKey(point), lon: point[0], lat: point[1] };
+    tx.objectStore(DEAL_STORE).put(stored);
+    await transactionDone(tx);
+  }
+
+  async delete(point: [number, number]): Promise<void> {
+    const db = await this.requireDb();
+    const tx = db.transaction(DEAL_STORE, 'readwrite');
+    tx.objectStore(DEAL_STORE).delete(dealPointKey(point));
+    await transactionDone(tx);
+  }
+}
+
+// Results with the deal of their property (none when it has none); the same array
+// when every result already carries its deal
+export const attachDeals = (results: AnalysisResult[], deals: Record<string, DealRecord>): AnalysisResult[] => {
+  if (results.every(result => result.deal === deals[dealKey(result)])) return results;
+  return results.map(result => {
+    const deal = deals[dealKey(result)];
+    return result.deal === deal ? result : { ...result, deal };
+  });
+};
+
+export const dealStore = new DealStore();
@@ -0,0 +1,196 @@
+import { CHECKLIST_KEYS, PropertyAnalysisResponse } from '../shared/propertyAnalysisSchema';
+import { AnalysisResult, isAiAnalysisError, resultDisplayName } from '../types/analysis';
+import { SearchArea } from '../types/searchArea';
+import { describeAnnotations } from '../types/annotation';
+
+const AREA_NAMES = { include: 'Oblast hledání', exclude: 'Vyloučená zóna' };
+
+const EXPORT_NAMESPACE = 'https://flipakt.cz/export/1';
+
+const escapeXml = (value: unknown) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const analysisOf = (result: AnalysisResult): PropertyAnalysisResponse | null =>
+  result.aiAnalysis && !isAiAnalysisError(result.aiAnalysis) ? result.aiAnalysis : null;
+
+// Flat property map for one result - the full checklist as `checklist_<item>` columns,
+// so QGIS and friends can style and filter on it directly
+export const resultProperties = (result: AnalysisResult): Record<string, string | number | null> => {
+  const analysis = analysisOf(result);
+  const properties: Record<string, string | number | null> = {
+    id: result.id,
+    name: resultDisplayName(result),
+    street: result.address?.street ?? null,
+    houseNumber: result.address?.houseNumber ?? null,
+    municipality: result.address?.municipality ?? null,
+    district: result.address?.district ?? null,
+    analysisStatus: result.analysisStatus,
+    panoramaDate: result.panoramaDate ?? null,
+    targetLon: result.target ? result.target[0] : null,
+    targetLat: result.target ? result.target[1] : null,
+    potencial_prodeje_skore: analysis ? analysis.souhrn.potencial_prodeje_skore : null,
+    annotationCount: result.annotations?.length ?? 0,
+    annotations: result.annotations?.length ? describeAnnotations(result.annotations) : null
+  };
+
+  CHECKLIST_KEYS.forEach(key => {
+    properties[`checklist_${key}`] = analysis ? analysis.checklist[key] : null;
+    if (analysis?.checklist_pohled) {
+      properties[`checklist_pohled_${key}`] = analysis.checklist_pohled[key];
+    }
+  });
+
+  properties.pozitiva = analysis ? analysis.souhrn.pozitiva.join('; ') : null;
+  properties.negativa = analysis ? analysis.souhrn.negativa.join('; ') : null;
+  properties.doporuceni = analysis ? analysis.souhrn.doporuceni : null;
+  properties.stari_a_styl = analysis ? analysis.stari_a_styl : null;
+  properties.schemaVersion = analysis ? analysis.schemaVersion : null;
+  properties.analyzedAt = analysis ? analysis.timestamp : null;
+  properties.error = result.aiAnalysis && isAiAnalysisError(result.aiAnalysis) ? result.aiAnalysis.error : null;
+
+  return properties;
+};
+
+// --- GeoJSON ---
+
+export const toGeoJson = (results: AnalysisResult[], areas: SearchArea[]): string => {
+  const features: object[] = results.map(result => ({
+    type: 'Feature',
+    id: result.id,
+    geometry: { type: 'Point', coordinates: result.coordinates },
+    properties: { featureType: 'panorama', ...resultProperties(result) }
+  }));
+
+  features.unshift(...areas.map((area, index) => ({
+    type: 'Feature',
+    id: `${area.role === 'exclude' ? 'exclusion-zone' : 'search-area'}-${index + 1}`,
+    geometry: { type: 'Polygon', coordinates: area.rings },
+    properties: { featureType: area.role === 'exclude' ? 'exclusion-zone' : 'search-area', name: AREA_NAMES[area.role] }
+  })));
+
+  return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+};
+
+// --- KML ---
+
+// Score buckets from red (low potential) to green (high); KML colours are aabbggrr
+const KML_SCORE_STYLES = [
+  { id: 'score-0', max: 20, color: 'ff3c3cef' },
+  { id: 'score-1', max: 40, color: 'ff1f8ff9' },
+  { id: 'score-2', max: 60, color: 'ff15ccfa' },
+  { id: 'score-3', max: 80, color: 'ff5ed84a' },
+  { id: 'score-4', max: 100, color: 'ff5ec522' }
+];
+const KML_NO_SCORE_STYLE = { id: 'score-none', color: 'ffafa39c' };
+
+const kmlStyleFor = (score: number | null) =>
+  score === null ? KML_NO_SCORE_STYLE.id : (KML_SCORE_STYLES.find(style => score <= style.max) || KML_SCORE_STYLES[4]).id;
+
+const kmlRing = (ring: [number, number][]) => ring.map(([lon, lat]) => `${lon},${lat},0`).join(' ');
+
+export const toKml = (results: AnalysisResult[], areas: SearchArea[]): string => {
+  const styles = [...KML_SCORE_STYLES, KML_NO_SCORE_STYLE].map(style => `
+    <Style id="${style.id}">
+      <IconStyle>
+        <color>${style.color}</color>
+        <scale>1.1</scale>
+        <Icon><href>http://maps.google.com/mapfiles/kml/shapes/placemark_circle.png</href></Icon>
+      </IconStyle>
+    </Style>`).join('');
+
+  const placemarks = results.map(result => {
+    const properties = resultProperties(result);
+    const score = properties.potencial_prodeje_skore as number | null;
+    const data = Object.entries(properties)
+      .filter(([, value]) => value !== null)
+      .map(([key, value]) => `<Data name="${escapeXml(key)}"><value>${escapeXml(value)}</value></Data>`)
+      .join('');
+    const description = score !== null
+      ? `Skóre potenciálu: ${score}/100\n${properties.doporuceni || ''}`
+      : `Stav analýzy: ${result.analysisStatus}`;
+
+    return `
+    <Placemark>
+      <name>${escapeXml(properties.name)}</name>
+      <description>${escapeXml(description)}</description>
+      <styleUrl>#${kmlStyleFor(score)}</styleUrl>
+      <ExtendedData>${data}</ExtendedData>
+      <Point><coordinates>${result.coordinates[0]},${result.coordinates[1]},0</coordinates></Point>
+    </Placemark>`;
+  }).join('');
+
+  // Search areas in the app's electric blue, exclusion zones in red
+  const area = areas.map(({ role, rings }) => `
+    <Placemark>
+      <name>${AREA_NAMES[role]}</name>
+      <Style>
+        <LineStyle><color>${role === 'exclude' ? 'ff4444ef' : 'ffffd400'}</color><width>2</width></LineStyle>
+        <PolyStyle><color>${role === 'exclude' ? '404444ef' : '33ffd400'}</color></PolyStyle>
+      </Style>
+      <Polygon>
+        <outerBoundaryIs><LinearRing><coordinates>${kmlRing(rings[0])}</coordinates></LinearRing></outerBoundaryIs>${rings.slice(1).map(ring => `
+        <innerBoundaryIs><LinearRing><coordinates>${kmlRing(ring)}</coordinates></LinearRing></innerBoundaryIs>`).join('')}
+      </Polygon>
+    </Placemark>`).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>Analýza nemovitostí</name>${styles}${area}${placemarks}
+  </Document>
+</kml>
+`;
+};
+
+// --- GPX ---
+
+export const toGpx = (results: AnalysisResult[], areas: SearchArea[]): string => {
+  const waypoints = results.map(result => {
+    const properties = resultProperties(result);
+    const score = properties.potencial_prodeje_skore;
+    const checklist = CHECKLIST_KEYS
+      .filter(key => properties[`checklist_${key}`] !== null)
+      .map(key => `${key.replace(/_/g, ' ')}: ${properties[`checklist_${key}`]}`)
+      .join(', ');
+    const extensions = Object.entries(properties)
+      .filter(([key, value]) => value !== null && key !== 'name')
+      .map(([key, value]) => `<fa:${key}>${escapeXml(value)}</fa:${key}>`)
+      .join('');
+
+    return `
+  <wpt lat="${result.coordinates[1]}" lon="${result.coordinates[0]}">
+    <name>${escapeXml(properties.name)}</name>
+    <desc>${escapeXml(score !== null ? `Skóre ${score}/100. ${checklist}` : `Stav analýzy: ${result.analysisStatus}`)}</desc>
+    <type>${escapeXml(result.analysisStatus)}</type>
+    <extensions>${extensions}</extensions>
+  </wpt>`;
+  }).join('');
+
+  // GPX has no polygons - area boundaries go out as closed tracks
+  const area = areas.map(({ role, rings }) => `
+  <trk>
+    <name>${AREA_NAMES[role]}</name>
+    <type>${role === 'exclude' ? 'exclusion-zone' : 'search-area'}</type>${rings.map(ring => `
+    <trkseg>${ring.map(([lon, lat]) => `<trkpt lat="${lat}" lon="${lon}"/>`).join('')}</trkseg>`).join('')}
+  </trk>`).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="PropertyScout AI" xmlns="http://www.topografix.com/GPX/1/1" xmlns:fa="${EXPORT_NAMESPACE}">
+  <metadata><name>Analýza nemovitostí</name><time>${new Date().toISOString()}</time></metadata>${waypoints}${area}
+</gpx>
+`;
+};
+
+export const downloadFile = (content: BlobPart, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,44 @@
+// Small promise helpers around the IndexedDB request/transaction callbacks
+
+// Wrap an IDBRequest into a promise
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Resolve once the whole transaction is committed
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// IndexedDB is missing in SSR/tests and in some private browsing modes
+export function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+// Open a database, creating object stores in onupgradeneeded. Resolves null when unavailable.
+export function openDatabase(
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase) => void
+): Promise<IDBDatabase | null> {
+  if (!isIndexedDbAvailable()) {
+    return Promise.resolve(null);
+  }
+
+  return new Promise(resolve => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = () => upgrade(request.result);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.warn(`⚠️ IndexedDB "${name}" unavailable:`, request.error);
+      resolve(null);
+    };
+  });
+}
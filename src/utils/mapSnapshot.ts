@@ -0,0 +1,86 @@
+import Map from 'ol/Map.js';
+import { Extent } from 'ol/extent';
+import { unByKey } from 'ol/Observable.js';
+
+// Tiles that never finish loading (offline, tile errors) must not hang the report
+const RENDER_TIMEOUT_MS = 8000;
+
+// Composite all layer canvases of the map into one canvas, framed on `extent` when given.
+// The previous view is restored afterwards. Resolves null when the canvas is tainted
+// (a tile source without CORS) so callers can continue without the map. When the map
+// does not finish rendering within `timeoutMs`, whatever is drawn by then is captured.
+export const captureMapSnapshot = (
+  map: Map,
+  extent?: Extent | null,
+  timeoutMs = RENDER_TIMEOUT_MS
+): Promise<HTMLCanvasElement | null> => {
+  const view = map.getView();
+  const previous = { center: view.getCenter(), resolution: view.getResolution(), rotation: view.getRotation() };
+
+  if (extent) {
+    view.fit(extent, { padding: [40, 40, 40, 40], maxZoom: 19 });
+  }
+
+  return new Promise(resolve => {
+    let finished = false;
+    const finish = () => {
+      if (finished) return;
+      finished = true;
+      clearTimeout(timer);
+      unByKey(renderKey);
+      const size = map.getSize();
+      let snapshot: HTMLCanvasElement | null = null;
+
+      if (size) {
+        snapshot = document.createElement('canvas');
+        snapshot.width = size[0];
+        snapshot.height = size[1];
+        const context = snapshot.getContext('2d')!;
+
+        map.getViewport().querySelectorAll<HTMLCanvasElement>('.ol-layer canvas, canvas.ol-layer').forEach(canvas => {
+          if (canvas.width === 0) return;
+
+          const parent = canvas.parentNode as HTMLElement;
+          const opacity = parent.style.opacity || canvas.style.opacity;
+          context.globalAlpha = opacity === '' ? 1 : Number(opacity);
+
+          // Layer canvases carry their own CSS transform (pixel ratio, rotation)
+          const matrix = /^matrix\(([^(]*)\)$/.exec(canvas.style.transform);
+          const [a, b, c, d, e, f] = matrix ? matrix[1].split(',').map(Number) : [1, 0, 0, 1, 0, 0];
+          context.setTransform(a, b, c, d, e, f);
+
+          if (parent.style.backgroundColor) {
+            context.fillStyle = parent.style.backgroundColor;
+            context.fillRect(0, 0, canvas.width, canvas.height);
+          }
+          context.drawImage(canvas, 0, 0);
+        });
+
+        context.globalAlpha = 1;
+        context.setTransform(1, 0, 0, 1, 0, 0);
+
+        try {
+          // Reading a pixel throws on a tainted canvas
+          context.getImageData(0, 0, 1, 1);
+        } catch (error) {
+          console.warn('⚠️ Map snapshot is not exportable:', error);
+          snapshot = null;
+        }
+      }
+
+      if (extent) {
+        view.setRotation(previous.rotation);
+        view.setResolution(previous.resolution);
+        view.setCenter(previous.center);
+      }
+      resolve(snapshot);
+    };
+
+    const renderKey = map.once('rendercomplete', finish);
+    const timer = setTimeout(() => {
+      console.warn(`⚠️ Map did not finish rendering within ${timeoutMs} ms, capturing it as it is`);
+      finish();
+    }, timeoutMs);
+    map.renderSync();
+  });
+};
@@ -0,0 +1,71 @@
+import { CHECKLIST_KEYS, ChecklistKey, PropertyAnalysisResponse } from '../shared/propertyAnalysisSchema';
+import { AnalysisResult, isAiAnalysisError } from '../types/analysis';
+import { CHECKLIST_LABELS } from './tabularExport';
+
+// What the heatmap and the grid are weighted by: the overall acquisition score
+// or a single checklist item (0-10, where 10 is the most neglected)
+export type OpportunityMetric = 'potencial_prodeje_skore' | ChecklistKey;
+
+export const OPPORTUNITY_METRICS: { value: OpportunityMetric; label: string }[] = [
+  { value: 'potencial_prodeje_skore', label: 'Skóre potenciálu' },
+  ...CHECKLIST_KEYS.map(key => ({ value: key, label: CHECKLIST_LABELS[key] }))
+];
+
+export const GRID_CELL_SIZES_M = [50, 100, 250, 500];
+
+export interface OpportunityPoint {
+  coordinates: [number, number]; // [lon, lat]
+  weight: number; // 0-1
+}
+
+export interface OpportunityCell {
+  bounds: [number, number, number, number]; // [minLon, minLat, maxLon, maxLat]
+  mean: number; // 0-1
+  count: number;
+}
+
+const METERS_PER_DEGREE_LAT = 111320;
+
+const analysisOf = (result: AnalysisResult): PropertyAnalysisResponse | null =>
+  result.aiAnalysis && !isAiAnalysisError(result.aiAnalysis) ? result.aiAnalysis : null;
+
+// Normalised 0-1 weight of one result, or null when it has no analysis
+export const metricWeight = (result: AnalysisResult, metric: OpportunityMetric): number | null => {
+  const analysis = analysisOf(result);
+  if (!analysis) return null;
+  return metric === 'potencial_prodeje_skore'
+    ? analysis.souhrn.potencial_prodeje_skore / 100
+    : analysis.checklist[metric] / 10;
+};
+
+export const opportunityPoints = (results: AnalysisResult[], metric: OpportunityMetric): OpportunityPoint[] =>
+  results.flatMap(result => {
+    const weight = metricWeight(result, metric);
+    return weight === null ? [] : [{ coordinates: result.coordinates, weight }];
+  });
+
+// Mean weight per square cell. Cells are aligned to a fixed lon/lat grid (sized at the
+// rounded mean latitude) so they do not shift as more results arrive.
+export const aggregateGrid = (points: OpportunityPoint[], cellSizeM: number): OpportunityCell[] => {
+  if (points.length === 0) return [];
+
+  const meanLat = points.reduce((sum, point) => sum + point.coordinates[1], 0) / points.length;
+  const cellLat = cellSizeM / METERS_PER_DEGREE_LAT;
+  const cellLon = cellSizeM / (METERS_PER_DEGREE_LAT * Math.cos((Math.round(meanLat) * Math.PI) / 180));
+
+  const cells: Record<string, { x: number; y: number; sum: number; count: number }> = {};
+  points.forEach(({ coordinates: [lon, lat], weight }) => {
+    const x = Math.floor(lon / cellLon);
+    const y = Math.floor(lat / cellLat);
+    const key = `${x}_${y}`;
+    const cell = cells[key] || (cells[key] = { x, y, sum: 0, count: 0 });
+    cell.sum += weight;
+    cell.count++;
+  });
+
+  return Object.values(cells).map(cell => ({
+    bounds: [cell.x * cellLon, cell.y * cellLat, (cell.x + 1) * cellLon, (cell.y + 1) * cellLat],
+    mean: cell.sum / cell.count,
+    count: cell.count
+  }));
+};
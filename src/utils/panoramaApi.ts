@@ -1,56 +1,33 @@
-import { PanoramaImage, PanoramaApiResponse, ImageCache, PanoramaControlsState } from '../types/panoramaViewer';
+import { PanoramaImage, PanoramaApiResponse, ImageCache, PanoramaControlsState, PanoramaRequestOptions, DiskCacheOptions, PanoramaCacheStats } from '../types/panoramaViewer';
+import { PanoramaDiskCache, getPanoramaDiskCache } from './panoramaDiskCache';
+import { aimViewAtTarget } from './panoramaTargeting';
+import { buildStaticPanoramaUrl } from '../shared/panoramaUrl';
+import { mapyScheduler } from './requestScheduler';
+import { RequestPriority } from '../types/requestScheduler';
 
 // Enhanced API utility for Mapy.cz Static Panorama API
 export class PanoramaApiService {
-  private baseUrl = 'https://api.mapy.cz/v1/static/pano';
   private cache: ImageCache = {};
   private cacheTimeout = 30 * 60 * 1000; // 30 minutes
+  private diskCache: PanoramaDiskCache;
 
-  constructor(private apiKey: string) {}
+  // Memory tier is per instance, disk tier (IndexedDB) is shared and survives reloads
+  constructor(private apiKey: string, diskCacheOptions: Partial<DiskCacheOptions> = {}) {
+    this.diskCache = getPanoramaDiskCache(diskCacheOptions);
+  }
 
-  // Generate panorama image URL
+  // Generate panorama image URL. With `options.target` the camera looks at the
+  // target: yaw = bearing from the panorama, FOV and pitch from the distance.
   generatePanoramaUrl(
     lon: number,
     lat: number,
-    options: Partial<PanoramaControlsState> = {}
+    options: PanoramaRequestOptions = {}
   ): string {
-    // Mapy.cz Static Panorama API format
-    // IMPORTANT: Max dimensions are 1024x1024 pixels!
-    // yaw: 0–2π radians (or "auto"/"point")
-    // pitch: ±π radians
-    // fov: π/2 to π/20 radians (API is VERY strict about these limits!)
-
-    const width = Math.min(options.width || 1024, 1024); // Max 1024px!
-    const height = Math.min(options.height || 800, 1024); // Max 1024px!
-
-    // Convert degrees to radians for yaw (0-360° → 0-2π)
-    const yawDegrees = options.yaw !== undefined ? options.yaw : 0;
-    const yawRadians = (yawDegrees * Math.PI) / 180;
-
-    // Convert degrees to radians for pitch (-90 to 90° → -π to π)
-    const pitchDegrees = options.pitch !== undefined ? options.pitch : 0;
-    const pitchRadians = (pitchDegrees * Math.PI) / 180;
-
-    // Convert FOV degrees to radians
-    // CRITICAL: API rejects values >= Math.PI/2, so we cap at 1.57 (just under π/2)
-    const fovDegrees = options.fov || 90;
-    const fovRadians = (fovDegrees * Math.PI) / 180;
-    const minFov = Math.PI / 20; // ~0.157 radians (9°)
-    const maxFov = 1.57; // Safely under π/2 (1.5708), API strictly rejects >= π/2
-    const safeFov = Math.min(Math.max(fovRadians, minFov), maxFov);
-
-    const params = new URLSearchParams({
-      lon: lon.toString(),
-      lat: lat.toString(),
-      width: width.toString(),
-      height: height.toString(),
-      yaw: yawRadians.toFixed(4),
-      pitch: pitchRadians.toFixed(4),
-      fov: safeFov.toFixed(4),
-      apikey: this.apiKey
-    });
+    const { target, ...controls } = options;
+    const view = target ? { ...controls, ...aimViewAtTarget({ lon, lat }, target) } : controls;
 
-    return `${this.baseUrl}?${params.toString()}`;
+    // Mapy.cz Static Panorama API format - shared with the server-side job runner
+    return buildStaticPanoramaUrl(lon, lat, view, this.apiKey);
   }
 
   // Generate cache key for URL
@@ -58,19 +35,32 @@ export class PanoramaApiService {
     return btoa(url).replace(/[+/=]/g, '');
   }
 
+  // Disk cache key - same generatePanoramaUrl parameters, but without the API key
+  // so that rotating the key does not invalidate persisted images
+  private getDiskCacheKey(url: string): string {
+    const params = new URL(url).searchParams;
+    params.delete('apikey');
+    params.sort();
+    return params.toString();
+  }
+
   // Check if cache entry is valid
   private isCacheValid(timestamp: number): boolean {
     return Date.now() - timestamp < this.cacheTimeout;
   }
 
-  // Fetch panorama image with caching
+  // Fetch panorama image with caching. Network requests go through the shared
+  // Mapy.cz scheduler in the given lane.
   async fetchPanoramaImage(
     lon: number,
     lat: number,
-    options: Partial<PanoramaControlsState> = {}
+    options: PanoramaRequestOptions = {},
+    signal?: AbortSignal,
+    priority: RequestPriority = 'normal'
   ): Promise<PanoramaApiResponse> {
     const url = this.generatePanoramaUrl(lon, lat, options);
     const cacheKey = this.getCacheKey(url);
+    const diskCacheKey = this.getDiskCacheKey(url);
 
     // Check cache first
     if (this.cache[cacheKey] && this.isCacheValid(this.cache[cacheKey].timestamp)) {
@@ -81,25 +71,34 @@ export class PanoramaApiService {
       };
     }
 
+    // Then the persistent tier - promote hits back into memory
+    const diskBlob = await this.diskCache.get(diskCacheKey);
+    if (diskBlob) {
+      console.log('💽 Panorama disk cache hit:', diskCacheKey);
+      const blobUrl = this.storeInMemory(cacheKey, diskBlob);
+      return {
+        success: true,
+        imageUrl: blobUrl
+      };
+    }
+
+    let status: number | undefined;
     try {
       console.log('🌐 Fetching panorama:', url);
       
-      const response = await fetch(url);
+      const response = await mapyScheduler.fetch(url, { signal }, priority);
       
       if (!response.ok) {
+        status = response.status;
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
 
       // Create blob URL for caching
       const blob = await response.blob();
-      const blobUrl = URL.createObjectURL(blob);
+      const blobUrl = this.storeInMemory(cacheKey, blob);
 
-      // Store in cache
-      this.cache[cacheKey] = {
-        url: blobUrl,
-        timestamp: Date.now(),
-        blob
-      };
+      // Persist without blocking the caller
+      this.diskCache.set(diskCacheKey, blob);
 
       console.log('✅ Panorama fetched successfully');
       
@@ -112,20 +111,60 @@ export class PanoramaApiService {
       console.error('❌ Panorama fetch failed:', error);
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
+        error: error instanceof Error ? error.message : 'Unknown error',
+        status
       };
     }
   }
 
+  // Image from the memory or disk tier only - never hits the network.
+  // Used where a missing image is acceptable (offline reports).
+  async getCachedPanoramaImage(
+    lon: number,
+    lat: number,
+    options: PanoramaRequestOptions = {}
+  ): Promise<Blob | null> {
+    const url = this.generatePanoramaUrl(lon, lat, options);
+    const memoryEntry = this.cache[this.getCacheKey(url)];
+    if (memoryEntry?.blob && this.isCacheValid(memoryEntry.timestamp)) {
+      return memoryEntry.blob;
+    }
+    return this.diskCache.get(this.getDiskCacheKey(url));
+  }
+
+  // Forget a blob URL from fetchPanoramaImage once the caller has read the image.
+  // The image stays in the disk tier.
+  releaseImageUrl(imageUrl: string): void {
+    const key = Object.keys(this.cache).find(cacheKey => this.cache[cacheKey].url === imageUrl);
+    if (key) delete this.cache[key];
+    URL.revokeObjectURL(imageUrl);
+  }
+
+  // Put a blob into the memory tier, replacing (and revoking) any stale entry
+  private storeInMemory(cacheKey: string, blob: Blob): string {
+    if (this.cache[cacheKey]) {
+      URL.revokeObjectURL(this.cache[cacheKey].url);
+    }
+
+    const blobUrl = URL.createObjectURL(blob);
+    this.cache[cacheKey] = {
+      url: blobUrl,
+      timestamp: Date.now(),
+      blob
+    };
+    return blobUrl;
+  }
+
   // Download panorama image
   async downloadPanoramaImage(
     lon: number,
     lat: number,
     options: Partial<PanoramaControlsState> = {},
-    filename?: string
+    filename?: string,
+    priority: RequestPriority = 'interactive'
   ): Promise<boolean> {
     try {
-      const response = await this.fetchPanoramaImage(lon, lat, options);
+      const response = await this.fetchPanoramaImage(lon, lat, options, undefined, priority);
       
       if (!response.success || !response.imageUrl) {
         throw new Error(response.error || 'Failed to fetch image');
@@ -149,7 +188,7 @@ export class PanoramaApiService {
     }
   }
 
-  // Batch download multiple panoramas
+  // Batch download multiple panoramas - paced by the scheduler's background lane
   async batchDownloadPanoramas(
     locations: Array<{ lon: number; lat: number }>,
     options: Partial<PanoramaControlsState> = {},
@@ -158,29 +197,25 @@ export class PanoramaApiService {
     let success = 0;
     let failed = 0;
 
-    for (let i = 0; i < locations.length; i++) {
-      const { lon, lat } = locations[i];
-      
-      try {
-        await this.downloadPanoramaImage(
-          lon, 
-          lat, 
-          options, 
-          `panorama_batch_${i + 1}_${lon}_${lat}.jpg`
-        );
+    await Promise.all(locations.map(async ({ lon, lat }, i) => {
+      const downloaded = await this.downloadPanoramaImage(
+        lon,
+        lat,
+        options,
+        `panorama_batch_${i + 1}_${lon}_${lat}.jpg`,
+        'background'
+      );
+      if (downloaded) {
         success++;
-      } catch (error) {
-        console.error(`Failed to download panorama ${i + 1}:`, error);
+      } else {
+        console.error(`Failed to download panorama ${i + 1}`);
         failed++;
       }
 
       if (onProgress) {
-        onProgress(i + 1, locations.length);
+        onProgress(success + failed, locations.length);
       }
-
-      // Add small delay to avoid overwhelming the API
-      await new Promise(resolve => setTimeout(resolve, 200));
-    }
+    }));
 
     return { success, failed };
   }
@@ -210,7 +245,6 @@ export class PanoramaApiService {
 
   // Clean up old cache entries
   cleanupCache(): void {
-    const now = Date.now();
     Object.keys(this.cache).forEach(key => {
       if (!this.isCacheValid(this.cache[key].timestamp)) {
         // Revoke blob URL to free memory
@@ -218,9 +252,12 @@ export class PanoramaApiService {
         delete this.cache[key];
       }
     });
+
+    // Expired and over-budget disk entries
+    this.diskCache.evict();
   }
 
-  // Clear all cache
+  // Clear memory cache (blob URLs). The disk tier is kept so a reopened viewer hits it.
   clearCache(): void {
     Object.values(this.cache).forEach(entry => {
       URL.revokeObjectURL(entry.url);
@@ -228,8 +265,14 @@ export class PanoramaApiService {
     this.cache = {};
   }
 
-  // Get cache statistics
-  getCacheStats(): { count: number; totalSize: number } {
+  // Clear the persistent IndexedDB tier. Images on screen keep their memory-tier blob
+  // URLs; they are released with clearCache() as usual.
+  async clearPersistentCache(): Promise<void> {
+    await this.diskCache.clear();
+  }
+
+  // Get cache statistics for both tiers
+  getCacheStats(): PanoramaCacheStats {
     const count = Object.keys(this.cache).length;
     let totalSize = 0;
     
@@ -239,6 +282,15 @@ export class PanoramaApiService {
       }
     });
 
-    return { count, totalSize };
+    const disk = this.diskCache.getStats();
+
+    // Top-level numbers stay memory-only for backwards compatibility;
+    // an image usually lives in both tiers, so summing them would double count
+    return {
+      count,
+      totalSize,
+      memory: { count, totalSize },
+      disk
+    };
   }
 }
\ No newline at end of file
@@ -1,13 +1,21 @@
+import { mapyScheduler } from './requestScheduler';
+import { RequestPriority } from '../types/requestScheduler';
+
 // Alternative panorama checking approach using REST API
-export async function checkPanoramaViaREST(lon: number, lat: number, apiKey: string): Promise<boolean> {
+export async function checkPanoramaViaREST(
+  lon: number,
+  lat: number,
+  apiKey: string,
+  priority: RequestPriority = 'normal'
+): Promise<boolean> {
   // Use a small image size for faster checking
   const url = `https://api.mapy.cz/v1/static/pano?width=1&height=1&lon=${lon}&lat=${lat}&yaw=0&apikey=${apiKey}`;
   
   try {
-    const response = await fetch(url, {
+    await mapyScheduler.fetch(url, {
       method: 'HEAD', // Just check headers, don't download the image
       mode: 'no-cors' // Avoid CORS issues
-    });
+    }, priority);
     
     // In no-cors mode, we can't read the status, but if the request completes without error,
     // we assume the panorama exists
@@ -18,30 +26,15 @@ export async function checkPanoramaViaREST(lon: number, lat: number, apiKey: str
   }
 }
 
-// Helper function to check multiple points in parallel
+// Helper function to check multiple points - pacing is left to the shared scheduler
 export async function checkMultiplePanoramasREST(
   points: Array<{lon: number, lat: number}>, 
-  apiKey: string,
-  batchSize: number = 5
+  apiKey: string
 ): Promise<Array<{lon: number, lat: number, exists: boolean}>> {
-  const results: Array<{lon: number, lat: number, exists: boolean}> = [];
-  
-  // Process in batches to avoid overwhelming the API
-  for (let i = 0; i < points.length; i += batchSize) {
-    const batch = points.slice(i, i + batchSize);
-    const batchResults = await Promise.all(
-      batch.map(async (point) => ({
-        ...point,
-        exists: await checkPanoramaViaREST(point.lon, point.lat, apiKey)
-      }))
-    );
-    results.push(...batchResults);
-    
-    // Add delay between batches
-    if (i + batchSize < points.length) {
-      await new Promise(resolve => setTimeout(resolve, 100));
-    }
-  }
-  
-  return results;
-}
\ No newline at end of file
+  return Promise.all(
+    points.map(async (point) => ({
+      ...point,
+      exists: await checkPanoramaViaREST(point.lon, point.lat, apiKey, 'background')
+    }))
+  );
+}
@@ -0,0 +1,174 @@
+import { SearchArea } from '../types/searchArea';
+import { DiscoveredPanorama, DiscoveryCell, DiscoveryOptions, discoverPanoramas, forEachRootCell } from './panoramaDiscovery';
+
+const ORIGIN: [number, number] = [14.42, 50.08];
+const M_PER_DEG_LAT = 111_000;
+const M_PER_DEG_LON = M_PER_DEG_LAT * Math.cos((ORIGIN[1] * Math.PI) / 180);
+
+// Point `east`/`north` metres from the origin
+const at = (east: number, north: number): [number, number] =>
+  [ORIGIN[0] + east / M_PER_DEG_LON, ORIGIN[1] + north / M_PER_DEG_LAT];
+
+const square = (role: SearchArea['role'], from: number, to: number): SearchArea => ({
+  role,
+  rings: [[at(from, from), at(to, from), at(to, to), at(from, to), at(from, from)]]
+});
+
+const AREA = [square('include', 0, 400)];
+const OPTIONS: DiscoveryOptions = { rootCellM: 240, minCellM: 15, maxCalls: 1000 };
+
+const panoramaAt = (east: number, north: number): DiscoveredPanorama => {
+  const [lon, lat] = at(east, north);
+  return { lon, lat, date: '2024-05-01' };
+};
+
+// Two panoramas close together in the first root cell, one in another
+const PANORAMAS = [panoramaAt(60, 60), panoramaAt(90, 60), panoramaAt(300, 300)];
+
+// Nearest known panorama within the radius, like the Mapy.cz lookup
+const fakeProbe = (panoramas: DiscoveredPanorama[]) => jest.fn(async (lon: number, lat: number, radius: number) => {
+  let nearest: DiscoveredPanorama | null = null;
+  let nearestDistance = Infinity;
+  panoramas.forEach(panorama => {
+    const distance = Math.hypot((panorama.lon - lon) * M_PER_DEG_LON, (panorama.lat - lat) * M_PER_DEG_LAT);
+    if (distance <= radius && distance < nearestDistance) {
+      nearest = panorama;
+      nearestDistance = distance;
+    }
+  });
+  return nearest;
+});
+
+const sortByLon = (panoramas: DiscoveredPanorama[]) => [...panoramas].sort((a, b) => a.lon - b.lon);
+
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('forEachRootCell', () => {
+  const rootCells = (areas: SearchArea[]) => {
+    const cells: DiscoveryCell[] = [];
+    forEachRootCell(areas, OPTIONS.rootCellM, cell => cells.push(cell));
+    return cells;
+  };
+
+  test('covers the bounds of the areas with root cells', () => {
+    const cells = rootCells(AREA);
+    expect(cells).toHaveLength(4);
+    cells.forEach(cell => expect(cell).toMatchObject({ sizeM: 240, level: 0 }));
+  });
+
+  test('skips cells that lie entirely in an exclusion zone', () => {
+    expect(rootCells([...AREA, square('exclude', -10, 250)])).toHaveLength(3);
+  });
+
+  test('yields nothing without areas', () => {
+    expect(rootCells([])).toEqual([]);
+  });
+});
+
+describe('discoverPanoramas', () => {
+  test('finds every panorama, splitting only cells that yielded a new one', async () => {
+    const probe = fakeProbe(PANORAMAS);
+    const { panoramas, stats, aborted, checkpoint } = await discoverPanoramas(AREA, probe, OPTIONS);
+
+    expect(sortByLon(panoramas)).toEqual(sortByLon(PANORAMAS));
+    expect(aborted).toBe(false);
+    expect(checkpoint.pending).toEqual([]);
+    expect(stats.depth).toBeGreaterThan(0);
+    expect(stats.calls).toBe(probe.mock.calls.length);
+    // The fixed 15 m grid would need (400 / 15)^2 ≈ 700 probes
+    expect(stats.calls).toBeLessThan(100);
+  });
+
+  test('stops at the root level when no cell has a panorama', async () => {
+    const probe = fakeProbe([]);
+    const { panoramas, stats } = await discoverPanoramas(AREA, probe, OPTIONS);
+    expect(panoramas).toEqual([]);
+    expect(stats).toEqual({ calls: 4, depth: 0 });
+  });
+
+  test('probes a cell again when its answer was unknown', async () => {
+    const answer = fakeProbe(PANORAMAS);
+    let failed = false;
+    // The first root cell probe times out once
+    const probe = jest.fn(async (lon: number, lat: number, radius: number) => {
+      if (!failed) {
+        failed = true;
+        throw new Error('Timeout');
+      }
+      return answer(lon, lat, radius);
+    });
+
+    const { panoramas, unresolved, checkpoint } = await discoverPanoramas(AREA, probe, OPTIONS);
+    expect(sortByLon(panoramas)).toEqual(sortByLon(PANORAMAS));
+    expect(unresolved).toBe(0);
+    expect(checkpoint.pending).toEqual([]);
+  });
+
+  test('leaves a cell whose probes keep failing unresolved in the checkpoint', async () => {
+    const answer = fakeProbe(PANORAMAS);
+    // The root cell with the two close panoramas never answers
+    const failing = (lon: number, lat: number) => lon < at(240, 0)[0] && lat < at(0, 240)[1];
+    const probe = jest.fn(async (lon: number, lat: number, radius: number) => {
+      if (failing(lon, lat)) throw new Error('HTTP 500');
+      return answer(lon, lat, radius);
+    });
+
+    const result = await discoverPanoramas(AREA, probe, OPTIONS);
+    expect(result.panoramas).toEqual([PANORAMAS[2]]);
+    expect(result.unresolved).toBe(1);
+    expect(probe.mock.calls.filter(([lon, lat]) => failing(lon, lat))).toHaveLength(3);
+    expect(result.checkpoint.pending).toEqual([expect.objectContaining({ level: 0, failures: 3 })]);
+
+    // Once the service answers again, resuming finds what the failing cell hid
+    const resumed = await discoverPanoramas(AREA, fakeProbe(PANORAMAS), OPTIONS, { resume: result.checkpoint });
+    expect(sortByLon(resumed.panoramas)).toEqual(sortByLon(PANORAMAS));
+    expect(resumed.unresolved).toBe(0);
+  });
+
+  test('keeps the cells over the call cap in the checkpoint and resumes from it', async () => {
+    const capped = await discoverPanoramas(AREA, fakeProbe(PANORAMAS), { ...OPTIONS, maxCalls: 2 });
+    expect(capped.stats.calls).toBe(2);
+    expect(capped.checkpoint.pending.length).toBeGreaterThan(0);
+
+    const resumed = await discoverPanoramas(AREA, fakeProbe(PANORAMAS), OPTIONS, { resume: capped.checkpoint });
+    expect(sortByLon(resumed.panoramas)).toEqual(sortByLon(PANORAMAS));
+    expect(resumed.checkpoint.pending).toEqual([]);
+  });
+
+  test('leaves every cell pending when aborted before probing', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const probe = fakeProbe(PANORAMAS);
+    const { aborted, stats, checkpoint } = await discoverPanoramas(AREA, probe, OPTIONS, { signal: controller.signal });
+
+    expect(aborted).toBe(true);
+    expect(probe).not.toHaveBeenCalled();
+    expect(stats.calls).toBe(0);
+    expect(checkpoint.pending).toHaveLength(4);
+  });
+
+  test('probes streamed root cells as the chunks arrive', async () => {
+    const chunks: DiscoveryCell[][] = [];
+    forEachRootCell(AREA, OPTIONS.rootCellM, cell => chunks.push([cell]));
+    const probe = fakeProbe(PANORAMAS);
+    const onLevel = jest.fn();
+
+    const { panoramas } = await discoverPanoramas(AREA, probe, OPTIONS, {
+      onLevel,
+      streamRootCells: async onCells => {
+        onCells(chunks[0]);
+        expect(probe).toHaveBeenCalledTimes(1);
+        chunks.slice(1).forEach(chunk => onCells(chunk));
+      }
+    });
+
+    expect(sortByLon(panoramas)).toEqual(sortByLon(PANORAMAS));
+    expect(onLevel.mock.calls[0]).toEqual([0, expect.any(Number), 4]);
+  });
+});
@@ -0,0 +1,259 @@
+import { SearchArea } from '../types/searchArea';
+import { pointInArea, pointInSearchAreas, searchAreasBounds } from './searchAreas';
+
+type LonLat = [number, number];
+
+export interface DiscoveredPanorama {
+  lon: number;
+  lat: number;
+  date: string;
+}
+
+// Nearest panorama within `radius` metres of the point, or null when there is none.
+// Rejects when the answer is unknown (timeout, rate limit, network error) - with an
+// AbortError when the signal aborts before the probe was sent.
+export type PanoramaProbe = (
+  lon: number,
+  lat: number,
+  radius: number,
+  signal?: AbortSignal
+) => Promise<DiscoveredPanorama | null>;
+
+export interface DiscoveryOptions {
+  rootCellM: number; // Size of the coarse starting cells
+  minCellM: number; // Cells are not split below this size
+  maxCalls: number;
+}
+
+export interface DiscoveryStats {
+  calls: number; // Probes actually sent
+  gridCalls: number; // Probes the fixed 15 m grid would have sent over the same areas (counted in the grid worker)
+  depth: number; // Deepest level reached
+}
+
+export const DEFAULT_DISCOVERY_OPTIONS: DiscoveryOptions = {
+  rootCellM: 240,
+  minCellM: 15,
+  maxCalls: 4000
+};
+
+// Spacing of the brute-force grid the savings are reported against
+export const GRID_SPACING_M = 15;
+
+// Everything needed to continue an interrupted discovery
+export interface DiscoveryCheckpoint {
+  pending: DiscoveryCell[]; // Cells still to probe - the rest of the current level and the next one
+  panoramas: DiscoveredPanorama[];
+  calls: number;
+  depth: number;
+}
+
+// Hands the root cells over in chunks as they are generated (by the search grid worker)
+// and resolves once all of them were delivered
+export type RootCellStream = (onCells: (cells: DiscoveryCell[]) => void) => Promise<unknown>;
+
+export interface DiscoveryHooks {
+  signal?: AbortSignal;
+  resume?: DiscoveryCheckpoint; // Continue from here instead of the root cells
+  streamRootCells?: RootCellStream; // Root cells are generated here when not given
+  onLevel?: (level: number, found: number, calls: number) => void;
+  onCheckpoint?: (checkpoint: DiscoveryCheckpoint) => void;
+}
+
+export interface DiscoveryCell {
+  west: number;
+  south: number;
+  sizeLon: number;
+  sizeLat: number;
+  sizeM: number;
+  level: number;
+  failures?: number; // Probes of this cell that failed so far
+}
+
+type Cell = DiscoveryCell;
+
+const METERS_PER_DEG_LAT = 111_000;
+
+// Mid-level checkpoints are written after this many finished probes
+const CHECKPOINT_EVERY = 25;
+
+// A cell whose probe failed this often is left for a resumed search
+const MAX_PROBE_FAILURES = 3;
+
+const isAbortError = (error: unknown) => error instanceof Error && error.name === 'AbortError';
+
+const cellCorners = ({ west, south, sizeLon, sizeLat }: Cell): LonLat[] => [
+  [west, south], [west + sizeLon, south], [west + sizeLon, south + sizeLat], [west, south + sizeLat]
+];
+
+const cellCenter = ({ west, south, sizeLon, sizeLat }: Cell): LonLat =>
+  [west + sizeLon / 2, south + sizeLat / 2];
+
+const pointInCell = ([lon, lat]: LonLat, { west, south, sizeLon, sizeLat }: Cell) =>
+  lon >= west && lon <= west + sizeLon && lat >= south && lat <= south + sizeLat;
+
+// Cell overlaps a search area: its centre or a corner is searched, or an area vertex lies
+// inside it. Exclusion zones only drop cells that lie entirely within them.
+const cellTouchesAreas = (cell: Cell, areas: SearchArea[]) => {
+  const samples = [cellCenter(cell), ...cellCorners(cell)];
+  if (samples.some(point => pointInSearchAreas(point, areas))) return true;
+
+  const excluded = areas.some(area => area.role === 'exclude' && samples.every(point => pointInArea(point, area)));
+  return !excluded && areas.some(area =>
+    area.role === 'include' && area.rings.some(ring => ring.some(vertex => pointInCell(vertex, cell)))
+  );
+};
+
+const splitCell = (cell: Cell): Cell[] => {
+  const sizeLon = cell.sizeLon / 2;
+  const sizeLat = cell.sizeLat / 2;
+  return [[0, 0], [1, 0], [0, 1], [1, 1]].map(([x, y]) => ({
+    west: cell.west + x * sizeLon,
+    south: cell.south + y * sizeLat,
+    sizeLon,
+    sizeLat,
+    sizeM: cell.sizeM / 2,
+    level: cell.level + 1
+  }));
+};
+
+// Coarse starting cells over the bounds of the areas, only those that touch a search area
+export const forEachRootCell = (areas: SearchArea[], rootCellM: number, visit: (cell: DiscoveryCell) => void) => {
+  const bounds = searchAreasBounds(areas);
+  if (!bounds) return;
+
+  const [west, south, east, north] = bounds;
+  const sizeLat = rootCellM / METERS_PER_DEG_LAT;
+  const sizeLon = rootCellM / (METERS_PER_DEG_LAT * Math.cos((((south + north) / 2) * Math.PI) / 180));
+  for (let lat = south; lat < north; lat += sizeLat) {
+    for (let lon = west; lon < east; lon += sizeLon) {
+      const cell: Cell = { west: lon, south: lat, sizeLon, sizeLat, sizeM: rootCellM, level: 0 };
+      if (cellTouchesAreas(cell, areas)) visit(cell);
+    }
+  }
+};
+
+// Coarse-to-fine panorama discovery. Every cell is probed at its centre with a radius that
+// covers the whole cell. A cell without any panorama is done; a cell that yields a panorama
+// not seen before is split into quarters and probed again, until a cell only returns
+// already known panoramas or reaches the minimum size. Levels run one after another; the
+// root level starts probing while its cells are still streaming in.
+// A failed probe says nothing about the cell, so it is probed again in the next level;
+// after MAX_PROBE_FAILURES it is left unresolved. Aborting keeps what was found; the
+// returned checkpoint holds the cells not probed yet, unresolved ones included.
+export const discoverPanoramas = async (
+  areas: SearchArea[],
+  probe: PanoramaProbe,
+  options: DiscoveryOptions = DEFAULT_DISCOVERY_OPTIONS,
+  { signal, resume, streamRootCells, onLevel, onCheckpoint }: DiscoveryHooks = {}
+): Promise<{
+  panoramas: DiscoveredPanorama[];
+  stats: Omit<DiscoveryStats, 'gridCalls'>;
+  aborted: boolean;
+  unresolved: number; // Cells given up after repeated probe failures
+  checkpoint: DiscoveryCheckpoint;
+}> => {
+  const found: Record<string, DiscoveredPanorama> = {};
+  const progress = { calls: 0, depth: 0 };
+  const unresolved: Cell[] = [];
+
+  const snapshot = (pending: Cell[]): DiscoveryCheckpoint =>
+    ({ pending: [...pending, ...unresolved], panoramas: Object.values(found), ...progress });
+
+  // Probes the cells `feed` hands over (at once or in chunks) and resolves with the cells
+  // left: unprobed ones, ones over the call cap and the split children for the next level
+  const runLevel = async (feed: (add: (cells: Cell[]) => void) => Promise<unknown>): Promise<Cell[]> => {
+    const budget = options.maxCalls - progress.calls;
+    const level: Cell[] = [];
+    const done: boolean[] = [];
+    const next: Cell[] = [];
+    const deferred: Cell[] = [];
+    const probes: Promise<void>[] = [];
+    const remaining = () => [...level.filter((_, index) => !done[index]), ...next, ...deferred];
+    let finished = 0;
+
+    const probeCell = async (cell: Cell, index: number) => {
+      const [lon, lat] = cellCenter(cell);
+      let panorama: DiscoveredPanorama | null;
+      try {
+        panorama = await probe(lon, lat, Math.ceil(cell.sizeM * Math.SQRT1_2), signal);
+      } catch (error) {
+        // Aborted probes were never sent - the cell stays pending
+        if (isAbortError(error)) return;
+        // Unknown answer - not an empty cell, ask again
+        done[index] = true;
+        const failures = (cell.failures ?? 0) + 1;
+        (failures < MAX_PROBE_FAILURES ? next : unresolved).push({ ...cell, failures });
+        if (++finished % CHECKPOINT_EVERY === 0) onCheckpoint?.(snapshot(remaining()));
+        return;
+      }
+
+      progress.calls++;
+      done[index] = true;
+      progress.depth = Math.max(progress.depth, cell.level);
+
+      if (panorama) {
+        const key = `${panorama.lat.toFixed(6)}_${panorama.lon.toFixed(6)}`;
+        if (!found[key]) {
+          found[key] = panorama;
+          if (cell.sizeM / 2 >= options.minCellM) {
+            next.push(...splitCell(cell));
+          }
+        }
+      }
+
+      if (++finished % CHECKPOINT_EVERY === 0) onCheckpoint?.(snapshot(remaining()));
+    };
+
+    await feed(cells => {
+      cells.forEach(cell => {
+        // Cells arriving after an abort or over the cap stay pending for a resume
+        if (signal?.aborted || level.length >= budget) {
+          deferred.push(cell);
+          return;
+        }
+        done.push(false);
+        probes.push(probeCell(cell, level.push(cell) - 1));
+      });
+    });
+    await Promise.all(probes);
+    return remaining();
+  };
+
+  let cells: Cell[] = [];
+  if (resume) {
+    resume.panoramas.forEach(panorama => { found[`${panorama.lat.toFixed(6)}_${panorama.lon.toFixed(6)}`] = panorama; });
+    // A resumed search gives unresolved cells another full set of tries
+    cells = resume.pending.map(({ failures, ...cell }) => cell);
+    progress.calls = resume.calls;
+    progress.depth = resume.depth;
+  } else {
+    cells = await runLevel(add => streamRootCells
+      ? streamRootCells(add)
+      : Promise.resolve(forEachRootCell(areas, options.rootCellM, cell => add([cell]))));
+    onLevel?.(progress.depth, Object.keys(found).length, progress.calls);
+    onCheckpoint?.(snapshot(cells));
+  }
+
+  while (cells.length > 0 && progress.calls < options.maxCalls && !signal?.aborted) {
+    const candidates = cells.filter(cell => cellTouchesAreas(cell, areas));
+    cells = await runLevel(async add => add(candidates));
+    onLevel?.(progress.depth, Object.keys(found).length, progress.calls);
+    onCheckpoint?.(snapshot(cells));
+  }
+
+  if (cells.length > 0 && !signal?.aborted) {
+    console.warn(`⚠️ Discovery capped at ${options.maxCalls} probes`);
+  }
+  if (unresolved.length > 0) {
+    console.warn(`⚠️ ${unresolved.length} cells left unresolved after repeated probe failures`);
+  }
+
+  return {
+    panoramas: Object.values(found),
+    stats: { ...progress },
+    aborted: !!signal?.aborted,
+    unresolved: unresolved.length,
+    checkpoint: snapshot(cells)
+  };
+};
@@ -0,0 +1,78 @@
+import { DiskCacheEntry } from '../types/panoramaViewer';
+import { PanoramaDiskCache, getPanoramaDiskCache } from './panoramaDiskCache';
+
+// jsdom has no IndexedDB, so the cache runs on its in-memory index alone
+const NOW = 1_000_000;
+const TTL = 10_000;
+
+const cacheWith = (maxBytes: number, entries: Partial<DiskCacheEntry>[]) => {
+  const cache = new PanoramaDiskCache({ dbName: 'test', maxBytes, ttl: TTL });
+  const index = (cache as unknown as { index: Map<string, DiskCacheEntry> }).index;
+  entries.forEach((entry, i) => {
+    const key = entry.key || `k${i}`;
+    index.set(key, { key, size: 10, timestamp: NOW, lastAccess: NOW, ...entry });
+  });
+  return { cache, keys: () => Array.from(index.keys()).sort() };
+};
+
+beforeEach(() => {
+  jest.spyOn(Date, 'now').mockReturnValue(NOW);
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('PanoramaDiskCache.evict', () => {
+  test('keeps everything within the budget and TTL', async () => {
+    const { cache, keys } = cacheWith(100, [{ key: 'a' }, { key: 'b' }]);
+    expect(await cache.evict()).toBe(0);
+    expect(keys()).toEqual(['a', 'b']);
+  });
+
+  test('drops expired entries even under the budget', async () => {
+    const { cache, keys } = cacheWith(100, [
+      { key: 'old', timestamp: NOW - TTL },
+      { key: 'fresh', timestamp: NOW - TTL + 1 }
+    ]);
+    expect(await cache.evict()).toBe(1);
+    expect(keys()).toEqual(['fresh']);
+  });
+
+  test('drops the least recently used entries until the budget holds', async () => {
+    const { cache, keys } = cacheWith(25, [
+      { key: 'recent', lastAccess: NOW },
+      { key: 'oldest', lastAccess: NOW - 300 },
+      { key: 'older', lastAccess: NOW - 200 },
+      { key: 'newer', lastAccess: NOW - 100 }
+    ]);
+    expect(await cache.evict()).toBe(2);
+    expect(keys()).toEqual(['newer', 'recent']);
+    expect(cache.getStats()).toMatchObject({ count: 2, totalSize: 20, maxBytes: 25 });
+  });
+
+  test('counts expired entries out of the budget before evicting by LRU', async () => {
+    const { cache, keys } = cacheWith(20, [
+      { key: 'expired', size: 30, timestamp: NOW - TTL, lastAccess: NOW },
+      { key: 'lru', lastAccess: NOW - 100 },
+      { key: 'recent', lastAccess: NOW }
+    ]);
+    expect(await cache.evict()).toBe(1);
+    expect(keys()).toEqual(['lru', 'recent']);
+  });
+});
+
+describe('getPanoramaDiskCache', () => {
+  test('shares one instance per database', () => {
+    expect(getPanoramaDiskCache({ dbName: 'shared' })).toBe(getPanoramaDiskCache({ dbName: 'shared' }));
+  });
+
+  test('keeps the existing instance and warns when asked for other options', () => {
+    const first = getPanoramaDiskCache({ dbName: 'conflict', maxBytes: 100 });
+    expect(getPanoramaDiskCache({ dbName: 'conflict', maxBytes: 200 })).toBe(first);
+    expect(first.getStats().maxBytes).toBe(100);
+    expect(console.warn).toHaveBeenCalledTimes(1);
+  });
+});
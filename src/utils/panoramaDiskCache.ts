@@ -0,0 +1,227 @@
+import { DiskCacheEntry, DiskCacheOptions, CacheTierStats, PANORAMA_DISK_CACHE_DEFAULTS } from '../types/panoramaViewer';
+import { requestToPromise, transactionDone, isIndexedDbAvailable, openDatabase } from './idb';
+
+const DB_VERSION = 1;
+const BLOB_STORE = 'blobs';
+const ENTRY_STORE = 'entries';
+
+// Persistent panorama image cache in IndexedDB with byte budget, LRU eviction and TTL.
+// Blobs and their metadata live in separate stores so that touching an entry on a hit
+// does not rewrite the image. The metadata is mirrored in memory for sync stats and eviction.
+export class PanoramaDiskCache {
+  private options: DiskCacheOptions;
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private index = new Map<string, DiskCacheEntry>();
+
+  constructor(options: Partial<DiskCacheOptions> = {}) {
+    this.options = { ...PANORAMA_DISK_CACHE_DEFAULTS, ...options };
+  }
+
+  isAvailable(): boolean {
+    return isIndexedDbAvailable();
+  }
+
+  // Whether the given options (the ones set) are the ones this cache runs with
+  hasOptions(options: Partial<DiskCacheOptions>): boolean {
+    return (Object.keys(options) as (keyof DiskCacheOptions)[])
+      .every(key => options[key] === undefined || options[key] === this.options[key]);
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = openDatabase(this.options.dbName, DB_VERSION, db => {
+      if (!db.objectStoreNames.contains(BLOB_STORE)) {
+        db.createObjectStore(BLOB_STORE);
+      }
+      if (!db.objectStoreNames.contains(ENTRY_STORE)) {
+        db.createObjectStore(ENTRY_STORE, { keyPath: 'key' });
+      }
+    }).then(async db => {
+      if (!db) return null;
+      try {
+        const tx = db.transaction(ENTRY_STORE, 'readonly');
+        const entries = await requestToPromise(tx.objectStore(ENTRY_STORE).getAll() as IDBRequest<DiskCacheEntry[]>);
+        entries.forEach(entry => this.index.set(entry.key, entry));
+        console.log(`💽 Panorama disk cache opened: ${entries.length} entries`);
+      } catch (error) {
+        console.warn('⚠️ Failed to read panorama disk cache index:', error);
+      }
+      return db;
+    });
+
+    return this.dbPromise;
+  }
+
+  private isExpired(entry: DiskCacheEntry): boolean {
+    return Date.now() - entry.timestamp >= this.options.ttl;
+  }
+
+  // Read a blob; expired entries are dropped and reported as a miss
+  async get(key: string): Promise<Blob | null> {
+    const db = await this.open();
+    const entry = this.index.get(key);
+    if (!db || !entry) return null;
+
+    if (this.isExpired(entry)) {
+      await this.delete(key);
+      return null;
+    }
+
+    try {
+      const tx = db.transaction([BLOB_STORE, ENTRY_STORE], 'readwrite');
+      const blob = await requestToPromise(tx.objectStore(BLOB_STORE).get(key) as IDBRequest<Blob | undefined>);
+
+      if (!blob) {
+        tx.objectStore(ENTRY_STORE).delete(key);
+        await transactionDone(tx);
+        this.index.delete(key);
+        return null;
+      }
+
+      // Touch for LRU
+      const touched = { ...entry, lastAccess: Date.now() };
+      tx.objectStore(ENTRY_STORE).put(touched);
+      await transactionDone(tx);
+      this.index.set(key, touched);
+
+      return blob;
+    } catch (error) {
+      console.warn('⚠️ Panorama disk cache read failed:', error);
+      return null;
+    }
+  }
+
+  // Store a blob and evict least recently used entries over the byte budget
+  async set(key: string, blob: Blob): Promise<void> {
+    const db = await this.open();
+    if (!db) return;
+
+    // Never keep a single image that would not fit the budget on its own
+    if (blob.size > this.options.maxBytes) return;
+
+    const now = Date.now();
+    const entry: DiskCacheEntry = { key, size: blob.size, timestamp: now, lastAccess: now };
+
+    try {
+      const tx = db.transaction([BLOB_STORE, ENTRY_STORE], 'readwrite');
+      tx.objectStore(BLOB_STORE).put(blob, key);
+      tx.objectStore(ENTRY_STORE).put(entry);
+      await transactionDone(tx);
+      this.index.set(key, entry);
+    } catch (error) {
+      // QuotaExceededError etc. - the disk tier is best effort
+      console.warn('⚠️ Panorama disk cache write failed:', error);
+      return;
+    }
+
+    await this.evict();
+  }
+
+  async delete(key: string): Promise<void> {
+    this.index.delete(key);
+    await this.deleteMany([key]);
+  }
+
+  private async deleteMany(keys: string[]): Promise<void> {
+    const db = await this.open();
+    if (!db || keys.length === 0) return;
+
+    try {
+      const tx = db.transaction([BLOB_STORE, ENTRY_STORE], 'readwrite');
+      keys.forEach(key => {
+        tx.objectStore(BLOB_STORE).delete(key);
+        tx.objectStore(ENTRY_STORE).delete(key);
+      });
+      await transactionDone(tx);
+    } catch (error) {
+      console.warn('⚠️ Panorama disk cache delete failed:', error);
+    }
+  }
+
+  // Drop expired entries, then the least recently used ones until we fit the budget
+  async evict(): Promise<number> {
+    const victims: string[] = [];
+    let totalSize = 0;
+
+    const entries = Array.from(this.index.values());
+    entries.forEach(entry => {
+      if (this.isExpired(entry)) {
+        victims.push(entry.key);
+      } else {
+        totalSize += entry.size;
+      }
+    });
+
+    if (totalSize > this.options.maxBytes) {
+      const live = entries
+        .filter(entry => !victims.includes(entry.key))
+        .sort((a, b) => a.lastAccess - b.lastAccess);
+
+      for (const entry of live) {
+        if (totalSize <= this.options.maxBytes) break;
+        victims.push(entry.key);
+        totalSize -= entry.size;
+      }
+    }
+
+    if (victims.length > 0) {
+      victims.forEach(key => this.index.delete(key));
+      await this.deleteMany(victims);
+      console.log(`🧹 Panorama disk cache evicted ${victims.length} entries`);
+    }
+
+    return victims.length;
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    this.index.clear();
+    if (!db) return;
+
+    try {
+      const tx = db.transaction([BLOB_STORE, ENTRY_STORE], 'readwrite');
+      tx.objectStore(BLOB_STORE).clear();
+      tx.objectStore(ENTRY_STORE).clear();
+      await transactionDone(tx);
+    } catch (error) {
+      console.warn('⚠️ Panorama disk cache clear failed:', error);
+    }
+  }
+
+  // Warm up the metadata index so getStats() reflects what is on disk
+  async ready(): Promise<boolean> {
+    return (await this.open()) !== null;
+  }
+
+  getStats(): CacheTierStats & { available: boolean; maxBytes: number } {
+    let totalSize = 0;
+    this.index.forEach(entry => {
+      totalSize += entry.size;
+    });
+
+    return {
+      count: this.index.size,
+      totalSize,
+      available: this.isAvailable(),
+      maxBytes: this.options.maxBytes
+    };
+  }
+}
+
+// One instance per database so every PanoramaApiService shares the same index. Two
+// budgets or TTLs for one database cannot both hold: the first instance wins and a
+// caller asking for other options gets it with a warning.
+const sharedCaches = new Map<string, PanoramaDiskCache>();
+
+export function getPanoramaDiskCache(options: Partial<DiskCacheOptions> = {}): PanoramaDiskCache {
+  const dbName = options.dbName || PANORAMA_DISK_CACHE_DEFAULTS.dbName;
+  let cache = sharedCaches.get(dbName);
+  if (!cache) {
+    cache = new PanoramaDiskCache({ ...options, dbName });
+    sharedCaches.set(dbName, cache);
+  } else if (!cache.hasOptions(options)) {
+    console.warn(`⚠️ Panorama disk cache "${dbName}" is already open with other options - keeping those`);
+  }
+  return cache;
+}
@@ -0,0 +1,53 @@
+import { AnnotationView } from '../types/annotation';
+import { directionToImage, imageToDirection, projectAnnotation } from './panoramaProjection';
+
+const VIEW: AnnotationView = { yaw: 30, pitch: 10, fov: 90, width: 1600, height: 900 };
+
+const expectClose = (actual: number[] | null, expected: number[], digits = 6) => {
+  expect(actual).not.toBeNull();
+  (actual as number[]).forEach((value, index) => expect(value).toBeCloseTo(expected[index], digits));
+};
+
+test('the image centre looks along the view direction', () => {
+  expectClose(imageToDirection([0.5, 0.5], VIEW), [30, 10]);
+  expectClose(directionToImage([30, 10], VIEW), [0.5, 0.5]);
+});
+
+test('the image edges are half the field of view to the sides', () => {
+  const level = { ...VIEW, pitch: 0 };
+  expectClose(imageToDirection([0, 0.5], level), [345, 0]);
+  expectClose(imageToDirection([1, 0.5], level), [75, 0]);
+});
+
+test('image points survive a round trip through directions', () => {
+  const views: AnnotationView[] = [VIEW, { yaw: 350, pitch: -20, fov: 60, width: 800, height: 800 }];
+  views.forEach(view => {
+    [[0.1, 0.2], [0.5, 0.9], [0.93, 0.07], [0.5, 0.5]].forEach(point => {
+      expectClose(directionToImage(imageToDirection(point as [number, number], view), view), point);
+    });
+  });
+});
+
+test('directions behind the camera have no image point', () => {
+  expect(directionToImage([210, 0], VIEW)).toBeNull();
+});
+
+test('an annotation projects onto itself in its own view', () => {
+  const annotation = { shape: 'freehand' as const, points: [[0.2, 0.3], [0.4, 0.35], [0.3, 0.6]] as [number, number][], view: VIEW };
+  const projected = projectAnnotation(annotation, VIEW);
+  expect(projected).toHaveLength(3);
+  projected?.forEach((point, index) => expectClose(point, annotation.points[index]));
+});
+
+test('a box is traced by its four corners and moves with the view', () => {
+  const annotation = { shape: 'box' as const, points: [[0.4, 0.4], [0.6, 0.5]] as [number, number][], view: VIEW };
+  const same = projectAnnotation(annotation, VIEW);
+  expect(same).toHaveLength(4);
+  expectClose(same?.[1] ?? null, [0.6, 0.4]);
+  expectClose(same?.[3] ?? null, [0.4, 0.5]);
+
+  // Turning the camera right moves the box left in the image
+  const turned = projectAnnotation(annotation, { ...VIEW, yaw: VIEW.yaw + 10 });
+  expect(turned?.[0][0]).toBeLessThan(0.4);
+  expect(projectAnnotation(annotation, { ...VIEW, yaw: VIEW.yaw + 180 })).toBeNull();
+});
@@ -0,0 +1,70 @@
+import { AnnotationView, PanoramaAnnotation } from '../types/annotation';
+
+type ImagePoint = [number, number]; // x, y in 0-1 of the image, y down
+type Direction = [number, number]; // yaw, pitch in degrees
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+
+// Pinhole model of a static panorama image: horizontal fov, image width = 1 unit
+const focalLength = (view: AnnotationView) => 0.5 / Math.tan(toRad(view.fov) / 2);
+
+// Direction seen at an image point of a view
+export const imageToDirection = ([x, y]: ImagePoint, view: AnnotationView): Direction => {
+  const aspect = view.width / view.height;
+  const right = x - 0.5;
+  const camUp = (0.5 - y) / aspect;
+  const camForward = focalLength(view);
+
+  // Tilt by pitch, then turn by yaw (clockwise from north)
+  const pitch = toRad(view.pitch);
+  const up = camUp * Math.cos(pitch) + camForward * Math.sin(pitch);
+  const forward = -camUp * Math.sin(pitch) + camForward * Math.cos(pitch);
+  const yaw = toRad(view.yaw);
+  const east = right * Math.cos(yaw) + forward * Math.sin(yaw);
+  const north = -right * Math.sin(yaw) + forward * Math.cos(yaw);
+
+  return [(toDeg(Math.atan2(east, north)) + 360) % 360, toDeg(Math.atan2(up, Math.hypot(east, north)))];
+};
+
+// Image point of a direction in a view, null when it is behind the camera
+export const directionToImage = ([yawDeg, pitchDeg]: Direction, view: AnnotationView): ImagePoint | null => {
+  const east = Math.cos(toRad(pitchDeg)) * Math.sin(toRad(yawDeg));
+  const north = Math.cos(toRad(pitchDeg)) * Math.cos(toRad(yawDeg));
+  const up = Math.sin(toRad(pitchDeg));
+
+  const yaw = toRad(view.yaw);
+  const right = east * Math.cos(yaw) - north * Math.sin(yaw);
+  const forward = east * Math.sin(yaw) + north * Math.cos(yaw);
+  const pitch = toRad(view.pitch);
+  const camUp = up * Math.cos(pitch) - forward * Math.sin(pitch);
+  const camForward = up * Math.sin(pitch) + forward * Math.cos(pitch);
+  if (camForward <= 1e-6) return null;
+
+  const scale = focalLength(view) / camForward;
+  return [0.5 + right * scale, 0.5 - camUp * scale * (view.width / view.height)];
+};
+
+// Outline of an annotation re-projected into another view (image coordinates 0-1), or
+// null when part of it is behind the camera. A box is traced by its four corners.
+export const projectAnnotation = (
+  annotation: Pick<PanoramaAnnotation, 'shape' | 'points' | 'view'>,
+  view: AnnotationView
+): ImagePoint[] | null => {
+  const outline: ImagePoint[] = annotation.shape === 'box'
+    ? [
+      annotation.points[0],
+      [annotation.points[1][0], annotation.points[0][1]],
+      annotation.points[1],
+      [annotation.points[0][0], annotation.points[1][1]]
+    ]
+    : annotation.points;
+
+  const projected: ImagePoint[] = [];
+  for (const point of outline) {
+    const image = directionToImage(imageToDirection(point, annotation.view), view);
+    if (!image) return null;
+    projected.push(image);
+  }
+  return projected;
+};
@@ -0,0 +1,98 @@
+import { AnalysisView } from '../shared/propertyAnalysisSchema';
+import { PANORAMA_DEFAULTS } from '../types/panoramaViewer';
+import { bearingInDegrees, distanceInMeters } from './analysisViews';
+import { mapyScheduler } from './requestScheduler';
+
+type LonLat = { lon: number; lat: number };
+
+// A panorama further than this from the target shows it too small to analyse
+export const MAX_TARGET_DISTANCE_M = 100;
+
+// Typical facade width and centre height above the camera, used to frame the building
+const FACADE_WIDTH_M = 16;
+const FACADE_CENTER_HEIGHT_M = 3;
+const FRAME_MARGIN = 1.25;
+const MAX_TARGET_FOV = 90;
+const MAX_TARGET_PITCH = 20;
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// Camera view from the panorama towards the target: yaw is the bearing, FOV is
+// chosen so a facade of typical width fills the frame at that distance
+export const aimViewAtTarget = (panorama: LonLat, target: LonLat): AnalysisView => {
+  const distance = Math.max(1, distanceInMeters(panorama, target));
+  const fov = toDegrees(2 * Math.atan((FACADE_WIDTH_M * FRAME_MARGIN) / 2 / distance));
+  const pitch = toDegrees(Math.atan(FACADE_CENTER_HEIGHT_M / distance));
+
+  return {
+    yaw: bearingInDegrees(panorama, target),
+    pitch: Math.round(Math.min(MAX_TARGET_PITCH, pitch)),
+    fov: Math.round(Math.min(MAX_TARGET_FOV, Math.max(PANORAMA_DEFAULTS.minFov, fov)))
+  };
+};
+
+// Nearest panorama to the target within maxDistance, or null
+export const findNearestPanorama = <T extends LonLat>(
+  target: LonLat,
+  panoramas: T[],
+  maxDistance = MAX_TARGET_DISTANCE_M
+): T | null => {
+  let nearest: T | null = null;
+  let nearestDistance = maxDistance;
+
+  for (let i = 0; i < panoramas.length; i++) {
+    const distance = distanceInMeters(target, panoramas[i]);
+    if (distance <= nearestDistance) {
+      nearest = panoramas[i];
+      nearestDistance = distance;
+    }
+  }
+
+  return nearest;
+};
+
+// "50.0875, 14.4212" (lat, lon as copied from mapy.cz) -> { lon, lat }
+export const parseTargetPoint = (text: string): LonLat | null => {
+  const match = /^\s*(-?\d+(?:\.\d+)?)\s*[,;\s]\s*(-?\d+(?:\.\d+)?)\s*$/.exec(text);
+  if (!match) return null;
+
+  const lat = parseFloat(match[1]);
+  const lon = parseFloat(match[2]);
+  if (Math.abs(lat) > 90 || Math.abs(lon) > 180) return null;
+  return { lon, lat };
+};
+
+// Forward geocoding of a target address via the Mapy.cz REST API
+export const geocodeAddress = async (address: string, apiKey: string): Promise<LonLat | null> => {
+  const params = new URLSearchParams({ query: address, lang: 'cs', limit: '1', apikey: apiKey });
+  const response = await mapyScheduler.fetch(`https://api.mapy.cz/v1/geocode?${params.toString()}`, {}, 'interactive');
+
+  if (!response.ok) {
+    throw new Error(`Geokódování selhalo (HTTP ${response.status})`);
+  }
+
+  const data = await response.json();
+  const position = data.items?.[0]?.position;
+  return position ? { lon: position.lon, lat: position.lat } : null;
+};
+
+// Resolve pasted target lines: coordinates as-is, anything else is geocoded as an address
+export const resolveTargets = async (lines: string[], apiKey: string) => {
+  const resolved: { input: string; target: LonLat | null }[] = [];
+
+  for (const input of lines) {
+    const point = parseTargetPoint(input);
+    if (point) {
+      resolved.push({ input, target: point });
+      continue;
+    }
+    try {
+      resolved.push({ input, target: await geocodeAddress(input, apiKey) });
+    } catch (error) {
+      console.warn(`⚠️ Geocoding "${input}" failed:`, error);
+      resolved.push({ input, target: null });
+    }
+  }
+
+  return resolved;
+};
@@ -0,0 +1,102 @@
+// Minimal PDF writer - every page is one full-bleed JPEG. Pages are laid out on a
+// canvas, which gives us Czech diacritics and wrapping without embedding fonts.
+
+export interface PdfImagePage {
+  jpeg: Uint8Array; // Baseline JPEG bytes
+  width: number; // Pixel size of the JPEG
+  height: number;
+}
+
+export interface PdfDocumentInfo {
+  title?: string;
+  author?: string;
+}
+
+// A4 portrait in points
+export const PDF_PAGE_SIZE = { width: 595.28, height: 841.89 };
+
+// PDF string literal with UTF-16BE text, so titles keep their diacritics
+const pdfTextString = (text: string) => {
+  let hex = 'FEFF';
+  for (let i = 0; i < text.length; i++) {
+    hex += text.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+  }
+  return `<${hex}>`;
+};
+
+const pdfDate = (date: Date) => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `(D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z)`;
+};
+
+export const createImagePdf = (pages: PdfImagePage[], info: PdfDocumentInfo = {}): Uint8Array => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const beginObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  // Object ids: 1 catalog, 2 page tree, 3 info, then page / content / image per page
+  const pageIds = pages.map((_, index) => 4 + index * 3);
+  const { width: pageWidth, height: pageHeight } = PDF_PAGE_SIZE;
+
+  // Binary comment marks the file as binary for transfer tools
+  write('%PDF-1.4\n%âã\n');
+
+  beginObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+  beginObject(2);
+  write(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+
+  beginObject(3);
+  write(`<< /Producer ${pdfTextString('PropertyScout AI')} /CreationDate ${pdfDate(new Date())}` +
+    `${info.title ? ` /Title ${pdfTextString(info.title)}` : ''}` +
+    `${info.author ? ` /Author ${pdfTextString(info.author)}` : ''} >>\nendobj\n`);
+
+  pages.forEach((page, index) => {
+    const pageId = pageIds[index];
+    const contentId = pageId + 1;
+    const imageId = pageId + 2;
+    const content = `q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q\n`;
+
+    beginObject(pageId);
+    write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}]` +
+      ` /Resources << /XObject << /Im0 ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>\nendobj\n`);
+
+    beginObject(contentId);
+    write(`<< /Length ${content.length} >>\nstream\n${content}endstream\nendobj\n`);
+
+    beginObject(imageId);
+    write(`<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height}` +
+      ` /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`);
+    write(page.jpeg);
+    write('\nendstream\nendobj\n');
+  });
+
+  const objectCount = 4 + pages.length * 3;
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const output = new Uint8Array(length);
+  let position = 0;
+  chunks.forEach(chunk => {
+    output.set(chunk, position);
+    position += chunk.length;
+  });
+  return output;
+};
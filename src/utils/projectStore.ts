@@ -0,0 +1,124 @@
+import { Project, ProjectData, ProjectSummary } from '../types/project';
+import { requestToPromise, transactionDone, openDatabase } from './idb';
+
+const DB_NAME = 'flipakt-projects';
+const DB_VERSION = 1;
+const PROJECT_STORE = 'projects';
+
+const generateProjectId = (): string =>
+  `proj_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+const toSummary = (project: Project): ProjectSummary => ({
+  id: project.id,
+  name: project.name,
+  createdAt: project.createdAt,
+  updatedAt: project.updatedAt,
+  panoramaCount: project.panoramas.length,
+  analyzedCount: project.analysisResults.filter(r => r.analysisStatus === 'completed').length
+});
+
+// Named projects persisted in IndexedDB. Results can carry large AI payloads,
+// which is why this does not live in localStorage.
+export class ProjectStore {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DB_NAME, DB_VERSION, db => {
+        if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+          db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+        }
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async requireDb(): Promise<IDBDatabase> {
+    const db = await this.open();
+    if (!db) {
+      throw new Error('Úložiště projektů (IndexedDB) není v tomto prohlížeči dostupné.');
+    }
+    return db;
+  }
+
+  private async put(project: Project): Promise<Project> {
+    const db = await this.requireDb();
+    const tx = db.transaction(PROJECT_STORE, 'readwrite');
+    tx.objectStore(PROJECT_STORE).put(project);
+    await transactionDone(tx);
+    return project;
+  }
+
+  // Newest first
+  async list(): Promise<ProjectSummary[]> {
+    const db = await this.open();
+    if (!db) return [];
+
+    const tx = db.transaction(PROJECT_STORE, 'readonly');
+    const projects = await requestToPromise(tx.objectStore(PROJECT_STORE).getAll() as IDBRequest<Project[]>);
+    return projects
+      .map(toSummary)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async get(id: string): Promise<Project | null> {
+    const db = await this.requireDb();
+    const tx = db.transaction(PROJECT_STORE, 'readonly');
+    const project = await requestToPromise(tx.objectStore(PROJECT_STORE).get(id) as IDBRequest<Project | undefined>);
+    return project || null;
+  }
+
+  async create(name: string, data: ProjectData): Promise<Project> {
+    const now = new Date().toISOString();
+    return this.put({
+      ...data,
+      id: generateProjectId(),
+      name: name.trim() || 'Nový projekt',
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+
+  // Overwrite the saved state of an existing project
+  async save(id: string, data: ProjectData): Promise<Project> {
+    const existing = await this.get(id);
+    if (!existing) {
+      throw new Error(`Projekt ${id} neexistuje.`);
+    }
+    return this.put({
+      ...existing,
+      ...data,
+      updatedAt: new Date().toISOString()
+    });
+  }
+
+  async rename(id: string, name: string): Promise<Project> {
+    const existing = await this.get(id);
+    if (!existing) {
+      throw new Error(`Projekt ${id} neexistuje.`);
+    }
+    return this.put({
+      ...existing,
+      name: name.trim() || existing.name,
+      updatedAt: new Date().toISOString()
+    });
+  }
+
+  async duplicate(id: string, name?: string): Promise<Project> {
+    const existing = await this.get(id);
+    if (!existing) {
+      throw new Error(`Projekt ${id} neexistuje.`);
+    }
+    const { id: _id, name: originalName, createdAt, updatedAt, ...data } = existing;
+    return this.create(name || `${originalName} (kopie)`, data);
+  }
+
+  async delete(id: string): Promise<void> {
+    const db = await this.requireDb();
+    const tx = db.transaction(PROJECT_STORE, 'readwrite');
+    tx.objectStore(PROJECT_STORE).delete(id);
+    await transactionDone(tx);
+  }
+}
+
+export const projectStore = new ProjectStore();
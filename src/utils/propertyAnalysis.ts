@@ -0,0 +1,36 @@
+import {
+  parsePropertyAnalysis,
+  validatePropertyAnalysis,
+  PropertyAnalysisResponse,
+  PropertyAnalysisSchemaError
+} from '../shared/propertyAnalysisSchema';
+import { AiAnalysis, AiAnalysisError } from '../types/analysis';
+
+// Read a /api/analyze-property response. Throws on HTTP errors and on replies
+// that do not match the shared schema (PropertyAnalysisSchemaError).
+export async function readAnalysisResponse(response: Response): Promise<PropertyAnalysisResponse> {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'AI analýza selhala.');
+  }
+
+  return parsePropertyAnalysis<PropertyAnalysisResponse>(await response.json());
+}
+
+// Turn a thrown error into the shape stored in AnalysisResult.aiAnalysis
+export function toAiAnalysisError(error: unknown): AiAnalysisError {
+  if (error instanceof PropertyAnalysisSchemaError) {
+    return { error: error.message, code: error.code, issues: error.issues };
+  }
+  return { error: error instanceof Error ? error.message : String(error) };
+}
+
+// Re-validate analysis data that did not come straight from the API (saved projects)
+export function normalizeAiAnalysis(value: unknown): AiAnalysis {
+  if (value && typeof value === 'object' && 'error' in value) {
+    return value as AiAnalysisError;
+  }
+
+  const result = validatePropertyAnalysis<PropertyAnalysisResponse>(value);
+  return result.ok ? result.value : toAiAnalysisError(new PropertyAnalysisSchemaError(result.issues));
+}
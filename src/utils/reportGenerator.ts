@@ -0,0 +1,410 @@
+import { CHECKLIST_KEYS, PropertyAnalysisResponse } from '../shared/propertyAnalysisSchema';
+import { AnalysisResult, isAiAnalysisError, resultDisplayName } from '../types/analysis';
+import { summarizeResults, rankResults, potentialScore } from './analysisSummary';
+import { CHECKLIST_LABELS } from './tabularExport';
+import { formatViewLabel } from './analysisViews';
+import { scoreColor } from './scoreColors';
+import { createImagePdf, PdfImagePage } from './pdf';
+import { AnnotationView, ANNOTATION_CATEGORIES, annotationCategoryLabel } from '../types/annotation';
+import { projectAnnotation } from './panoramaProjection';
+
+// Panorama image with the view it shows, so annotations can be drawn onto it
+export interface ReportThumbnail {
+  blob: Blob;
+  view: AnnotationView;
+}
+
+export interface AnalysisReportOptions {
+  title: string;
+  results: AnalysisResult[];
+  mapImage: HTMLCanvasElement | null; // Snapshot of the search area with markers
+  loadThumbnail: (result: AnalysisResult) => Promise<ReportThumbnail | null>; // Cached panorama image, never fetched
+  onProgress?: (done: number, total: number) => void;
+}
+
+// A4 at 150 DPI
+const PAGE = { width: 1240, height: 1754 };
+const MARGIN = 90;
+const CONTENT_WIDTH = PAGE.width - 2 * MARGIN;
+const FOOTER_Y = PAGE.height - 60;
+const JPEG_QUALITY = 0.85;
+
+const FONT = 'Helvetica, Arial, sans-serif';
+const COLORS = {
+  text: '#111827',
+  muted: '#6b7280',
+  border: '#d1d5db',
+  panel: '#f3f4f6',
+  accent: '#0891b2',
+  positive: '#16a34a',
+  negative: '#dc2626'
+};
+
+type Context = CanvasRenderingContext2D;
+
+const setFont = (ctx: Context, size: number, weight: 'normal' | 'bold' = 'normal', color = COLORS.text) => {
+  ctx.font = `${weight} ${size}px ${FONT}`;
+  ctx.fillStyle = color;
+  ctx.textBaseline = 'top';
+};
+
+const wrapText = (ctx: Context, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  });
+  if (line) lines.push(line);
+
+  return lines;
+};
+
+// Wrapped text that stops at maxY, ellipsizing the last visible line. Returns the next y.
+const drawParagraph = (ctx: Context, text: string, x: number, y: number, maxWidth: number, lineHeight: number, maxY: number) => {
+  const lines = wrapText(ctx, text, maxWidth);
+  for (let i = 0; i < lines.length; i++) {
+    if (y + lineHeight > maxY) break;
+    const isLastVisible = y + 2 * lineHeight > maxY && i < lines.length - 1;
+    ctx.fillText(isLastVisible ? `${lines[i]} …` : lines[i], x, y);
+    y += lineHeight;
+  }
+  return y;
+};
+
+const drawList = (ctx: Context, items: string[], x: number, y: number, maxWidth: number, lineHeight: number, maxY: number) => {
+  items.forEach(item => {
+    if (y + lineHeight > maxY) return;
+    ctx.fillText('•', x, y);
+    y = drawParagraph(ctx, item, x + 24, y, maxWidth - 24, lineHeight, maxY) + 6;
+  });
+  return y;
+};
+
+// Draw an image scaled to fit the box, centred, on a light panel
+// Returns where the image ended up inside the box
+const drawContained = (ctx: Context, image: CanvasImageSource & { width: number; height: number }, x: number, y: number, width: number, height: number) => {
+  ctx.fillStyle = COLORS.panel;
+  ctx.fillRect(x, y, width, height);
+  const scale = Math.min(width / image.width, height / image.height);
+  const drawWidth = image.width * scale;
+  const drawHeight = image.height * scale;
+  const drawX = x + (width - drawWidth) / 2;
+  const drawY = y + (height - drawHeight) / 2;
+  ctx.drawImage(image, drawX, drawY, drawWidth, drawHeight);
+  ctx.strokeStyle = COLORS.border;
+  ctx.lineWidth = 2;
+  ctx.strokeRect(x, y, width, height);
+  return { x: drawX, y: drawY, width: drawWidth, height: drawHeight };
+};
+
+// Numbered annotation outlines over the drawn thumbnail; ones outside its view are skipped
+const drawAnnotations = (
+  ctx: Context,
+  result: AnalysisResult,
+  view: AnnotationView,
+  rect: { x: number; y: number; width: number; height: number }
+) => {
+  (result.annotations || []).forEach((annotation, index) => {
+    const outline = projectAnnotation(annotation, view);
+    if (!outline) return;
+    const color = ANNOTATION_CATEGORIES.find(item => item.key === annotation.category)?.color || COLORS.accent;
+    const points = outline.map(([px, py]) => [rect.x + px * rect.width, rect.y + py * rect.height]);
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(rect.x, rect.y, rect.width, rect.height);
+    ctx.clip();
+    ctx.beginPath();
+    points.forEach(([px, py], i) => (i === 0 ? ctx.moveTo(px, py) : ctx.lineTo(px, py)));
+    if (annotation.shape === 'box') ctx.closePath();
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 4;
+    ctx.stroke();
+    setFont(ctx, 24, 'bold', color);
+    ctx.fillText(String(index + 1), points[0][0] + 6, points[0][1] + 4);
+    ctx.restore();
+  });
+};
+
+const drawPlaceholder = (ctx: Context, text: string, x: number, y: number, width: number, height: number) => {
+  ctx.fillStyle = COLORS.panel;
+  ctx.fillRect(x, y, width, height);
+  setFont(ctx, 26, 'normal', COLORS.muted);
+  ctx.textAlign = 'center';
+  ctx.fillText(text, x + width / 2, y + height / 2 - 13);
+  ctx.textAlign = 'left';
+};
+
+const drawSectionTitle = (ctx: Context, text: string, x: number, y: number) => {
+  setFont(ctx, 28, 'bold', COLORS.accent);
+  ctx.fillText(text, x, y);
+  return y + 44;
+};
+
+const createPage = (title: string, date: string, pageNumber: number, pageCount: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = PAGE.width;
+  canvas.height = PAGE.height;
+  const ctx = canvas.getContext('2d')!;
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, PAGE.width, PAGE.height);
+
+  setFont(ctx, 20, 'normal', COLORS.muted);
+  ctx.fillText(title, MARGIN, 40);
+  ctx.textAlign = 'right';
+  ctx.fillText(date, PAGE.width - MARGIN, 40);
+  ctx.fillText(`Strana ${pageNumber} / ${pageCount}`, PAGE.width - MARGIN, FOOTER_Y);
+  ctx.textAlign = 'left';
+  ctx.fillText('PropertyScout AI', MARGIN, FOOTER_Y);
+
+  return { canvas, ctx };
+};
+
+const loadImage = (blob: Blob) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const url = URL.createObjectURL(blob);
+  const image = new Image();
+  image.onload = () => {
+    URL.revokeObjectURL(url);
+    resolve(image);
+  };
+  image.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error('Obrázek panoramatu se nepodařilo načíst'));
+  };
+  image.src = url;
+});
+
+const canvasToPage = (canvas: HTMLCanvasElement) => new Promise<PdfImagePage>((resolve, reject) => {
+  canvas.toBlob(blob => {
+    if (!blob) {
+      reject(new Error('Stránku reportu se nepodařilo vykreslit'));
+      return;
+    }
+    blob.arrayBuffer().then(
+      buffer => resolve({ jpeg: new Uint8Array(buffer), width: canvas.width, height: canvas.height }),
+      reject
+    );
+  }, 'image/jpeg', JPEG_QUALITY);
+});
+
+// --- Pages ---
+
+const drawCoverPage = (ctx: Context, options: AnalysisReportOptions, ranked: AnalysisResult[], date: string) => {
+  let y = 110;
+  setFont(ctx, 56, 'bold');
+  ctx.fillText('Analýza nemovitostí', MARGIN, y);
+  y += 76;
+  setFont(ctx, 28, 'normal', COLORS.muted);
+  ctx.fillText(`${options.title} · ${date}`, MARGIN, y);
+  y += 60;
+
+  const mapHeight = 640;
+  if (options.mapImage) {
+    drawContained(ctx, options.mapImage, MARGIN, y, CONTENT_WIDTH, mapHeight);
+  } else {
+    drawPlaceholder(ctx, 'Mapa není k dispozici', MARGIN, y, CONTENT_WIDTH, mapHeight);
+  }
+  y += mapHeight + 40;
+
+  // Same four numbers as the Přehled block in the panel
+  y = drawSectionTitle(ctx, 'Přehled', MARGIN, y);
+  const summary = summarizeResults(options.results);
+  const stats = [
+    { label: 'Celkem nemovitostí', value: String(summary.total), color: COLORS.text },
+    { label: 'Vhodné k akvizici', value: String(summary.acquisitionCandidates), color: COLORS.positive },
+    { label: 'Prům. spolehlivost', value: `${(summary.avgConfidence * 100).toFixed(1)}%`, color: COLORS.text },
+    { label: 'Celková hodnota', value: `${(summary.totalValue / 1000).toFixed(0)}k CZK`, color: COLORS.text }
+  ];
+  const statWidth = (CONTENT_WIDTH - 3 * 20) / 4;
+  stats.forEach((stat, index) => {
+    const x = MARGIN + index * (statWidth + 20);
+    ctx.fillStyle = COLORS.panel;
+    ctx.fillRect(x, y, statWidth, 120);
+    setFont(ctx, 22, 'normal', COLORS.muted);
+    ctx.fillText(stat.label, x + 20, y + 20);
+    setFont(ctx, 40, 'bold', stat.color);
+    ctx.fillText(stat.value, x + 20, y + 58);
+  });
+  y += 160;
+
+  // Short ranking table; the detail pages follow in the same order
+  y = drawSectionTitle(ctx, 'Pořadí nemovitostí', MARGIN, y);
+  const rowHeight = 38;
+  const maxRows = Math.floor((FOOTER_Y - 40 - y) / rowHeight) - 1;
+  ranked.slice(0, maxRows).forEach((result, index) => {
+    const score = potentialScore(result);
+    setFont(ctx, 24, 'normal', COLORS.muted);
+    ctx.fillText(`${index + 1}.`, MARGIN, y);
+    setFont(ctx, 24);
+    drawParagraph(ctx, resultDisplayName(result), MARGIN + 60, y, CONTENT_WIDTH - 260, rowHeight, y + rowHeight);
+    ctx.textAlign = 'right';
+    if (score !== null) {
+      setFont(ctx, 24, 'bold', scoreColor(score));
+      ctx.fillText(`${score} / 100`, PAGE.width - MARGIN, y);
+    } else {
+      setFont(ctx, 24, 'normal', COLORS.muted);
+      ctx.fillText(result.analysisStatus === 'failed' ? 'chyba' : 'neanalyzováno', PAGE.width - MARGIN, y);
+    }
+    ctx.textAlign = 'left';
+    y += rowHeight;
+  });
+  if (ranked.length > maxRows) {
+    setFont(ctx, 24, 'normal', COLORS.muted);
+    ctx.fillText(`… a dalších ${ranked.length - maxRows}`, MARGIN, y);
+  }
+};
+
+const drawAnalysis = (ctx: Context, analysis: PropertyAnalysisResponse, y: number) => {
+  const columnWidth = (CONTENT_WIDTH - 40) / 2;
+  const rightX = MARGIN + columnWidth + 40;
+  const top = y;
+
+  // Checklist as 0-10 bars
+  y = drawSectionTitle(ctx, 'Checklist zanedbání (0-10)', MARGIN, y);
+  CHECKLIST_KEYS.forEach(key => {
+    const value = analysis.checklist[key];
+    setFont(ctx, 22);
+    ctx.fillText(CHECKLIST_LABELS[key], MARGIN, y);
+    setFont(ctx, 22, 'bold');
+    ctx.textAlign = 'right';
+    ctx.fillText(String(value), MARGIN + columnWidth, y);
+    ctx.textAlign = 'left';
+    ctx.fillStyle = COLORS.panel;
+    ctx.fillRect(MARGIN, y + 30, columnWidth, 10);
+    ctx.fillStyle = scoreColor(value * 10);
+    ctx.fillRect(MARGIN, y + 30, (columnWidth * value) / 10, 10);
+    if (analysis.checklist_pohled) {
+      setFont(ctx, 18, 'normal', COLORS.muted);
+      ctx.fillText(formatViewLabel(analysis.checklist_pohled[key], analysis.views), MARGIN, y + 44);
+    }
+    y += analysis.checklist_pohled ? 76 : 56;
+  });
+  const checklistBottom = y;
+
+  let rightY = drawSectionTitle(ctx, 'Stáří a styl', rightX, top);
+  setFont(ctx, 22);
+  rightY = drawParagraph(ctx, analysis.stari_a_styl, rightX, rightY, columnWidth, 32, checklistBottom);
+
+  y = Math.max(checklistBottom, rightY) + 20;
+  const listsTop = y;
+  const listsBottom = y + 300;
+
+  setFont(ctx, 28, 'bold', COLORS.positive);
+  ctx.fillText('Pozitiva', MARGIN, y);
+  setFont(ctx, 22);
+  const positiveBottom = drawList(ctx, analysis.souhrn.pozitiva, MARGIN, y + 44, columnWidth, 30, listsBottom);
+
+  setFont(ctx, 28, 'bold', COLORS.negative);
+  ctx.fillText('Negativa', rightX, listsTop);
+  setFont(ctx, 22);
+  const negativeBottom = drawList(ctx, analysis.souhrn.negativa, rightX, listsTop + 44, columnWidth, 30, listsBottom);
+
+  y = drawSectionTitle(ctx, 'Doporučení', MARGIN, Math.max(positiveBottom, negativeBottom) + 20);
+  setFont(ctx, 22);
+  drawParagraph(ctx, analysis.souhrn.doporuceni, MARGIN, y, CONTENT_WIDTH, 32, FOOTER_Y - 30);
+};
+
+const drawPropertyPage = (
+  ctx: Context,
+  result: AnalysisResult,
+  rank: number,
+  thumbnail: { image: HTMLImageElement; view: AnnotationView } | null
+) => {
+  let y = 100;
+  const score = potentialScore(result);
+
+  setFont(ctx, 40, 'bold');
+  drawParagraph(ctx, `${rank}. ${resultDisplayName(result)}`, MARGIN, y, CONTENT_WIDTH - 260, 50, y + 50);
+  if (score !== null) {
+    ctx.fillStyle = scoreColor(score);
+    ctx.fillRect(PAGE.width - MARGIN - 220, y - 10, 220, 70);
+    setFont(ctx, 36, 'bold', '#ffffff');
+    ctx.textAlign = 'center';
+    ctx.fillText(`${score} / 100`, PAGE.width - MARGIN - 110, y + 6);
+    ctx.textAlign = 'left';
+  }
+  y += 60;
+
+  setFont(ctx, 22, 'normal', COLORS.muted);
+  const coordinates = `${result.coordinates[1].toFixed(5)}, ${result.coordinates[0].toFixed(5)}`;
+  const target = result.target ? ` · cíl ${result.target[1].toFixed(5)}, ${result.target[0].toFixed(5)}` : '';
+  const date = result.panoramaDate ? ` · panorama ${result.panoramaDate}` : '';
+  ctx.fillText(`${coordinates}${target}${date}`, MARGIN, y);
+  y += 50;
+
+  // Annotation list under the image takes its room from the image
+  const annotations = (result.annotations || []).slice(0, 6);
+  const thumbnailHeight = 620 - annotations.length * 30;
+  if (thumbnail) {
+    const rect = drawContained(ctx, thumbnail.image, MARGIN, y, CONTENT_WIDTH, thumbnailHeight);
+    drawAnnotations(ctx, result, thumbnail.view, rect);
+  } else {
+    drawPlaceholder(ctx, 'Náhled panoramatu není v mezipaměti', MARGIN, y, CONTENT_WIDTH, thumbnailHeight);
+  }
+  y += thumbnailHeight + 10;
+  setFont(ctx, 20, 'normal', COLORS.muted);
+  annotations.forEach((annotation, index) => {
+    const text = `${index + 1}. ${annotationCategoryLabel(annotation.category)}${annotation.comment ? ` – ${annotation.comment}` : ''}`;
+    drawParagraph(ctx, text, MARGIN, y, CONTENT_WIDTH, 30, y + 30);
+    y += 30;
+  });
+  y += 30;
+
+  const analysis = result.aiAnalysis;
+  if (analysis && !isAiAnalysisError(analysis)) {
+    drawAnalysis(ctx, analysis, y);
+  } else if (analysis) {
+    setFont(ctx, 28, 'bold', COLORS.negative);
+    ctx.fillText('Chyba analýzy', MARGIN, y);
+    setFont(ctx, 22);
+    y = drawParagraph(ctx, analysis.error, MARGIN, y + 44, CONTENT_WIDTH, 32, FOOTER_Y - 30);
+    drawList(ctx, (analysis.issues || []).map(issue => `${issue.path}: ${issue.message}`), MARGIN, y + 10, CONTENT_WIDTH, 30, FOOTER_Y - 30);
+  } else {
+    setFont(ctx, 24, 'normal', COLORS.muted);
+    ctx.fillText('Nemovitost zatím nebyla analyzována AI.', MARGIN, y);
+    y = drawSectionTitle(ctx, 'Zjištěné problémy', MARGIN, y + 50);
+    setFont(ctx, 22);
+    y = drawList(ctx, result.issues, MARGIN, y, CONTENT_WIDTH, 30, FOOTER_Y - 200);
+    y = drawSectionTitle(ctx, 'Doporučení', MARGIN, y + 20);
+    setFont(ctx, 22);
+    drawParagraph(ctx, result.recommendation, MARGIN, y, CONTENT_WIDTH, 32, FOOTER_Y - 30);
+  }
+};
+
+// Render the report page by page (one canvas alive at a time) and pack it into a PDF
+export const generateAnalysisReport = async (options: AnalysisReportOptions): Promise<Uint8Array> => {
+  const ranked = rankResults(options.results);
+  const pageCount = ranked.length + 1;
+  const date = new Date().toLocaleDateString('cs-CZ');
+  const pages: PdfImagePage[] = [];
+
+  const cover = createPage(options.title, date, 1, pageCount);
+  drawCoverPage(cover.ctx, options, ranked, date);
+  pages.push(await canvasToPage(cover.canvas));
+  options.onProgress?.(1, pageCount);
+
+  for (let i = 0; i < ranked.length; i++) {
+    let thumbnail: { image: HTMLImageElement; view: AnnotationView } | null = null;
+    try {
+      const loaded = await options.loadThumbnail(ranked[i]);
+      thumbnail = loaded ? { image: await loadImage(loaded.blob), view: loaded.view } : null;
+    } catch (error) {
+      console.warn(`⚠️ Report thumbnail for ${ranked[i].name} unavailable:`, error);
+    }
+
+    const page = createPage(options.title, date, i + 2, pageCount);
+    drawPropertyPage(page.ctx, ranked[i], i + 1, thumbnail);
+    pages.push(await canvasToPage(page.canvas));
+    options.onProgress?.(i + 2, pageCount);
+  }
+
+  return createImagePdf(pages, { title: `Analýza nemovitostí – ${options.title}`, author: 'PropertyScout AI' });
+};
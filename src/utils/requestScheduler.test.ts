@@ -0,0 +1,151 @@
+import { RateLimitedError, RequestScheduler } from './requestScheduler';
+
+// A task that runs until the test settles it
+const deferredTask = <T>(started: string[], name: string) => {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const task = () => {
+    started.push(name);
+    return new Promise<T>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+  };
+  return { task, resolve: (value: T) => resolve(value), reject: (error: unknown) => reject(error) };
+};
+
+const flushPromises = async () => {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+};
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+test('runs no more than maxInFlight tasks at once', async () => {
+  const scheduler = new RequestScheduler({ maxInFlight: 2 });
+  const started: string[] = [];
+  const tasks = ['a', 'b', 'c'].map(name => deferredTask<string>(started, name));
+  const results = tasks.map(({ task }) => scheduler.schedule(task));
+
+  expect(started).toEqual(['a', 'b']);
+  expect(scheduler.getStats().inFlight).toBe(2);
+
+  tasks[0].resolve('A');
+  await flushPromises();
+  expect(started).toEqual(['a', 'b', 'c']);
+
+  tasks[1].resolve('B');
+  tasks[2].resolve('C');
+  await expect(Promise.all(results)).resolves.toEqual(['A', 'B', 'C']);
+  expect(scheduler.getStats().completed).toBe(3);
+});
+
+test('serves the interactive lane before normal and background', async () => {
+  const scheduler = new RequestScheduler({ maxInFlight: 1 });
+  const started: string[] = [];
+  const blocker = deferredTask<void>(started, 'blocker');
+  scheduler.schedule(blocker.task);
+  scheduler.schedule(async () => { started.push('background'); }, 'background');
+  scheduler.schedule(async () => { started.push('normal'); }, 'normal');
+  scheduler.schedule(async () => { started.push('interactive'); }, 'interactive');
+
+  expect(scheduler.getStats().queued).toEqual({ interactive: 1, normal: 1, background: 1 });
+  blocker.resolve();
+  await flushPromises();
+  expect(started).toEqual(['blocker', 'interactive', 'normal', 'background']);
+});
+
+test('refills tokens at ratePerSecond once the burst is spent', async () => {
+  const scheduler = new RequestScheduler({ burst: 1, ratePerSecond: 2 });
+  const started: string[] = [];
+  scheduler.schedule(async () => { started.push('first'); });
+  scheduler.schedule(async () => { started.push('second'); });
+  expect(started).toEqual(['first']);
+
+  jest.advanceTimersByTime(400);
+  expect(started).toEqual(['first']);
+  jest.advanceTimersByTime(100);
+  expect(started).toEqual(['first', 'second']);
+});
+
+test('drops a queued request when its signal aborts', async () => {
+  const scheduler = new RequestScheduler({ maxInFlight: 1 });
+  const started: string[] = [];
+  const blocker = deferredTask<void>(started, 'blocker');
+  scheduler.schedule(blocker.task);
+
+  const controller = new AbortController();
+  const queued = scheduler.schedule(async () => { started.push('queued'); }, 'normal', controller.signal);
+  controller.abort();
+  await expect(queued).rejects.toMatchObject({ name: 'AbortError' });
+
+  blocker.resolve();
+  await flushPromises();
+  expect(started).toEqual(['blocker']);
+  expect(scheduler.getStats().queued.normal).toBe(0);
+});
+
+test('rejects at once when the signal is already aborted', async () => {
+  const scheduler = new RequestScheduler();
+  const controller = new AbortController();
+  controller.abort();
+  const task = jest.fn(async () => 'never');
+  await expect(scheduler.schedule(task, 'normal', controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+  expect(task).not.toHaveBeenCalled();
+});
+
+test('pauses after a 429 and retries the request', async () => {
+  const scheduler = new RequestScheduler({ backoffBaseMs: 1000 });
+  let calls = 0;
+  const result = scheduler.schedule(async () => {
+    calls++;
+    if (calls === 1) throw new RateLimitedError(500);
+    return 'ok';
+  });
+
+  await flushPromises();
+  expect(calls).toBe(1);
+  expect(scheduler.getStats().rateLimited).toBe(1);
+  expect(scheduler.getStats().pausedUntil).not.toBeNull();
+
+  // Retry-After wins over the exponential backoff; jitter stays within 20 %
+  jest.advanceTimersByTime(399);
+  expect(calls).toBe(1);
+  jest.advanceTimersByTime(201);
+  await expect(result).resolves.toBe('ok');
+  expect(calls).toBe(2);
+});
+
+test('gives up after maxRetries rate limited attempts', async () => {
+  const scheduler = new RequestScheduler({ maxRetries: 2, backoffBaseMs: 100, backoffMaxMs: 100 });
+  const task = jest.fn(async () => {
+    throw new RateLimitedError();
+  });
+  const result = scheduler.schedule(task);
+  const settled = result.catch(error => error);
+
+  for (let i = 0; i < 3; i++) {
+    await flushPromises();
+    jest.advanceTimersByTime(200);
+  }
+
+  expect(await settled).toBeInstanceOf(RateLimitedError);
+  expect(task).toHaveBeenCalledTimes(3);
+});
+
+test('passes other task errors straight to the caller', async () => {
+  const scheduler = new RequestScheduler();
+  const task = jest.fn(async () => {
+    throw new Error('boom');
+  });
+  await expect(scheduler.schedule(task)).rejects.toThrow('boom');
+  expect(task).toHaveBeenCalledTimes(1);
+  expect(scheduler.getStats().rateLimited).toBe(0);
+});
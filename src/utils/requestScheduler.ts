@@ -0,0 +1,187 @@
+import {
+  REQUEST_PRIORITIES,
+  REQUEST_SCHEDULER_DEFAULTS,
+  RequestPriority,
+  RequestSchedulerOptions,
+  RequestSchedulerStats
+} from '../types/requestScheduler';
+
+// Thrown by a scheduled task when the server answered 429 - the scheduler backs off and retries
+export class RateLimitedError extends Error {
+  constructor(public retryAfterMs: number | null = null) {
+    super('Rate limited (HTTP 429)');
+    this.name = 'RateLimitedError';
+  }
+}
+
+// Queued with the type its caller awaits; the lanes hold them as QueuedRequest<unknown>
+interface QueuedRequest<T = unknown> {
+  task: () => Promise<T>;
+  priority: RequestPriority;
+  resolve(value: T): void;
+  reject(error: unknown): void;
+  signal?: AbortSignal;
+  attempts: number;
+}
+
+const createAbortError = () => {
+  const error = new Error('Aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+// Retry-After is either seconds or an HTTP date
+const parseRetryAfter = (header: string | null): number | null => {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+// Token bucket with a max-in-flight limit and priority lanes. A 429 pauses the whole
+// scheduler (the quota is per API key, not per request) and puts the request back at
+// the head of its lane.
+export class RequestScheduler {
+  private options: RequestSchedulerOptions;
+  private lanes: Record<RequestPriority, QueuedRequest[]> = { interactive: [], normal: [], background: [] };
+  private tokens: number;
+  private lastRefill = Date.now();
+  private inFlight = 0;
+  private completed = 0;
+  private rateLimited = 0;
+  private consecutive429 = 0;
+  private pausedUntil = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: Partial<RequestSchedulerOptions> = {}) {
+    this.options = { ...REQUEST_SCHEDULER_DEFAULTS, ...options };
+    this.tokens = this.options.burst;
+  }
+
+  schedule<T>(task: () => Promise<T>, priority: RequestPriority = 'normal', signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) return Promise.reject(createAbortError());
+
+    return new Promise<T>((resolve, reject) => {
+      const request: QueuedRequest<T> = { task, priority, resolve, reject, signal, attempts: 0 };
+      this.lanes[priority].push(request);
+
+      // Requests still waiting in the queue are dropped on abort; running ones abort themselves
+      signal?.addEventListener('abort', () => {
+        const lane = this.lanes[priority];
+        const index = lane.indexOf(request);
+        if (index !== -1) {
+          lane.splice(index, 1);
+          reject(createAbortError());
+        }
+      }, { once: true });
+
+      this.pump();
+    });
+  }
+
+  // fetch() through the scheduler; a 429 response is retried with backoff
+  fetch(url: string, init: RequestInit = {}, priority: RequestPriority = 'normal'): Promise<Response> {
+    return this.schedule(async () => {
+      const response = await fetch(url, init);
+      if (response.status === 429) {
+        throw new RateLimitedError(parseRetryAfter(response.headers.get('Retry-After')));
+      }
+      return response;
+    }, priority, init.signal || undefined);
+  }
+
+  getStats(): RequestSchedulerStats {
+    return {
+      queued: {
+        interactive: this.lanes.interactive.length,
+        normal: this.lanes.normal.length,
+        background: this.lanes.background.length
+      },
+      inFlight: this.inFlight,
+      completed: this.completed,
+      rateLimited: this.rateLimited,
+      pausedUntil: this.pausedUntil > Date.now() ? this.pausedUntil : null
+    };
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(this.options.burst, this.tokens + ((now - this.lastRefill) / 1000) * this.options.ratePerSecond);
+    this.lastRefill = now;
+  }
+
+  private nextRequest(): QueuedRequest | undefined {
+    for (const priority of REQUEST_PRIORITIES) {
+      if (this.lanes[priority].length > 0) return this.lanes[priority].shift();
+    }
+    return undefined;
+  }
+
+  private hasQueued() {
+    return REQUEST_PRIORITIES.some(priority => this.lanes[priority].length > 0);
+  }
+
+  private wakeUpIn(ms: number) {
+    if (this.timer) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.pump();
+    }, Math.max(0, Math.ceil(ms)));
+  }
+
+  private pump() {
+    while (this.hasQueued() && this.inFlight < this.options.maxInFlight) {
+      const pause = this.pausedUntil - Date.now();
+      if (pause > 0) {
+        this.wakeUpIn(pause);
+        return;
+      }
+
+      this.refill();
+      if (this.tokens < 1) {
+        this.wakeUpIn(((1 - this.tokens) / this.options.ratePerSecond) * 1000);
+        return;
+      }
+
+      const request = this.nextRequest();
+      if (!request) return;
+      this.tokens -= 1;
+      this.run(request);
+    }
+  }
+
+  private async run(request: QueuedRequest) {
+    this.inFlight++;
+    request.attempts++;
+    try {
+      const result = await request.task();
+      this.consecutive429 = 0;
+      this.completed++;
+      request.resolve(result);
+    } catch (error) {
+      if (error instanceof RateLimitedError && request.attempts <= this.options.maxRetries && !request.signal?.aborted) {
+        this.backOff(error.retryAfterMs);
+        this.lanes[request.priority].unshift(request);
+      } else {
+        request.reject(error);
+      }
+    } finally {
+      this.inFlight--;
+      this.pump();
+    }
+  }
+
+  private backOff(retryAfterMs: number | null) {
+    this.rateLimited++;
+    this.consecutive429++;
+    const exponential = this.options.backoffBaseMs * Math.pow(2, this.consecutive429 - 1);
+    const delay = Math.min(this.options.backoffMaxMs, retryAfterMs ?? exponential);
+    // Jitter so that parallel tabs do not retry in lockstep
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay * (0.8 + Math.random() * 0.4));
+    console.warn(`⏳ Mapy.cz rate limit hit, pausing requests for ${(delay / 1000).toFixed(1)} s`);
+  }
+}
+
+// Every Mapy.cz request of the app shares one quota, so it shares one scheduler
+export const mapyScheduler = new RequestScheduler();
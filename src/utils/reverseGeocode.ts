@@ -0,0 +1,96 @@
+import { PropertyAddress } from '../types/address';
+import { requestToPromise, transactionDone, openDatabase } from './idb';
+import { mapyScheduler } from './requestScheduler';
+
+const ENDPOINT = '/api/reverse-geocode';
+const MAX_POINTS_PER_REQUEST = 50; // Server limit
+const DB_NAME = 'flipakt-addresses';
+const DB_VERSION = 1;
+const STORE = 'addresses';
+
+type LonLat = [number, number];
+
+// null = looked up, no address there
+type CachedAddress = PropertyAddress | null;
+
+// ~1 m rounding, the same key the server caches under
+export const addressKey = ([lon, lat]: LonLat) => `${lat.toFixed(5)}_${lon.toFixed(5)}`;
+
+const memory: Record<string, CachedAddress> = {};
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openAddressDb = () => {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, db => {
+      if (!db.objectStoreNames.contains(STORE)) db.createObjectStore(STORE);
+    });
+  }
+  return dbPromise;
+};
+
+// Fill the memory cache from IndexedDB for the given keys
+const loadFromDisk = async (keys: string[]) => {
+  const db = await openAddressDb();
+  if (!db || keys.length === 0) return;
+  try {
+    const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+    const values = await Promise.all(keys.map(key => requestToPromise(store.get(key) as IDBRequest<CachedAddress | undefined>)));
+    values.forEach((value, i) => {
+      if (value !== undefined) memory[keys[i]] = value;
+    });
+  } catch (error) {
+    console.warn('⚠️ Address cache read failed:', error);
+  }
+};
+
+const saveToDisk = async (entries: [string, CachedAddress][]) => {
+  const db = await openAddressDb();
+  if (!db || entries.length === 0) return;
+  try {
+    const tx = db.transaction(STORE, 'readwrite');
+    entries.forEach(([key, address]) => tx.objectStore(STORE).put(address, key));
+    await transactionDone(tx);
+  } catch (error) {
+    console.warn('⚠️ Address cache write failed:', error);
+  }
+};
+
+const fetchAddresses = async (points: LonLat[]): Promise<CachedAddress[]> => {
+  const response = await mapyScheduler.fetch(ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ points: points.map(([lon, lat]) => ({ lon, lat })) })
+  }, 'background');
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `Zjištění adresy selhalo (HTTP ${response.status}).`);
+  }
+  const data = await response.json();
+  return data.addresses;
+};
+
+// Addresses for [lon, lat] points in input order, cached per coordinate in memory and
+// IndexedDB. Only uncached coordinates go to the server, in batches.
+export const reverseGeocode = async (points: LonLat[]): Promise<CachedAddress[]> => {
+  const keys = points.map(addressKey);
+  await loadFromDisk(keys.filter(key => !(key in memory)));
+
+  const missing: Record<string, LonLat> = {};
+  keys.forEach((key, i) => {
+    if (!(key in memory)) missing[key] = points[i];
+  });
+  const missingKeys = Object.keys(missing);
+
+  for (let start = 0; start < missingKeys.length; start += MAX_POINTS_PER_REQUEST) {
+    const batch = missingKeys.slice(start, start + MAX_POINTS_PER_REQUEST);
+    const addresses = await fetchAddresses(batch.map(key => missing[key]));
+    const entries = batch.map((key, i): [string, CachedAddress] => [key, addresses[i] ?? null]);
+    entries.forEach(([key, address]) => { memory[key] = address; });
+    await saveToDisk(entries);
+  }
+
+  if (missingKeys.length > 0) {
+    console.log(`🏠 Reverse geocoded ${missingKeys.length} coordinates (${points.length - missingKeys.length} cached)`);
+  }
+  return keys.map(key => memory[key] ?? null);
+};
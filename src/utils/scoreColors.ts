@@ -0,0 +1,38 @@
+import { AnalysisStatus } from '../types/analysis';
+
+// Colour ramp for potencial_prodeje_skore (0-100): red (low potential) -> green (high).
+// Shared by map markers, the legend and the PDF report.
+export const SCORE_COLOR_STOPS: { score: number; color: [number, number, number] }[] = [
+  { score: 0, color: [239, 60, 60] },
+  { score: 35, color: [249, 143, 31] },
+  { score: 60, color: [234, 179, 8] },
+  { score: 80, color: [74, 216, 94] },
+  { score: 100, color: [34, 197, 94] }
+];
+
+// Scores from here up count as top candidates and get bigger markers
+export const TOP_CANDIDATE_SCORE = 80;
+
+// Markers without a score yet
+export const STATUS_MARKER_COLORS: Record<Exclude<AnalysisStatus, 'completed'>, string> = {
+  pending: '#9ca3af',
+  analyzing: '#3b82f6',
+  failed: '#1f2937'
+};
+
+const toHex = (channel: number) => Math.round(channel).toString(16).padStart(2, '0');
+
+export const scoreColor = (score: number): string => {
+  const clamped = Math.max(0, Math.min(100, score));
+  const upper = SCORE_COLOR_STOPS.findIndex(stop => stop.score >= clamped);
+  const to = SCORE_COLOR_STOPS[Math.max(upper, 0)];
+  const from = SCORE_COLOR_STOPS[Math.max(upper - 1, 0)];
+  const t = to.score === from.score ? 0 : (clamped - from.score) / (to.score - from.score);
+  const [r, g, b] = from.color.map((channel, i) => channel + (to.color[i] - channel) * t);
+  return `#${toHex(r)}${toHex(g)}${toHex(b)}`;
+};
+
+// CSS gradient of the same ramp for the map legend
+export const SCORE_GRADIENT_CSS = `linear-gradient(to right, ${SCORE_COLOR_STOPS
+  .map(stop => `rgb(${stop.color.join(', ')}) ${stop.score}%`)
+  .join(', ')})`;
@@ -0,0 +1,87 @@
+import { SearchArea } from '../types/searchArea';
+import { pointInRing } from './buildings';
+
+type LonLat = [number, number];
+type Bounds = [number, number, number, number]; // [west, south, east, north]
+
+const METERS_PER_DEG_LAT = 111_000;
+
+// Inside the outer ring and outside every hole
+export const pointInArea = (point: LonLat, area: SearchArea): boolean =>
+  pointInRing(point, area.rings[0]) && !area.rings.slice(1).some(hole => pointInRing(point, hole));
+
+// Union of the search areas minus the exclusion zones
+export const pointInSearchAreas = (point: LonLat, areas: SearchArea[]): boolean =>
+  areas.some(area => area.role === 'include' && pointInArea(point, area)) &&
+  !areas.some(area => area.role === 'exclude' && pointInArea(point, area));
+
+const ringBounds = (ring: LonLat[]): Bounds => ring.reduce<Bounds>(
+  ([w, s, e, n], [lon, lat]) => [Math.min(w, lon), Math.min(s, lat), Math.max(e, lon), Math.max(n, lat)],
+  [Infinity, Infinity, -Infinity, -Infinity]
+);
+
+// Bounds of everything that is searched, or null without a search area
+export const searchAreasBounds = (areas: SearchArea[]): Bounds | null => {
+  const includes = areas.filter(area => area.role === 'include');
+  if (includes.length === 0) return null;
+
+  return includes.map(area => ringBounds(area.rings[0])).reduce(([w, s, e, n], [w2, s2, e2, n2]) => [
+    Math.min(w, w2), Math.min(s, s2), Math.max(e, e2), Math.max(n, n2)
+  ]);
+};
+
+// The search area a newly drawn hole falls into (all its vertices inside the outer ring)
+export const findAreaForHole = (hole: LonLat[], areas: SearchArea[]): number =>
+  areas.findIndex(area => area.role === 'include' && hole.every(point => pointInRing(point, area.rings[0])));
+
+// Regular grid of test points over the searched union. Every area walks only its own
+// bounds, but on one shared lattice, so overlapping areas do not produce duplicates.
+// `visit` returning false stops the walk.
+export const forEachSearchGridPoint = (
+  areas: SearchArea[],
+  spacingMeters: number,
+  visit: (point: { lon: number; lat: number }) => boolean | void
+): void => {
+  const bounds = searchAreasBounds(areas);
+  if (!bounds) return;
+
+  const [west, south, , north] = bounds;
+  const centerLat = (south + north) / 2;
+  const stepLat = spacingMeters / METERS_PER_DEG_LAT;
+  const stepLon = spacingMeters / (METERS_PER_DEG_LAT * Math.cos((centerLat * Math.PI) / 180));
+  const visited = new Set<string>();
+
+  for (const area of areas) {
+    if (area.role !== 'include') continue;
+    const [w, s, e, n] = ringBounds(area.rings[0]);
+
+    for (let j = Math.floor((s - south) / stepLat); south + j * stepLat <= n; j++) {
+      for (let i = Math.floor((w - west) / stepLon); west + i * stepLon <= e; i++) {
+        const key = `${i}_${j}`;
+        if (visited.has(key)) continue;
+        visited.add(key);
+
+        const point: LonLat = [west + (i + 0.5) * stepLon, south + (j + 0.5) * stepLat];
+        if (!pointInSearchAreas(point, areas)) continue;
+        if (visit({ lon: point[0], lat: point[1] }) === false) return;
+      }
+    }
+  }
+};
+
+export const generateSearchGrid = (
+  areas: SearchArea[],
+  spacingMeters: number,
+  maxPoints: number
+): { lon: number; lat: number }[] => {
+  const grid: { lon: number; lat: number }[] = [];
+
+  forEachSearchGridPoint(areas, spacingMeters, point => {
+    grid.push(point);
+    if (grid.length < maxPoints) return true;
+    console.warn(`⚠️ Grid capped at ${maxPoints} points to protect performance`);
+    return false;
+  });
+
+  return grid;
+};
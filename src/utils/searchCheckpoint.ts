@@ -0,0 +1,34 @@
+import { SearchArea } from '../types/searchArea';
+import { DiscoveryCheckpoint } from './panoramaDiscovery';
+
+// The last interrupted area search, so a stopped or reloaded scan can continue
+export interface SearchCheckpoint {
+  areas: SearchArea[];
+  discovery: DiscoveryCheckpoint;
+  updatedAt: string;
+}
+
+const STORAGE_KEY = 'flipakt-search-checkpoint';
+
+export const loadSearchCheckpoint = (): SearchCheckpoint | null => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (saved && Array.isArray(saved.areas) && Array.isArray(saved.discovery?.pending)) {
+      return saved;
+    }
+  } catch {
+    // Corrupted checkpoint - behave as if there was none
+  }
+  return null;
+};
+
+export const saveSearchCheckpoint = (checkpoint: SearchCheckpoint) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(checkpoint));
+  } catch (error) {
+    // Quota exceeded - the search still runs, it just cannot be resumed
+    console.warn('⚠️ Failed to save search checkpoint:', error);
+  }
+};
+
+export const clearSearchCheckpoint = () => localStorage.removeItem(STORAGE_KEY);
@@ -0,0 +1,70 @@
+import { SearchArea } from '../types/searchArea';
+import { SearchGridRequest, SearchGridResponse } from '../types/searchGridWorker';
+import { runSearchGridTask } from './searchGridTasks';
+
+const ORIGIN: [number, number] = [14.42, 50.08];
+const M_PER_DEG_LAT = 111_000;
+const M_PER_DEG_LON = M_PER_DEG_LAT * Math.cos((ORIGIN[1] * Math.PI) / 180);
+
+const at = (east: number, north: number): [number, number] =>
+  [ORIGIN[0] + east / M_PER_DEG_LON, ORIGIN[1] + north / M_PER_DEG_LAT];
+
+const square = (role: SearchArea['role'], from: number, to: number): SearchArea => ({
+  role,
+  rings: [[at(from, from), at(to, from), at(to, to), at(from, to), at(from, from)]]
+});
+
+const AREA = [square('include', 0, 100)];
+
+const run = (request: SearchGridRequest) => {
+  const responses: SearchGridResponse[] = [];
+  runSearchGridTask(request, response => responses.push(response));
+  return responses;
+};
+
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('grid streams the points in chunks and ends with the total', () => {
+  const responses = run({ id: 1, type: 'grid', areas: AREA, spacingM: 10, maxPoints: 10000, chunkSize: 30 });
+  const done = responses[responses.length - 1];
+  const chunks = responses.slice(0, -1);
+
+  expect(responses.every(response => response.id === 1)).toBe(true);
+  expect(done.type).toBe('done');
+  const sizes = chunks.map(chunk => (chunk.type === 'points' ? chunk.points.length : -1));
+  expect(sizes.slice(0, -1).every(size => size === 30)).toBe(true);
+  expect(sizes[sizes.length - 1]).toBeGreaterThan(0);
+
+  const total = sizes.reduce((sum, size) => sum + size, 0);
+  expect(done).toEqual({ id: 1, type: 'done', total });
+  expect(run({ id: 2, type: 'count', areas: AREA, spacingM: 10 })).toEqual([{ id: 2, type: 'count', count: total }]);
+});
+
+test('grid stops at maxPoints', () => {
+  const responses = run({ id: 1, type: 'grid', areas: AREA, spacingM: 10, maxPoints: 25, chunkSize: 10 });
+  expect(responses.map(response => response.type)).toEqual(['points', 'points', 'points', 'done']);
+  expect(responses[3]).toEqual({ id: 1, type: 'done', total: 25 });
+  expect(console.warn).toHaveBeenCalled();
+});
+
+test('cells streams the discovery root cells', () => {
+  const areas = [square('include', 0, 400)];
+  const responses = run({ id: 3, type: 'cells', areas, rootCellM: 240, chunkSize: 3 });
+  const sizes = responses.map(response => (response.type === 'cells' ? response.cells.length : response.type));
+  expect(sizes).toEqual([3, 1, 'done']);
+  expect(responses[2]).toEqual({ id: 3, type: 'done', total: 4 });
+});
+
+test('filter keeps points inside the areas and drops near duplicates', () => {
+  const points = [at(10, 10), at(15, 10), at(40, 10), at(150, 10), at(40, 30)];
+  expect(run({ id: 4, type: 'filter', points, areas: AREA, minDistanceM: 10 }))
+    .toEqual([{ id: 4, type: 'filtered', keep: [0, 2, 4] }]);
+  expect(run({ id: 5, type: 'filter', points, areas: null, minDistanceM: 0 }))
+    .toEqual([{ id: 5, type: 'filtered', keep: [0, 1, 2, 3, 4] }]);
+});
@@ -0,0 +1,71 @@
+import { SearchGridRequest, SearchGridResponse } from '../types/searchGridWorker';
+import { DiscoveryCell, forEachRootCell } from './panoramaDiscovery';
+import { forEachSearchGridPoint, pointInSearchAreas } from './searchAreas';
+import { PointGridIndex } from './spatialIndex';
+
+// The work behind every search grid request. Runs inside the Web Worker, or on the
+// main thread where workers are not available.
+export const runSearchGridTask = (request: SearchGridRequest, post: (response: SearchGridResponse) => void) => {
+  const { id } = request;
+
+  switch (request.type) {
+    case 'grid': {
+      let chunk: { lon: number; lat: number }[] = [];
+      let total = 0;
+      forEachSearchGridPoint(request.areas, request.spacingM, point => {
+        chunk.push(point);
+        total++;
+        if (chunk.length >= request.chunkSize) {
+          post({ id, type: 'points', points: chunk });
+          chunk = [];
+        }
+        return total < request.maxPoints;
+      });
+      if (chunk.length > 0) post({ id, type: 'points', points: chunk });
+      if (total >= request.maxPoints) {
+        console.warn(`⚠️ Grid capped at ${request.maxPoints} points to protect performance`);
+      }
+      post({ id, type: 'done', total });
+      return;
+    }
+
+    case 'cells': {
+      let chunk: DiscoveryCell[] = [];
+      let total = 0;
+      forEachRootCell(request.areas, request.rootCellM, cell => {
+        chunk.push(cell);
+        total++;
+        if (chunk.length >= request.chunkSize) {
+          post({ id, type: 'cells', cells: chunk });
+          chunk = [];
+        }
+      });
+      if (chunk.length > 0) post({ id, type: 'cells', cells: chunk });
+      post({ id, type: 'done', total });
+      return;
+    }
+
+    case 'count': {
+      let count = 0;
+      forEachSearchGridPoint(request.areas, request.spacingM, () => { count++; });
+      post({ id, type: 'count', count });
+      return;
+    }
+
+    case 'filter': {
+      const { points, areas, minDistanceM } = request;
+      const keep: number[] = [];
+      const index = minDistanceM > 0 && points.length > 0 ? new PointGridIndex(minDistanceM, points[0][1]) : null;
+      points.forEach((point, i) => {
+        if (areas && !pointInSearchAreas(point, areas)) return;
+        if (index) {
+          if (index.hasNeighbour(point)) return;
+          index.add(point);
+        }
+        keep.push(i);
+      });
+      post({ id, type: 'filtered', keep });
+      return;
+    }
+  }
+};
@@ -0,0 +1,190 @@
+import { SearchArea } from '../types/searchArea';
+import { SearchGridRequest, SearchGridResponse, SearchGridTask } from '../types/searchGridWorker';
+import { DiscoveryCell } from './panoramaDiscovery';
+import { runSearchGridTask } from './searchGridTasks';
+
+type Listener = (response: SearchGridResponse) => void;
+
+// Points posted per message while streaming a grid
+const GRID_CHUNK_SIZE = 250;
+
+// Requests the worker has not answered completely yet, with the number of streamed items
+// already delivered so a main-thread rerun can skip them
+interface PendingRequest {
+  request: SearchGridRequest;
+  listener: Listener;
+  delivered: number;
+}
+
+const pending: Record<number, PendingRequest> = {};
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextId = 1;
+
+const createAbortError = () => {
+  const error = new Error('Aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+const deliver = (response: SearchGridResponse) => {
+  const entry = pending[response.id];
+  if (!entry) return;
+  if (response.type === 'points') entry.delivered += response.points.length;
+  if (response.type === 'cells') entry.delivered += response.cells.length;
+  entry.listener(response);
+};
+
+// Same work on the main thread, answered asynchronously like the worker. Streamed items
+// the worker already delivered are skipped (generation order is deterministic).
+const runOnMainThread = (id: number) => setTimeout(() => {
+  const entry = pending[id];
+  if (!entry) return;
+  let skip = entry.delivered;
+  const post = (response: SearchGridResponse) => {
+    if (response.type === 'points' || response.type === 'cells') {
+      const items: unknown[] = response.type === 'points' ? response.points : response.cells;
+      const dropped = Math.min(skip, items.length);
+      skip -= dropped;
+      if (dropped === items.length) return;
+      response = response.type === 'points'
+        ? { ...response, points: response.points.slice(dropped) }
+        : { ...response, cells: response.cells.slice(dropped) };
+    }
+    deliver(response);
+  };
+  try {
+    runSearchGridTask(entry.request, post);
+  } catch (error) {
+    deliver({ id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+}, 0);
+
+// A worker that fails to load or crashes is dropped for good; whatever it left
+// unanswered is redone on the main thread so no request hangs
+const handleWorkerError = (event: ErrorEvent) => {
+  console.error('❌ Search grid worker error, continuing on the main thread:', event.message);
+  worker?.terminate();
+  worker = null;
+  workerFailed = true;
+  Object.keys(pending).forEach(id => runOnMainThread(Number(id)));
+};
+
+// One worker for the whole app, started on first use
+const getWorker = (): Worker | null => {
+  if (worker || workerFailed) return worker;
+  try {
+    worker = new Worker(new URL('../workers/searchGrid.worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<SearchGridResponse>) => deliver(event.data);
+    worker.onerror = handleWorkerError;
+  } catch (error) {
+    console.warn('⚠️ Web Worker not available, search grid runs on the main thread:', error);
+    workerFailed = true;
+  }
+  return worker;
+};
+
+// Send a request and feed its responses to `listener` until it unsubscribes
+const send = (task: SearchGridTask, listener: Listener): (() => void) => {
+  const id = nextId++;
+  const fullRequest: SearchGridRequest = { ...task, id };
+  pending[id] = { request: fullRequest, listener, delivered: 0 };
+
+  const target = getWorker();
+  if (target) {
+    target.postMessage(fullRequest);
+  } else {
+    runOnMainThread(id);
+  }
+
+  return () => { delete pending[id]; };
+};
+
+const request = <T>(
+  task: SearchGridTask,
+  onResponse: (response: SearchGridResponse, finish: (value: T) => void) => void,
+  signal?: AbortSignal
+): Promise<T> => new Promise<T>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(createAbortError());
+    return;
+  }
+
+  // Aborting stops listening; the worker finishes its (bounded) loop on its own
+  const onAbort = () => {
+    unsubscribe();
+    reject(createAbortError());
+  };
+  const unsubscribe = send(task, response => {
+    if (response.type === 'error') {
+      unsubscribe();
+      signal?.removeEventListener('abort', onAbort);
+      reject(new Error(response.message));
+      return;
+    }
+    onResponse(response, value => {
+      unsubscribe();
+      signal?.removeEventListener('abort', onAbort);
+      resolve(value);
+    });
+  });
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Grid points over the search areas, delivered in chunks as the worker produces them.
+// Resolves with the total number of points.
+export const streamSearchGrid = (
+  areas: SearchArea[],
+  spacingM: number,
+  maxPoints: number,
+  onPoints: (points: { lon: number; lat: number }[]) => void,
+  signal?: AbortSignal
+): Promise<number> => request<number>(
+  { type: 'grid', areas, spacingM, maxPoints, chunkSize: GRID_CHUNK_SIZE },
+  (response, finish) => {
+    if (response.type === 'points') onPoints(response.points);
+    if (response.type === 'done') finish(response.total);
+  },
+  signal
+);
+
+// Root cells of the quadtree discovery, delivered in chunks as the worker produces them.
+// Resolves with the number of cells.
+export const streamDiscoveryCells = (
+  areas: SearchArea[],
+  rootCellM: number,
+  onCells: (cells: DiscoveryCell[]) => void,
+  signal?: AbortSignal
+): Promise<number> => request<number>(
+  { type: 'cells', areas, rootCellM, chunkSize: GRID_CHUNK_SIZE },
+  (response, finish) => {
+    if (response.type === 'cells') onCells(response.cells);
+    if (response.type === 'done') finish(response.total);
+  },
+  signal
+);
+
+export const countSearchGrid = (areas: SearchArea[], spacingM: number, signal?: AbortSignal): Promise<number> =>
+  request<number>(
+    { type: 'count', areas, spacingM },
+    (response, finish) => {
+      if (response.type === 'count') finish(response.count);
+    },
+    signal
+  );
+
+// Found panoramas that lie in the areas (null = anywhere) and are at least minDistanceM
+// from every earlier kept one - returned in input order
+export const filterPanoramas = async <T extends { lon: number; lat: number }>(
+  panoramas: T[],
+  areas: SearchArea[] | null,
+  minDistanceM: number
+): Promise<T[]> => {
+  const keep = await request<number[]>(
+    { type: 'filter', points: panoramas.map(({ lon, lat }) => [lon, lat] as [number, number]), areas, minDistanceM },
+    (response, finish) => {
+      if (response.type === 'filtered') finish(response.keep);
+    }
+  );
+  return keep.map(index => panoramas[index]);
+};
@@ -0,0 +1,38 @@
+import { PointGridIndex } from './spatialIndex';
+
+const LAT = 50.08;
+const M_PER_DEG_LAT = 111_000;
+const M_PER_DEG_LON = M_PER_DEG_LAT * Math.cos((LAT * Math.PI) / 180);
+
+const at = (east: number, north: number): [number, number] => [14.42 + east / M_PER_DEG_LON, LAT + north / M_PER_DEG_LAT];
+
+test('finds nothing in an empty index', () => {
+  expect(new PointGridIndex(20, LAT).hasNeighbour(at(0, 0))).toBe(false);
+});
+
+test('finds points closer than the distance in any direction', () => {
+  const index = new PointGridIndex(20, LAT);
+  index.add(at(0, 0));
+  expect(index.hasNeighbour(at(0, 0))).toBe(true);
+  expect(index.hasNeighbour(at(19, 0))).toBe(true);
+  expect(index.hasNeighbour(at(0, -19))).toBe(true);
+  expect(index.hasNeighbour(at(-13, 13))).toBe(true);
+});
+
+test('ignores points at or beyond the distance', () => {
+  const index = new PointGridIndex(20, LAT);
+  index.add(at(0, 0));
+  expect(index.hasNeighbour(at(21, 0))).toBe(false);
+  expect(index.hasNeighbour(at(0, 21))).toBe(false);
+  // Within the neighbouring cells but not within 20 m
+  expect(index.hasNeighbour(at(15, 15))).toBe(false);
+});
+
+test('finds neighbours across grid cell borders', () => {
+  const index = new PointGridIndex(20, LAT);
+  const cellLon = 20 / M_PER_DEG_LON;
+  // Just either side of a cell boundary
+  const border = Math.ceil(14.42 / cellLon) * cellLon;
+  index.add([border - 1e-7, LAT]);
+  expect(index.hasNeighbour([border + 1e-7, LAT])).toBe(true);
+});
@@ -0,0 +1,43 @@
+type LonLat = [number, number];
+
+const METERS_PER_DEG_LAT = 111_000;
+
+// Grid hash for proximity queries on [lon, lat] points. Cells are as large as the query
+// distance, so a neighbour can only be in the point's cell or the 8 around it.
+export class PointGridIndex {
+  private cells: Record<string, LonLat[]> = {};
+  private cellLon: number;
+  private cellLat: number;
+
+  constructor(private distanceM: number, referenceLat: number) {
+    this.cellLat = distanceM / METERS_PER_DEG_LAT;
+    this.cellLon = distanceM / (METERS_PER_DEG_LAT * Math.cos((referenceLat * Math.PI) / 180));
+  }
+
+  private cellOf([lon, lat]: LonLat): [number, number] {
+    return [Math.floor(lon / this.cellLon), Math.floor(lat / this.cellLat)];
+  }
+
+  add(point: LonLat) {
+    const [x, y] = this.cellOf(point);
+    const key = `${x}_${y}`;
+    (this.cells[key] || (this.cells[key] = [])).push(point);
+  }
+
+  // Any indexed point closer than the index distance
+  hasNeighbour(point: LonLat): boolean {
+    const [x, y] = this.cellOf(point);
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        const cell = this.cells[`${x + dx}_${y + dy}`];
+        if (cell && cell.some(other => this.distance(point, other) < this.distanceM)) return true;
+      }
+    }
+    return false;
+  }
+
+  private distance([lon1, lat1]: LonLat, [lon2, lat2]: LonLat) {
+    const x = ((lon2 - lon1) * this.cellLat) / this.cellLon;
+    return (Math.sqrt(x * x + (lat2 - lat1) * (lat2 - lat1)) * this.distanceM) / this.cellLat;
+  }
+}
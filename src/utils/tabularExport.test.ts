@@ -0,0 +1,86 @@
+/**
+ * @jest-environment node
+ */
+import { AnalysisResult } from '../types/analysis';
+import { TabularExportOptions, toCsv, toXlsx } from './tabularExport';
+
+const result = (overrides: Partial<AnalysisResult> = {}): AnalysisResult => ({
+  id: 1,
+  name: 'Panorama 1',
+  coordinates: [14.42, 50.08],
+  condition: '',
+  confidence: 0,
+  issues: [],
+  recommendation: '',
+  estimatedValue: 0,
+  analysisStatus: 'pending',
+  ...overrides
+});
+
+const options = (columns: string[], delimiter: TabularExportOptions['delimiter'] = ','): TabularExportOptions =>
+  ({ columns, delimiter });
+
+const csvLines = (csv: string) => csv.replace(/^\uFEFF/, '').split('\r\n');
+
+describe('toCsv', () => {
+  test('starts with a BOM and ends every row with CRLF', () => {
+    const csv = toCsv([result()], options(['id', 'name']));
+    expect(csv).toBe('\uFEFFID,Název\r\n1,Panorama 1\r\n');
+  });
+
+  test('quotes fields with the delimiter, quotes or line breaks', () => {
+    const csv = toCsv([result({ name: 'A, "B"\nC' })], options(['name']));
+    expect(csvLines(csv)[1]).toBe('"A, ""B""\nC"');
+  });
+
+  test('quotes against the chosen delimiter only', () => {
+    const row = (delimiter: TabularExportOptions['delimiter']) =>
+      csvLines(toCsv([result({ name: 'a,b;c' })], options(['name'], delimiter)))[1];
+    expect(row(',')).toBe('"a,b;c"');
+    expect(row(';')).toBe('"a,b;c"');
+    expect(csvLines(toCsv([result({ name: 'a,b' })], options(['name'], ';')))[1]).toBe('a,b');
+  });
+
+  test('leaves missing values empty and writes numbers as they are', () => {
+    const csv = toCsv([result({ coordinates: [-0.5, 51.5] })], options(['lon', 'lat', 'panoramaDate', 'street']));
+    expect(csvLines(csv)[1]).toBe('-0.5,51.5,,');
+  });
+
+  test('keeps text that looks like a formula from running', () => {
+    const names = ['=HYPERLINK("x")', '+1', '-2', '@SUM(A1)', '\tx', 'ok=1'];
+    const rows = csvLines(toCsv(names.map((name, id) => result({ id, name })), options(['name']))).slice(1, -1);
+    expect(rows).toEqual(["\"'=HYPERLINK(\"\"x\"\")\"", "'+1", "'-2", "'@SUM(A1)", "'\tx", 'ok=1']);
+  });
+});
+
+describe('toXlsx', () => {
+  // Entries are stored uncompressed, so the package text contains them verbatim
+  const sheetXml = (zip: Uint8Array) => {
+    const text = new TextDecoder().decode(zip);
+    const start = text.indexOf('<worksheet');
+    return text.slice(start, text.indexOf('</worksheet>', start) + '</worksheet>'.length);
+  };
+
+  test('writes a header row, inline strings and numeric cells', () => {
+    const xml = sheetXml(toXlsx([result()], options(['name', 'lat'])));
+    expect(xml).toContain('<row r="1"><c r="A1" t="inlineStr" s="1"><is><t xml:space="preserve">Název</t></is></c>');
+    expect(xml).toContain('<row r="2"><c r="A2" t="inlineStr"><is><t xml:space="preserve">Panorama 1</t></is></c><c r="B2"><v>50.08</v></c></row>');
+    expect(xml).toContain('<autoFilter ref="A1:B2"/>');
+  });
+
+  test('escapes XML and drops control characters', () => {
+    const xml = sheetXml(toXlsx([result({ name: 'a < b & "c"\u0001' })], options(['name'])));
+    expect(xml).toContain('a &lt; b &amp; &quot;c&quot;</t>');
+  });
+
+  test('keeps text that looks like a formula from running', () => {
+    const xml = sheetXml(toXlsx([result({ name: '=1+1' })], options(['name'])));
+    expect(xml).toContain(`<t xml:space="preserve">'=1+1</t>`);
+  });
+
+  test('links the panorama column', () => {
+    const zip = toXlsx([result()], options(['panoramaUrl']));
+    expect(sheetXml(zip)).toContain('<hyperlink ref="A2" r:id="rId1"/>');
+    expect(new TextDecoder().decode(zip)).toContain('Target="https://mapy.cz/zakladni?x=14.4200000&amp;y=50.0800000');
+  });
+});
@@ -0,0 +1,230 @@
+import { CHECKLIST_KEYS, ChecklistKey, PropertyAnalysisResponse } from '../shared/propertyAnalysisSchema';
+import { AnalysisResult, isAiAnalysisError, resultDisplayName } from '../types/analysis';
+import { aimViewAtTarget } from './panoramaTargeting';
+import { createZip } from './zip';
+import { describeAnnotations } from '../types/annotation';
+
+type CellValue = string | number | null;
+
+export interface TabularColumn {
+  id: string;
+  label: string;
+  value: (result: AnalysisResult) => CellValue;
+  link?: (result: AnalysisResult) => string | null; // XLSX hyperlink target
+}
+
+export interface TabularExportOptions {
+  columns: string[]; // Column ids in output order
+  delimiter: ',' | ';'; // CSV only - Czech Excel splits on ';' by default
+}
+
+export const CHECKLIST_LABELS: Record<ChecklistKey, string> = {
+  stav_fasady: 'Stav fasády',
+  stav_oken_dveri: 'Stav oken a dveří',
+  stav_strechy: 'Stav střechy',
+  okoli_nemovitosti: 'Okolí nemovitosti',
+  celkovy_dojem: 'Celkový dojem'
+};
+
+const analysisOf = (result: AnalysisResult): PropertyAnalysisResponse | null =>
+  result.aiAnalysis && !isAiAnalysisError(result.aiAnalysis) ? result.aiAnalysis : null;
+
+// Mapy.cz panorama view at the result, looking where the analysis looked
+export const panoramaViewUrl = (result: AnalysisResult) => {
+  const [lon, lat] = result.coordinates;
+  const yaw = result.target
+    ? aimViewAtTarget({ lon, lat }, { lon: result.target[0], lat: result.target[1] }).yaw
+    : analysisOf(result)?.views?.[0]?.yaw ?? 0;
+  const params = new URLSearchParams({
+    x: lon.toFixed(7),
+    y: lat.toFixed(7),
+    z: '19',
+    pano: '1',
+    yaw: ((yaw * Math.PI) / 180).toFixed(4)
+  });
+  return `https://mapy.cz/zakladni?${params.toString()}`;
+};
+
+export const TABULAR_COLUMNS: TabularColumn[] = [
+  { id: 'id', label: 'ID', value: r => r.id },
+  { id: 'name', label: 'Název', value: r => resultDisplayName(r) },
+  { id: 'street', label: 'Ulice', value: r => r.address?.street ?? null },
+  { id: 'houseNumber', label: 'Číslo domu', value: r => r.address?.houseNumber ?? null },
+  { id: 'municipality', label: 'Obec', value: r => r.address?.municipality ?? null },
+  { id: 'district', label: 'Část obce', value: r => r.address?.district ?? null },
+  { id: 'lat', label: 'Zeměpisná šířka', value: r => r.coordinates[1] },
+  { id: 'lon', label: 'Zeměpisná délka', value: r => r.coordinates[0] },
+  { id: 'panoramaDate', label: 'Datum panoramatu', value: r => r.panoramaDate ?? null },
+  { id: 'analysisStatus', label: 'Stav analýzy', value: r => r.analysisStatus },
+  { id: 'potencial_prodeje_skore', label: 'Skóre potenciálu (0-100)', value: r => analysisOf(r)?.souhrn.potencial_prodeje_skore ?? null },
+  ...CHECKLIST_KEYS.map((key): TabularColumn => ({
+    id: `checklist_${key}`,
+    label: `${CHECKLIST_LABELS[key]} (0-10)`,
+    value: r => analysisOf(r)?.checklist[key] ?? null
+  })),
+  { id: 'pozitiva', label: 'Pozitiva', value: r => analysisOf(r)?.souhrn.pozitiva.join('; ') ?? null },
+  { id: 'negativa', label: 'Negativa', value: r => analysisOf(r)?.souhrn.negativa.join('; ') ?? null },
+  { id: 'doporuceni', label: 'Doporučení', value: r => analysisOf(r)?.souhrn.doporuceni ?? null },
+  { id: 'stari_a_styl', label: 'Stáří a styl', value: r => analysisOf(r)?.stari_a_styl ?? null },
+  { id: 'annotations', label: 'Anotace', value: r => (r.annotations?.length ? describeAnnotations(r.annotations) : null) },
+  { id: 'target', label: 'Cílová budova', value: r => (r.target ? `${r.target[1]}, ${r.target[0]}` : null) },
+  {
+    id: 'error',
+    label: 'Chyba analýzy',
+    value: r => (r.aiAnalysis && isAiAnalysisError(r.aiAnalysis) ? r.aiAnalysis.error : null)
+  },
+  { id: 'panoramaUrl', label: 'Panorama', value: r => panoramaViewUrl(r), link: r => panoramaViewUrl(r) }
+];
+
+export const DEFAULT_TABULAR_EXPORT_OPTIONS: TabularExportOptions = {
+  columns: TABULAR_COLUMNS.filter(column => column.id !== 'error' && column.id !== 'target').map(column => column.id),
+  delimiter: ','
+};
+
+const resolveColumns = (ids: string[]) =>
+  ids
+    .map(id => TABULAR_COLUMNS.find(column => column.id === id))
+    .filter((column): column is TabularColumn => !!column);
+
+// Text starting with =, +, -, @, tab or CR would run as a formula when the file is
+// opened in Excel or Sheets (AI text and addresses are untrusted) - an apostrophe keeps
+// it text. Numbers are written as they are.
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/;
+
+const neutralizeFormula = (text: string) => (FORMULA_TRIGGER.test(text) ? `'${text}` : text);
+
+// --- CSV (RFC 4180) ---
+
+const escapeCsvField = (value: CellValue, delimiter: string) => {
+  if (value === null) return '';
+  const text = typeof value === 'number' ? String(value) : neutralizeFormula(String(value));
+  return text.includes('"') || text.includes(delimiter) || /[\r\n]/.test(text)
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+};
+
+// CRLF line breaks and a UTF-8 BOM so Excel reads the Czech diacritics correctly
+export const toCsv = (results: AnalysisResult[], options: TabularExportOptions): string => {
+  const columns = resolveColumns(options.columns);
+  const rows = [
+    columns.map(column => escapeCsvField(column.label, options.delimiter)),
+    ...results.map(result => columns.map(column => escapeCsvField(column.value(result), options.delimiter)))
+  ];
+  return '\uFEFF' + rows.map(row => row.join(options.delimiter)).join('\r\n') + '\r\n';
+};
+
+// --- XLSX (Office Open XML spreadsheet) ---
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+// 0 -> A, 25 -> Z, 26 -> AA
+const columnLetter = (index: number): string =>
+  (index >= 26 ? columnLetter(Math.floor(index / 26) - 1) : '') + String.fromCharCode(65 + (index % 26));
+
+const xlsxCell = (ref: string, value: CellValue, style = 0) => {
+  const styleAttr = style ? ` s="${style}"` : '';
+  if (value === null) return `<c r="${ref}"${styleAttr}/>`;
+  if (typeof value === 'number' && Number.isFinite(value)) return `<c r="${ref}"${styleAttr}><v>${value}</v></c>`;
+  return `<c r="${ref}" t="inlineStr"${styleAttr}><is><t xml:space="preserve">${escapeXml(neutralizeFormula(String(value)))}</t></is></c>`;
+};
+
+const XLSX_STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+  <fonts count="3"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font><font><u/><sz val="11"/><color rgb="FF0563C1"/><name val="Calibri"/></font></fonts>
+  <fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+  <borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+  <cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+  <cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/><xf numFmtId="0" fontId="2" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>
+</styleSheet>`;
+
+const STYLE_HEADER = 1;
+const STYLE_LINK = 2;
+
+export const toXlsx = (results: AnalysisResult[], options: TabularExportOptions): Uint8Array => {
+  const columns = resolveColumns(options.columns);
+  const lastColumn = columnLetter(Math.max(0, columns.length - 1));
+  const links: { ref: string; target: string }[] = [];
+
+  const header = `<row r="1">${columns.map((column, c) => xlsxCell(`${columnLetter(c)}1`, column.label, STYLE_HEADER)).join('')}</row>`;
+  const rows = results.map((result, index) => {
+    const rowNumber = index + 2;
+    const cells = columns.map((column, c) => {
+      const ref = `${columnLetter(c)}${rowNumber}`;
+      const target = column.link?.(result);
+      if (target) {
+        links.push({ ref, target });
+        return xlsxCell(ref, 'Otevřít panorama', STYLE_LINK);
+      }
+      return xlsxCell(ref, column.value(result));
+    });
+    return `<row r="${rowNumber}">${cells.join('')}</row>`;
+  });
+
+  const columnWidths = columns
+    .map((column, c) => {
+      const width = ['pozitiva', 'negativa', 'doporuceni', 'stari_a_styl'].includes(column.id) ? 50 : Math.max(12, column.label.length + 2);
+      return `<col min="${c + 1}" max="${c + 1}" width="${width}" customWidth="1"/>`;
+    })
+    .join('');
+
+  const sheet = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+  <sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+  <cols>${columnWidths}</cols>
+  <sheetData>${header}${rows.join('')}</sheetData>
+  <autoFilter ref="A1:${lastColumn}${results.length + 1}"/>${links.length > 0 ? `
+  <hyperlinks>${links.map((link, i) => `<hyperlink ref="${link.ref}" r:id="rId${i + 1}"/>`).join('')}</hyperlinks>` : ''}
+</worksheet>`;
+
+  const sheetRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${links.map((link, i) =>
+    `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="${escapeXml(link.target)}" TargetMode="External"/>`).join('')}</Relationships>`;
+
+  return createZip([
+    {
+      name: '[Content_Types].xml',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+  <Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+  <Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`
+    },
+    {
+      name: '_rels/.rels',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`
+    },
+    {
+      name: 'xl/workbook.xml',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+  <sheets><sheet name="Analýza" sheetId="1" r:id="rId1"/></sheets>
+  <definedNames><definedName name="_xlnm._FilterDatabase" localSheetId="0" hidden="1">'Analýza'!$A$1:$${lastColumn}$${results.length + 1}</definedName></definedNames>
+</workbook>`
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+  <Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`
+    },
+    { name: 'xl/styles.xml', data: XLSX_STYLES },
+    { name: 'xl/worksheets/sheet1.xml', data: sheet },
+    { name: 'xl/worksheets/_rels/sheet1.xml.rels', data: sheetRels }
+  ]);
+};
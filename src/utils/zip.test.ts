@@ -0,0 +1,64 @@
+/**
+ * @jest-environment node
+ */
+import { createZip } from './zip';
+
+interface ReadEntry {
+  name: string;
+  data: Uint8Array;
+  crc: number;
+}
+
+// Reads a stored (uncompressed) ZIP through its central directory, checking the headers
+const readZip = (zip: Uint8Array): ReadEntry[] => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+
+  const entries: ReadEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    const crc = view.getUint32(position + 16, true);
+    const size = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const offset = view.getUint32(position + 42, true);
+    const name = decoder.decode(zip.subarray(position + 46, position + 46 + nameLength));
+
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    expect(view.getUint32(offset + 14, true)).toBe(crc);
+    const dataStart = offset + 30 + view.getUint16(offset + 26, true);
+    entries.push({ name, crc, data: zip.subarray(dataStart, dataStart + size) });
+    position += 46 + nameLength;
+  }
+  return entries;
+};
+
+test('writes entries readable through the central directory', () => {
+  const binary = new Uint8Array([0, 1, 2, 254, 255]);
+  const entries = readZip(createZip([
+    { name: 'a.txt', data: 'hello' },
+    { name: 'složka/ř.xml', data: '<x>žluťoučký</x>' },
+    { name: 'bin', data: binary }
+  ]));
+
+  const decoder = new TextDecoder();
+  expect(entries.map(entry => entry.name)).toEqual(['a.txt', 'složka/ř.xml', 'bin']);
+  expect(decoder.decode(entries[0].data)).toBe('hello');
+  expect(decoder.decode(entries[1].data)).toBe('<x>žluťoučký</x>');
+  expect(Array.from(entries[2].data)).toEqual(Array.from(binary));
+});
+
+test('stores the standard CRC-32 of each entry', () => {
+  const [entry, empty] = readZip(createZip([{ name: 'check', data: '123456789' }, { name: 'empty', data: '' }]));
+  expect(entry.crc).toBe(0xcbf43926);
+  expect(empty.crc).toBe(0);
+});
+
+test('an empty archive is just the end record', () => {
+  const zip = createZip([]);
+  expect(zip).toHaveLength(22);
+  expect(readZip(zip)).toEqual([]);
+});
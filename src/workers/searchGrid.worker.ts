@@ -0,0 +1,19 @@
+/* eslint-disable no-restricted-globals */
+// Search grid generation and panorama filtering off the UI thread
+import { SearchGridRequest, SearchGridResponse } from '../types/searchGridWorker';
+import { runSearchGridTask } from '../utils/searchGridTasks';
+
+const ctx = self as unknown as {
+  onmessage: ((event: MessageEvent<SearchGridRequest>) => void) | null;
+  postMessage: (response: SearchGridResponse) => void;
+};
+
+ctx.onmessage = (event) => {
+  try {
+    runSearchGridTask(event.data, response => ctx.postMessage(response));
+  } catch (error) {
+    ctx.postMessage({ id: event.data.id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
+
+export {};